@@ -1,12 +1,58 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Layout } from './components/Layout';
-import { Persona, WorkflowState, GeneratedIdea, RefinementRequirement, GeneratedImage, CaptionData } from './types';
-import * as GeminiService from './services/geminiService';
-import { supabase, mapPersonaFromDb, mapPersonaToDb, uploadImage } from './lib/supabase';
+import { Persona, WorkflowState, GeneratedIdea, RefinementRequirement, GeneratedImage, CaptionData, CampaignSummary, SyncStatus, CarouselSlide, Job, AppUser, Brand, Product, ScheduledPost, PublishPlatform, PublishAccount, Publication, CaptionOptions, HashtagGroup, HashtagTier, PromptTemplate, PromptTemplateKey, PromptTemplatePin, Provenance, AuditAction, UsageEvent } from './types';
+import { aiProvider } from './services/aiProvider';
+import * as AIErrors from './services/aiErrors';
+import * as CampaignService from './services/campaignService';
+import * as PersonaService from './services/personaService';
+import * as SyncService from './services/syncService';
+import * as JobService from './services/jobService';
+import * as AuthService from './services/authService';
+import * as WorkspaceService from './services/workspaceService';
+import * as BrandService from './services/brandService';
+import * as CalendarService from './services/calendarService';
+import * as PublishService from './services/publishService';
+import * as PromptTemplateService from './services/promptTemplateService';
+import * as AuditService from './services/auditService';
+import * as UsageService from './services/usageService';
+import { PUBLISH_PLATFORMS, getPlatformLabel } from './services/publisher';
+import { uploadImage } from './lib/supabase';
+import { compressImageToBlob } from './lib/imageFiles';
+import * as ImageVersions from './lib/imageVersions';
+import { VersionCompare } from './components/VersionCompare';
+import { MaskEditor } from './components/MaskEditor';
+import { AuthScreen } from './components/AuthScreen';
+import { BrandEditor, createEmptyBrand } from './components/BrandEditor';
+import { ContentCalendar } from './components/ContentCalendar';
+import { PublishAccountsEditor } from './components/PublishAccountsEditor';
+import { HashtagGroupsEditor } from './components/HashtagGroupsEditor';
+import { PersonaStyleEditor } from './components/PersonaStyleEditor';
+import { PersonaVoiceEditor } from './components/PersonaVoiceEditor';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { ProvenancePanel } from './components/ProvenancePanel';
+import { AuditLogView } from './components/AuditLogView';
+import { UsageDashboard } from './components/UsageDashboard';
+import { applyBrandRules, countProductReferences, findBannedWords } from './lib/brands';
+import { estimateImageCost, formatCost } from './lib/pricing';
+import {
+  CAPTION_TONES, CAPTION_LENGTHS, EMOJI_DENSITIES, MAX_CAPTION_VARIANTS, DEFAULT_CAPTION_OPTIONS,
+  formatCaptionText, getCaptionWarnings
+} from './lib/captions';
+import {
+  HashtagUse, findRepeatedHashtags, getHashtagTierLabel, getTieredHashtag, getWeekHashtags, isBannedHashtag,
+  createHashtagGroup, uniqueHashtags
+} from './lib/hashtags';
+import { buildCampaignExport } from './lib/campaignExport';
+import { stampActor, withActor } from './lib/provenance';
+import { mergePersonaStyle } from './lib/personaStyle';
+import { GOOD_VOICE_MATCH, MIN_VOICE_SAMPLES } from './lib/voice';
+import { PROMPT_TEMPLATE_DEFINITIONS, resolvePromptTemplate, toPromptTemplateRef } from './lib/promptTemplates';
+import { OUTPUT_FORMATS, DEFAULT_FORMAT_ID, getFormat, toCssAspectRatio } from './lib/formats';
 import { 
   Camera, MapPin, Loader2, Sparkles, CheckCircle, Edit3, 
   Image as ImageIcon, Send, ArrowRight, RefreshCw, Layers,
-  ChevronRight, Instagram, Download, Hash, Plus, Trash2, X, Save, Upload, MoreVertical, Wand2, Database
+  ChevronRight, Instagram, Download, Hash, Plus, Trash2, X, Save, Upload, MoreVertical, Wand2, Database, History, CloudOff,
+  Undo2, Redo2, GitBranch, Columns, Brush, ShieldCheck, ShieldAlert, RotateCcw, AlertCircle, Briefcase, Package, CalendarDays, CalendarPlus, ExternalLink, FileText, Pin, Fingerprint, ScrollText, Gauge, MessageSquareQuote
 } from 'lucide-react';
 
 // --- MOCK DATA FOR SEEDING (Optional) ---
@@ -33,43 +79,6 @@ const SEED_PERSONAS: Persona[] = [
   }
 ];
 
-// Helper to compress images and return a Blob for uploading
-const compressImageToBlob = (file: File): Promise<Blob> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = (event) => {
-      const img = new Image();
-      img.src = event.target?.result as string;
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const MAX_WIDTH = 1200; // Increased slightly as we are using storage buckets now
-        const scaleSize = MAX_WIDTH / img.width;
-        
-        const finalScale = scaleSize < 1 ? scaleSize : 1;
-        
-        canvas.width = img.width * finalScale;
-        canvas.height = img.height * finalScale;
-        
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            reject(new Error("Canvas context failed"));
-            return;
-        }
-        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-        
-        // Export as Blob (JPEG 0.8)
-        canvas.toBlob((blob) => {
-          if (blob) resolve(blob);
-          else reject(new Error("Blob creation failed"));
-        }, 'image/jpeg', 0.85);
-      };
-      img.onerror = (err) => reject(err);
-    };
-    reader.onerror = (err) => reject(err);
-  });
-};
-
 // Helper for UI previews (Keep for refinement usage if needed, or simple local previews)
 const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -80,34 +89,143 @@ const fileToBase64 = (file: File): Promise<string> => {
     });
 };
 
+// Groups an idea's images by output format, in the order formats are listed in OUTPUT_FORMATS
+const groupImagesByFormat = (images: GeneratedImage[]) => {
+  return OUTPUT_FORMATS
+    .map(format => ({ format, images: images.filter(img => getFormat(img.formatId).id === format.id) }))
+    .filter(group => group.images.length > 0);
+};
+
+const CAROUSEL_SLIDE_COUNT = 5;
+const MAX_IDENTITY_RETRIES = 1;
+const UPCOMING_POST_COUNT = 6;
+
+const HASHTAG_TIER_STYLES: Record<HashtagTier, string> = {
+  low: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  mid: 'bg-sky-50 text-sky-700 border-sky-100',
+  high: 'bg-violet-50 text-violet-700 border-violet-100',
+};
+
+// Slide plan in the order the slides currently appear in the editor (first format group wins)
+const getOrderedSlides = (idea: GeneratedIdea, images: GeneratedImage[]): CarouselSlide[] | undefined => {
+  if (!idea.slides?.length) return idea.slides;
+  const firstGroup = groupImagesByFormat(images)[0];
+  if (!firstGroup) return idea.slides;
+
+  const ordered = firstGroup.images
+    .map(img => idea.slides!.find(slide => slide.id === img.slideId))
+    .filter((slide): slide is CarouselSlide => !!slide);
+  return ordered.length > 0 ? ordered : idea.slides;
+};
+
+const STEP_LABELS: Record<WorkflowState['step'], string> = {
+  dashboard: 'Dashboard',
+  selection: 'Casting',
+  ideation: 'Ideation',
+  refinement: 'Refinement',
+  generation: 'Generation',
+  editing: 'Studio Editor',
+  captions: 'Final Review',
+  complete: 'Complete'
+};
+
+const INITIAL_STATE: WorkflowState = {
+  step: 'dashboard',
+  campaignId: null,
+  brandId: null,
+  featuredProductId: null,
+  selectedPersonaIds: [],
+  mode: null,
+  manualActivityInput: '',
+  postType: 'single',
+  targetFormats: [DEFAULT_FORMAT_ID],
+  ideaFormats: {},
+  generatedIdeas: {},
+  selectedIdeaIds: {},
+  refinementData: {},
+  generatedImages: {},
+  captionOptions: DEFAULT_CAPTION_OPTIONS,
+  captions: {}
+};
+
+const JOB_STATUS_LABELS: Record<Job['status'], string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
 const App: React.FC = () => {
+  // undefined until the stored session has been checked
+  const [user, setUser] = useState<AppUser | null | undefined>(undefined);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [workspaceBudget, setWorkspaceBudget] = useState<number | null>(null);
+  const [isWorkspaceOwner, setIsWorkspaceOwner] = useState(false);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingMsg, setLoadingMsg] = useState("");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [dbConnected, setDbConnected] = useState(true);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ pending: 0, failed: 0, syncing: false });
   const [uploading, setUploading] = useState(false);
   
   // Specific loading state for persona enhancement
   const [enhancing, setEnhancing] = useState(false);
+  const [learningVoice, setLearningVoice] = useState(false);
 
   // Workflow State
-  const [state, setState] = useState<WorkflowState>({
-    step: 'dashboard',
-    selectedPersonaIds: [],
-    mode: null,
-    manualActivityInput: '',
-    generatedIdeas: {},
-    selectedIdeaIds: {},
-    refinementData: {},
-    generatedImages: {},
-    captions: {}
-  });
+  const [state, setState] = useState<WorkflowState>(INITIAL_STATE);
 
   // Config for generation
   const [genCount, setGenCount] = useState(2);
   const [genQuality, setGenQuality] = useState<'1K' | '2K' | '4K'>('2K');
+  const [identityThreshold, setIdentityThreshold] = useState(70);
+  const [autoRegenerate, setAutoRegenerate] = useState(true);
+  const [concurrency, setConcurrency] = useState(JobService.DEFAULT_CONCURRENCY);
   const [editInputs, setEditInputs] = useState<Record<string, string>>({});
+  const [compareImage, setCompareImage] = useState<GeneratedImage | null>(null);
+  // Per-image edit attachments (base64, without the data URI prefix)
+  const [editReferences, setEditReferences] = useState<Record<string, string>>({});
+  const [editMasks, setEditMasks] = useState<Record<string, string>>({});
+  const [maskTarget, setMaskTarget] = useState<GeneratedImage | null>(null);
+
+  // Brands of the active workspace and the one open in the editor
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [editingBrand, setEditingBrand] = useState<Brand | null>(null);
+
+  // Workspace prompt template versions and pins; the template open in the editor
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [promptPins, setPromptPins] = useState<PromptTemplatePin[]>([]);
+  const [editingPromptKey, setEditingPromptKey] = useState<PromptTemplateKey | null>(null);
+
+  // Provenance shown in the Inspect panel, and whether the audit log is open
+  const [inspecting, setInspecting] = useState<{ title: string; records: { label: string; provenance?: Provenance }[] } | null>(null);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+
+  // Usage events of the active workspace this month, for the budget and the usage dashboard
+  const [monthUsage, setMonthUsage] = useState<UsageEvent[]>([]);
+  const [usageLoading, setUsageLoading] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+
+  // Saved campaigns shown on the dashboard
+  const [recentCampaigns, setRecentCampaigns] = useState<CampaignSummary[]>([]);
+
+  // Content calendar: finished posts, scheduled or waiting in the tray
+  const [scheduledPosts, setScheduledPosts] = useState<ScheduledPost[]>([]);
+  const [showCalendar, setShowCalendar] = useState(false);
+  // Export campaign: put each persona's posts in its own folder inside the ZIP
+  const [exportPerPersona, setExportPerPersona] = useState(true);
+  // `${ideaId}:${platform}` of publish requests in flight
+  const [publishing, setPublishing] = useState<Record<string, boolean>>({});
+  const [connectedAccounts, setConnectedAccounts] = useState<PublishService.ConnectedAccounts>({});
+
+  // Background generation/edit/caption jobs
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const hasActiveJobs = jobs.some(JobService.isActiveJob);
 
   // Persona Management State
   const [isEditorOpen, setIsEditorOpen] = useState(false);
@@ -115,30 +233,230 @@ const App: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const refInputRef = useRef<HTMLInputElement>(null);
 
+  // --- AUTH & WORKSPACES ---
+  useEffect(() => {
+    let currentUserId: string | null = null;
+    const unsubscribe = AuthService.subscribeAuth(next => {
+      setUser(next);
+      // Token refreshes report the same user again
+      if ((next?.id || null) === currentUserId) return;
+      currentUserId = next?.id || null;
+      setWorkspaceError(null);
+
+      if (next) {
+        WorkspaceService.loadWorkspaces(next).catch(err => {
+          console.error("Failed to load workspaces:", err);
+          setWorkspaceError(err?.message || "Could not load your workspaces.");
+        });
+      } else {
+        WorkspaceService.clearWorkspaces();
+      }
+    });
+    const unsubscribeWorkspaces = WorkspaceService.subscribeWorkspaces(s => {
+      const active = s.workspaces.find(w => w.id === s.activeWorkspaceId);
+      setActiveWorkspaceId(s.activeWorkspaceId);
+      setWorkspaceBudget(active?.monthlyBudget ?? null);
+      setIsWorkspaceOwner(active?.role === 'owner');
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeWorkspaces();
+    };
+  }, []);
+
   // --- INITIAL LOAD ---
+  // Everything on screen belongs to the active workspace, so switching starts over from its dashboard
+  useEffect(() => {
+    JobService.cancelAllJobs();
+    JobService.clearFinishedJobs();
+    setState(INITIAL_STATE);
+    setPersonas([]);
+    setBrands([]);
+    setPromptTemplates([]);
+    setPromptPins([]);
+    setEditingPromptKey(null);
+    setInspecting(null);
+    setShowAuditLog(false);
+    setMonthUsage([]);
+    setShowUsage(false);
+    setRecentCampaigns([]);
+    setScheduledPosts([]);
+    setShowCalendar(false);
+    if (activeWorkspaceId) fetchPersonas();
+  }, [activeWorkspaceId]);
+
+  // --- SYNC QUEUE ---
   useEffect(() => {
-    fetchPersonas();
+    const unsubscribe = SyncService.subscribeSyncStatus(setSyncStatus);
+    const handleOnline = async () => {
+      await SyncService.flushSyncQueue();
+      if (WorkspaceService.getActiveWorkspace()) fetchPersonas();
+    };
+
+    window.addEventListener('online', handleOnline);
+    SyncService.flushSyncQueue();
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+    };
   }, []);
 
+  // --- JOB QUEUE ---
+  useEffect(() => JobService.subscribeJobs(setJobs), []);
+
+  // --- USAGE ---
+  // Re-pointed as the campaign changes so each AI operation is charged to the current campaign and its personas
+  useEffect(() => {
+    UsageService.setChargeResolver((personaId, ideaId) => ({
+      workspaceId: WorkspaceService.getActiveWorkspace()?.id,
+      personaId: personaId || Object.keys(state.generatedIdeas)
+        .find(pid => state.generatedIdeas[pid].some(idea => idea.id === ideaId)),
+      campaignId: state.campaignId,
+    }));
+  }, [state.campaignId, state.generatedIdeas]);
+
+  // With Supabase sign-in the AI server stores the events; without it they are recorded here
+  useEffect(() => UsageService.subscribeUsage(report => {
+    if (report.event) {
+      setMonthUsage(prev => [report.event!, ...prev]);
+      return;
+    }
+    if (AuthService.authEnabled || !WorkspaceService.getActiveWorkspace()) return;
+    const { personaId, campaignId } = UsageService.getUsageCharge(report.personaId, report.ideaId);
+    UsageService.recordUsageEvent(report, { personaId, campaignId, userEmail: user?.email || undefined })
+      .then(event => setMonthUsage(prev => [event, ...prev]))
+      .catch(err => console.error("Failed to record usage", err));
+  }), [user]);
+
+  useEffect(() => {
+    JobService.setConcurrency(concurrency);
+  }, [concurrency]);
+
   const fetchPersonas = async () => {
+    const { personas: loaded, connected } = await PersonaService.loadPersonas();
+    // Nothing stored locally and no database: show the demo personas
+    setPersonas(loaded.length > 0 || connected ? loaded : SEED_PERSONAS);
+    setDbConnected(connected);
+    fetchConnectedAccounts(loaded.map(p => p.id));
+    fetchBrands();
+    fetchPromptTemplates();
+    fetchCampaigns();
+    fetchScheduledPosts();
+    fetchUsage();
+  };
+
+  const fetchConnectedAccounts = async (personaIds: string[]) => {
     try {
-      const { data, error } = await supabase
-        .from('personas')
-        .select('*')
-        .order('created_at', { ascending: false });
+      setConnectedAccounts(await PublishService.loadConnectedAccounts(personaIds));
+    } catch (err) {
+      console.error("Failed to load publishing accounts:", err);
+    }
+  };
 
-      if (error) throw error;
+  const fetchUsage = async () => {
+    setUsageLoading(true);
+    try {
+      setMonthUsage(await UsageService.loadMonthUsage());
+    } catch (err) {
+      console.error("Failed to load usage:", err);
+    } finally {
+      setUsageLoading(false);
+    }
+  };
 
-      if (data && data.length > 0) {
-        setPersonas(data.map(mapPersonaFromDb));
-      } else {
-        setPersonas([]); 
+  const fetchPromptTemplates = async () => {
+    try {
+      const [templates, pins] = await Promise.all([PromptTemplateService.loadPromptTemplates(), PromptTemplateService.loadPromptPins()]);
+      setPromptTemplates(templates);
+      setPromptPins(pins);
+    } catch (err) {
+      console.error("Failed to load prompt templates:", err);
+    }
+  };
+
+  const fetchBrands = async () => {
+    try {
+      setBrands(await BrandService.loadBrands());
+    } catch (err) {
+      console.error("Failed to load brands:", err);
+    }
+  };
+
+  const fetchScheduledPosts = async () => {
+    try {
+      setScheduledPosts(await CalendarService.loadScheduledPosts());
+    } catch (err) {
+      console.error("Failed to load calendar:", err);
+    }
+  };
+
+  const fetchCampaigns = async () => {
+    try {
+      setRecentCampaigns(await CampaignService.fetchRecentCampaigns());
+    } catch (err) {
+      console.error("Failed to load campaigns:", err);
+    }
+  };
+
+  // --- CAMPAIGN PERSISTENCE ---
+  // Every finished operation ends with loading=false (blocking steps) or the job queue
+  // draining (generation, edits, captions), so saving on those edges captures each
+  // transition without saving on every keystroke.
+  useEffect(() => {
+    if (loading || hasActiveJobs || !state.campaignId) return;
+    if (state.step === 'dashboard' || state.step === 'selection') return;
+    if (Object.keys(state.generatedIdeas).length === 0) return;
+    persistCampaign(state);
+  }, [state.step, loading, hasActiveJobs]);
+
+  const persistCampaign = async (snapshot: WorkflowState) => {
+    try {
+      // While offline the images stay as data URIs and are uploaded when the sync queue replays the save
+      const uploaded = navigator.onLine
+        ? await CampaignService.uploadGeneratedImages(
+          snapshot.workspaceId || WorkspaceService.requireActiveWorkspace().id, snapshot.campaignId!, snapshot.generatedImages
+        )
+        : {};
+      const generatedImages = CampaignService.applyUploadedUrls(snapshot.generatedImages, uploaded);
+
+      await CampaignService.saveCampaign({ ...snapshot, generatedImages });
+      if (Object.keys(uploaded).length > 0) {
+        setState(s => ({ ...s, generatedImages: CampaignService.applyUploadedUrls(s.generatedImages, uploaded) }));
       }
-      setDbConnected(true);
+      fetchCampaigns();
+    } catch (err) {
+      console.error("Failed to save campaign:", err);
+    }
+  };
+
+  const handleResumeCampaign = async (id: string) => {
+    setLoading(true);
+    setLoadingMsg("Restoring campaign...");
+    try {
+      const restored = await CampaignService.loadCampaign(id);
+      // Jobs belong to the campaign that started them
+      JobService.cancelAllJobs();
+      JobService.clearFinishedJobs();
+      setState(restored);
+    } catch (err) {
+      console.error("Failed to restore campaign:", err);
+      alert("Could not open this campaign.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteCampaign = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    if (!window.confirm('Delete this campaign?')) return;
+
+    setRecentCampaigns(prev => prev.filter(c => c.id !== id));
+    try {
+      await CampaignService.deleteCampaign(id);
     } catch (err) {
-      console.error("Supabase connection error:", err);
-      setPersonas(SEED_PERSONAS);
-      setDbConnected(false);
+      console.error("Failed to delete campaign:", err);
     }
   };
 
@@ -177,16 +495,10 @@ const App: React.FC = () => {
         selectedPersonaIds: s.selectedPersonaIds.filter(pid => pid !== id)
       }));
 
-      if (dbConnected) {
-        try {
-          const { error } = await supabase.from('personas').delete().eq('id', id);
-          if (error) {
-             console.error("Supabase delete error", error);
-             alert("Could not delete from database, but removed locally.");
-          }
-        } catch (err) {
-           console.error("Delete exception", err);
-        }
+      try {
+        await PersonaService.deletePersona(id);
+      } catch (err) {
+        console.error("Delete exception", err);
       }
     }
   };
@@ -202,25 +514,63 @@ const App: React.FC = () => {
       return;
     }
 
+    if (!checkBudget()) return;
     setEnhancing(true);
     try {
-      const result = await GeminiService.enhancePersonaProfile(editingPersona);
-      setEditingPersona(prev => prev ? ({ ...prev, ...result }) : null);
+      const template = getPromptTemplate('casting-director');
+      const result = await aiProvider.enhancePersonaProfile(editingPersona, template);
+      setEditingPersona(prev => prev ? ({
+        ...prev,
+        ...result,
+        style: mergePersonaStyle(prev.style, result.style),
+        profileTemplate: toPromptTemplateRef(template),
+      }) : null);
     } catch (e) {
       console.error("Enhancement failed", e);
-      alert("Failed to enhance persona. Please try again.");
+      alert(AIErrors.getErrorMessage(e, "Failed to enhance persona. Please try again."));
     } finally {
       setEnhancing(false);
     }
   };
 
+  const handleLearnVoice = async () => {
+    if (!editingPersona) return;
+    const samples = editingPersona.voiceSamples || [];
+    if (samples.length < MIN_VOICE_SAMPLES) {
+      alert(`Add at least ${MIN_VOICE_SAMPLES} sample captions, separated by a blank line.`);
+      return;
+    }
+    if (!checkBudget()) return;
+
+    setLearningVoice(true);
+    try {
+      const voiceProfile = await aiProvider.analyzePersonaVoice(editingPersona, samples, getPromptTemplate('voice-analyst'));
+      // Samples edited while learning make this profile stale before it lands
+      setEditingPersona(prev => prev && prev.voiceSamples === samples ? { ...prev, voiceProfile } : prev);
+    } catch (e) {
+      console.error(e);
+      alert(AIErrors.getErrorMessage(e, "Failed to learn the voice. Please try again."));
+    } finally {
+      setLearningVoice(false);
+    }
+  };
+
+  // Credentials go to the server right away, independent of saving the rest of the persona
+  const handleConnectAccount = async (platform: PublishPlatform, account: PublishAccount | null) => {
+    if (!editingPersona?.id) return;
+    const personaId = editingPersona.id;
+    const connected = await PublishService.connectAccount(personaId, platform, account);
+    setConnectedAccounts(prev => ({ ...prev, [personaId]: connected }));
+  };
+
   const handleSavePersona = async () => {
     if (!editingPersona || !editingPersona.name) return;
 
     const isNew = !editingPersona.id;
     const personaToSave = {
       ...editingPersona,
-      id: editingPersona.id || `p-${Date.now()}` // Client-side ID generation
+      id: editingPersona.id || `p-${Date.now()}`, // Client-side ID generation
+      hashtagGroups: editingPersona.hashtagGroups?.filter(g => g.hashtags.length > 0)
     };
 
     setPersonas(prev => {
@@ -234,22 +584,12 @@ const App: React.FC = () => {
     setIsEditorOpen(false);
     setEditingPersona(null);
 
-    if (dbConnected) {
-      try {
-        const payload = mapPersonaToDb(personaToSave);
-        
-        const { error } = await supabase
-          .from('personas')
-          .upsert(payload);
-        
-        if (error) {
-          console.error("Supabase Error saving persona:", error);
-          alert(`Failed to save to database: ${error.message}`);
-        }
-      } catch (e: any) {
-        console.error("Exception saving persona:", e);
-        alert(`Error saving: ${e.message || e}`);
-      }
+    try {
+      const saved = await PersonaService.savePersona(personaToSave);
+      setPersonas(prev => prev.map(p => p.id === saved.id ? saved : p));
+    } catch (e: any) {
+      console.error("Exception saving persona:", e);
+      alert(`Error saving: ${e.message || e}`);
     }
   };
 
@@ -263,7 +603,7 @@ const App: React.FC = () => {
         
         // Upload to bucket
         const fileName = `avatar-${Date.now()}-${Math.random().toString(36).substring(7)}.jpg`;
-        const publicUrl = await uploadImage(blob, fileName);
+        const publicUrl = await uploadImage(blob, editingPersona.workspaceId || WorkspaceService.requireActiveWorkspace().id, fileName);
 
         setEditingPersona({ ...editingPersona, avatarUrl: publicUrl });
       } catch (err) {
@@ -287,7 +627,7 @@ const App: React.FC = () => {
         const blob = await compressImageToBlob(file);
         
         const fileName = `ref-${Date.now()}-${Math.random().toString(36).substring(7)}.jpg`;
-        const publicUrl = await uploadImage(blob, fileName);
+        const publicUrl = await uploadImage(blob, editingPersona.workspaceId || WorkspaceService.requireActiveWorkspace().id, fileName);
         
         setEditingPersona({ 
           ...editingPersona, 
@@ -310,10 +650,107 @@ const App: React.FC = () => {
     }
   };
 
+  // --- BRAND MANAGEMENT HANDLERS ---
+
+  const handleSaveBrand = async (brand: Brand) => {
+    const brandToSave = { ...brand, id: brand.id || `b-${Date.now()}` };
+    setBrands(prev => {
+      const others = prev.filter(b => b.id !== brandToSave.id);
+      return [...others, brandToSave].sort((a, b) => a.name.localeCompare(b.name));
+    });
+    setEditingBrand(null);
+
+    try {
+      const saved = await BrandService.saveBrand(brandToSave);
+      setBrands(prev => prev.map(b => b.id === saved.id ? saved : b));
+    } catch (e: any) {
+      console.error("Exception saving brand:", e);
+      alert(`Error saving: ${e.message || e}`);
+    }
+  };
+
+  const handleDeleteBrand = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    if (!window.confirm('Delete this brand? Campaigns made for it keep their content.')) return;
+
+    setBrands(prev => prev.filter(b => b.id !== id));
+    setState(s => (s.brandId === id ? { ...s, brandId: null } : s));
+    try {
+      await BrandService.deleteBrand(id);
+    } catch (err) {
+      console.error("Failed to delete brand:", err);
+    }
+  };
+
+  // --- PROMPT TEMPLATES ---
+
+  // Template version the workspace uses for `key`: pinned, else the newest, else the built-in one
+  const getPromptTemplate = (key: PromptTemplateKey) => resolvePromptTemplate(key, promptTemplates, promptPins);
+
+  // Appends a generated artifact to the workspace's audit log; a failure to log never blocks the workflow
+  const recordAudit = (action: AuditAction, artifactId: string, summary: string, personaId: string | undefined, provenance?: Provenance) => {
+    if (!provenance) return;
+    AuditService.recordAudit({ action, artifactId, summary, campaignId: state.campaignId, personaId, provenance, userEmail: provenance.userEmail })
+      .catch(err => console.error("Failed to record audit entry", err));
+  };
+
+  // --- USAGE & BUDGET ---
+
+  const getMonthSpend = () => UsageService.sumUsage(monthUsage).cost;
+
+  // Whether an AI run estimated at `estimate` fits the workspace's monthly budget; explains why not when it doesn't
+  const checkBudget = (estimate: number = 0): boolean => {
+    if (!workspaceBudget) return true;
+    const spent = getMonthSpend();
+    if (spent >= workspaceBudget) {
+      alert(`This workspace has used its monthly AI budget (${formatCost(spent)} of ${formatCost(workspaceBudget)}). ${isWorkspaceOwner ? 'Raise the budget in Usage' : 'Ask a workspace owner to raise it'} to keep generating.`);
+      return false;
+    }
+    if (spent + estimate > workspaceBudget) {
+      alert(`This run is estimated at ${formatCost(estimate)}, but only ${formatCost(workspaceBudget - spent)} of this month's ${formatCost(workspaceBudget)} budget is left. Select fewer posts, formats or images, or lower the resolution.`);
+      return false;
+    }
+    return true;
+  };
+
+  const handleSetBudget = (amount: number | null) => WorkspaceService.setMonthlyBudget(amount);
+
+  const handleSavePromptVersion = async (key: PromptTemplateKey, body: string, note: string) => {
+    const saved = await PromptTemplateService.savePromptTemplateVersion(key, body, note, promptTemplates);
+    setPromptTemplates(prev => [...prev, saved]);
+    return saved;
+  };
+
+  const handlePinPromptTemplate = async (key: PromptTemplateKey, version: number | null) => {
+    const pin = await PromptTemplateService.pinPromptTemplate(key, version);
+    setPromptPins(prev => [...prev.filter(p => p.key !== key), ...(pin ? [pin] : [])]);
+  };
+
+  // Brand the current campaign is made for (null when it has none or the brand was deleted)
+  const getCampaignBrand = (): Brand | null => brands.find(b => b.id === state.brandId) || null;
+
+  // Product every idea is built around in product placement mode
+  const getFeaturedProduct = (): Product | null =>
+    getCampaignBrand()?.products.find(p => p.id === state.featuredProductId) || null;
+
   // --- WORKFLOW ACTIONS ---
 
-  const handleStartCreating = () => {
-    setState(s => ({ ...s, step: 'selection' }));
+  // Every new campaign starts from scratch with its own id, so a resumed campaign is never overwritten
+  const startNewCampaign = (changes: Partial<WorkflowState> = {}) => {
+    setState({
+      ...INITIAL_STATE,
+      step: 'selection',
+      campaignId: `c-${Date.now()}`,
+      workspaceId: activeWorkspaceId || undefined,
+      ...changes
+    });
+  };
+
+  const handleStartCreating = () => startNewCampaign();
+
+  // "Feature" in the product library: a new campaign in product placement mode
+  const handleFeatureProduct = (brand: Brand, product: Product) => {
+    startNewCampaign({ brandId: brand.id, featuredProductId: product.id });
   };
 
   const togglePersonaSelection = (id: string) => {
@@ -331,6 +768,7 @@ const App: React.FC = () => {
   };
 
   const generateIdeas = async (mode: 'manual' | 'auto') => {
+    if (!checkBudget()) return;
     setLoading(true);
     setLoadingMsg(mode === 'manual' ? 'Concepting variants...' : 'Scanning trends...');
     setError(null);
@@ -339,77 +777,138 @@ const App: React.FC = () => {
       
       for (const pid of state.selectedPersonaIds) {
         const persona = personas.find(p => p.id === pid)!;
-        if (mode === 'manual') {
-          ideasMap[pid] = await GeminiService.generateManualVariants(persona, state.manualActivityInput);
-        } else {
-          ideasMap[pid] = await GeminiService.generateAutoTrends(persona);
-        }
+        ideasMap[pid] = await generateIdeasFor(persona, mode);
       }
       
       setState(s => ({ ...s, generatedIdeas: ideasMap, mode, step: 'ideation' }));
     } catch (err: any) {
-      setError("Failed to generate ideas. Ensure API Key is set.");
+      setError(AIErrors.getErrorMessage(err, "Failed to generate ideas."));
       console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
+  // Ideas for one persona, stamped with the user who asked for them and added to the audit log
+  const generateIdeasFor = async (persona: Persona, mode: 'manual' | 'auto', feedback?: string): Promise<GeneratedIdea[]> => {
+    const template = getPromptTemplate(mode === 'manual' ? 'creative-director' : 'trend-scout');
+    const ideas = mode === 'manual'
+      ? await aiProvider.generateManualVariants(persona, state.manualActivityInput, feedback, getCampaignBrand(), getFeaturedProduct(), template)
+      : await aiProvider.generateAutoTrends(persona, getCampaignBrand(), getFeaturedProduct(), template);
+    const stamped = ideas.map(idea => stampActor(idea, user));
+    stamped.forEach(idea => recordAudit('idea.generated', idea.id, idea.title, persona.id, idea.provenance));
+    return stamped;
+  };
+
   const regenerateIdea = async (pid: string) => {
     const persona = personas.find(p => p.id === pid)!;
+    if (!checkBudget()) return;
     setLoading(true);
     try {
-      let newIdeas: GeneratedIdea[] = [];
-      if (state.mode === 'manual') {
-        newIdeas = await GeminiService.generateManualVariants(persona, state.manualActivityInput, "Try different angles or locations.");
-      } else {
-        newIdeas = await GeminiService.generateAutoTrends(persona); 
-      }
+      const newIdeas = await generateIdeasFor(persona, state.mode === 'manual' ? 'manual' : 'auto', "Try different angles or locations.");
       setState(s => ({
         ...s,
-        generatedIdeas: { ...s.generatedIdeas, [pid]: newIdeas }
+        generatedIdeas: { ...s.generatedIdeas, [pid]: newIdeas },
+        selectedIdeaIds: { ...s.selectedIdeaIds, [pid]: [] }
       }));
+    } catch (err) {
+      setError(AIErrors.getErrorMessage(err, "Failed to regenerate ideas."));
+      console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const selectIdea = (personaId: string, ideaId: string) => {
-    setState(s => ({
-      ...s,
-      selectedIdeaIds: { ...s.selectedIdeaIds, [personaId]: ideaId }
-    }));
+  const toggleIdea = (personaId: string, ideaId: string) => {
+    setState(s => {
+      const current = s.selectedIdeaIds[personaId] || [];
+      const selected = current.includes(ideaId)
+        ? current.filter(id => id !== ideaId)
+        : [...current, ideaId];
+      return { ...s, selectedIdeaIds: { ...s.selectedIdeaIds, [personaId]: selected } };
+    });
+  };
+
+  const getSelectedIdeas = (pid: string): GeneratedIdea[] => {
+    const ideas = state.generatedIdeas[pid] || [];
+    return (state.selectedIdeaIds[pid] || [])
+      .map(id => ideas.find(i => i.id === id))
+      .filter((idea): idea is GeneratedIdea => !!idea);
+  };
+
+  // Every selected (persona, idea) pair, in persona order: one post in the batch
+  const getSelectedPosts = (): { persona: Persona; idea: GeneratedIdea }[] => {
+    const posts: { persona: Persona; idea: GeneratedIdea }[] = [];
+    for (const pid of state.selectedPersonaIds) {
+      const persona = personas.find(p => p.id === pid);
+      if (!persona) continue;
+      for (const idea of getSelectedIdeas(pid)) {
+        posts.push({ persona, idea });
+      }
+    }
+    return posts;
   };
 
   const proceedToRefinement = async () => {
+    if (!checkBudget()) return;
     setLoading(true);
     setLoadingMsg("Analyzing scene requirements...");
     setError(null);
     
     try {
       const refinementMap: Record<string, RefinementRequirement[]> = {};
+      const slidePlans: Record<string, CarouselSlide[]> = {};
+      const posts = getSelectedPosts();
       
-      for (const pid of state.selectedPersonaIds) {
-        const ideaId = state.selectedIdeaIds[pid];
-        if (!ideaId) continue;
-        
-        const ideas = state.generatedIdeas[pid];
-        const selectedIdea = ideas.find(i => i.id === ideaId);
-        const persona = personas.find(p => p.id === pid)!;
-
-        if (selectedIdea) {
-          refinementMap[selectedIdea.id] = await GeminiService.analyzeIdeaRequirements(selectedIdea, persona);
+      for (const [index, { persona, idea }] of posts.entries()) {
+        setProgress({ done: index, total: posts.length });
+        const template = getPromptTemplate('requirement-analyzer');
+        const requirements = (await aiProvider.analyzeIdeaRequirements(idea, persona, template)).map(req => stampActor(req, user));
+        requirements.forEach(req => recordAudit('requirement.generated', req.id, `${idea.title}: ${req.question}`, persona.id, req.provenance));
+        refinementMap[idea.id] = requirements;
+        if (state.postType === 'carousel' && !idea.slides?.length) {
+          slidePlans[idea.id] = await aiProvider.planCarouselSlides(idea, persona, CAROUSEL_SLIDE_COUNT);
         }
       }
 
-      setState(s => ({ ...s, refinementData: refinementMap, step: 'refinement' }));
+      setState(s => ({
+        ...s,
+        refinementData: refinementMap,
+        generatedIdeas: withSlidePlans(s.generatedIdeas, slidePlans),
+        step: 'refinement'
+      }));
     } catch (err) {
-      setError("Analysis failed.");
+      setError(AIErrors.getErrorMessage(err, "Analysis failed."));
+      console.error(err);
     } finally {
+      setProgress(null);
       setLoading(false);
     }
   };
 
+  const withSlidePlans = (
+    ideasByPersona: Record<string, GeneratedIdea[]>,
+    plans: Record<string, CarouselSlide[]>
+  ): Record<string, GeneratedIdea[]> => {
+    const next: Record<string, GeneratedIdea[]> = {};
+    for (const [pid, ideas] of Object.entries(ideasByPersona)) {
+      next[pid] = ideas.map(idea => plans[idea.id] ? { ...idea, slides: plans[idea.id] } : idea);
+    }
+    return next;
+  };
+
+  const handleSlideInput = (pid: string, ideaId: string, slideId: string, field: 'title' | 'shot', val: string) => {
+    setState(s => ({
+      ...s,
+      generatedIdeas: {
+        ...s.generatedIdeas,
+        [pid]: s.generatedIdeas[pid].map(idea => idea.id === ideaId
+          ? { ...idea, slides: idea.slides?.map(slide => slide.id === slideId ? { ...slide, [field]: val } : slide) }
+          : idea)
+      }
+    }));
+  };
+
   const handleRefinementInput = (ideaId: string, reqId: string, val: string) => {
     setState(s => ({
       ...s,
@@ -443,88 +942,626 @@ const App: React.FC = () => {
     }
   };
 
-  const proceedToGeneration = async () => {
+  // Per-idea format selection falls back to the campaign-wide one
+  const getIdeaFormats = (ideaId: string): string[] => state.ideaFormats[ideaId] || state.targetFormats;
+
+  const toggleCampaignFormat = (formatId: string) => {
+    setState(s => {
+      const formats = s.targetFormats.includes(formatId)
+        ? s.targetFormats.filter(f => f !== formatId)
+        : [...s.targetFormats, formatId];
+      return formats.length > 0 ? { ...s, targetFormats: formats } : s;
+    });
+  };
+
+  const toggleIdeaFormat = (ideaId: string, formatId: string) => {
+    setState(s => {
+      const current = s.ideaFormats[ideaId] || s.targetFormats;
+      const formats = current.includes(formatId)
+        ? current.filter(f => f !== formatId)
+        : [...current, formatId];
+      return formats.length > 0 ? { ...s, ideaFormats: { ...s.ideaFormats, [ideaId]: formats } } : s;
+    });
+  };
+
+  const appendImages = (ideaId: string, images: GeneratedImage[]) => {
+    setState(s => ({
+      ...s,
+      generatedImages: { ...s.generatedImages, [ideaId]: [...(s.generatedImages[ideaId] || []), ...images] }
+    }));
+  };
+
+  // Pre-flight estimate of a generation run: every image to render and its identity check, without retries
+  const estimateGeneration = (): { images: number; cost: number } => {
+    const brand = getCampaignBrand();
+    return getSelectedPosts().reduce((total, { persona, idea }) => {
+      const perFormat = state.postType === 'carousel' && idea.slides?.length ? idea.slides.length : genCount;
+      const images = getIdeaFormats(idea.id).length * perFormat;
+      const personaReferences = persona.refImages?.length || 0;
+      const references = personaReferences
+        + (state.refinementData[idea.id] || []).filter(req => req.referenceImage).length
+        + countProductReferences(brand, idea.productId);
+      const identityReferences = personaReferences + (persona.avatarUrl ? 1 : 0);
+      return {
+        images: total.images + images,
+        cost: total.cost + estimateImageCost(aiProvider.models, images, genQuality, references, identityReferences),
+      };
+    }, { images: 0, cost: 0 });
+  };
+
+  /**
+   * Queues one job per image (or per carousel sequence and format) and opens the editor right away;
+   * images appear on their cards as their jobs finish.
+   */
+  const proceedToGeneration = () => {
+    const selected = getSelectedPosts();
+    const brand = getCampaignBrand();
+    if (!checkBudget(estimateGeneration().cost)) return;
+
+    // A new run replaces whatever the previous one produced
+    JobService.cancelAllJobs();
+    JobService.clearFinishedJobs();
+    setState(s => ({
+      ...s,
+      generatedImages: Object.fromEntries(selected.map(({ idea }) => [idea.id, []])),
+      captions: {},
+      step: 'editing'
+    }));
+
+    for (const { persona, idea } of selected) {
+      const reqs = state.refinementData[idea.id] || [];
+      const formats = getIdeaFormats(idea.id).map(getFormat);
+
+      for (const format of formats) {
+        if (state.postType === 'carousel' && idea.slides?.length) {
+          JobService.enqueueJob(
+            { kind: 'generation', label: `${persona.name} · ${format.label} carousel`, ideaId: idea.id },
+            async ({ signal, setProgress }) => {
+              const slides = await aiProvider.generateCarouselImages(
+                persona, idea, reqs, brand, genQuality, format, signal,
+                (done, total) => setProgress((done / total) * 0.8)
+              );
+              const checked: GeneratedImage[] = [];
+              for (const img of slides.map(slide => ImageVersions.withVersionHistory(stampActor(slide, user)))) {
+                recordAudit('image.generated', img.id, `${idea.title} · ${format.label}`, persona.id, img.provenance);
+                checked.push(await ensureIdentity(persona, idea, reqs, img, autoRegenerate, signal));
+              }
+              if (signal.aborted) return;
+              appendImages(idea.id, checked);
+            }
+          );
+          continue;
+        }
+
+        for (let i = 0; i < genCount; i++) {
+          JobService.enqueueJob(
+            { kind: 'generation', label: `${persona.name} · ${format.label} #${i + 1}`, ideaId: idea.id },
+            async ({ signal, setProgress }) => {
+              const img = stampActor(await aiProvider.generateUGCImage(persona, idea, reqs, brand, genQuality, format, signal), user);
+              recordAudit('image.generated', img.id, `${idea.title} · ${format.label}`, persona.id, img.provenance);
+              setProgress(0.7);
+              const checked = await ensureIdentity(persona, idea, reqs, ImageVersions.withVersionHistory(img), autoRegenerate, signal);
+              if (signal.aborted) return;
+              appendImages(idea.id, [checked]);
+            }
+          );
+        }
+      }
+    }
+  };
+
+  /**
+   * Scores the current version against the persona's references and, when allowed,
+   * regenerates it (as a new version) while it stays below the threshold.
+   * Never throws: scores and versions made before a failure are kept in `image`, the failure is in `error`,
+   * and `scored` is false when the persona has no reference photos to compare against.
+   */
+  const checkIdentity = async (
+    persona: Persona,
+    idea: GeneratedIdea,
+    reqs: RefinementRequirement[],
+    img: GeneratedImage,
+    regenerate: boolean,
+    signal?: AbortSignal
+  ): Promise<{ image: GeneratedImage; scored: boolean; error?: unknown }> => {
+    let current = img;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const identity = await aiProvider.scoreIdentityConsistency(persona, current, signal);
+        if (!identity) return { image: current, scored: attempt > 0 };
+
+        current = ImageVersions.setCurrentIdentity(current, identity);
+        if (!regenerate || identity.score >= identityThreshold || attempt >= MAX_IDENTITY_RETRIES) return { image: current, scored: true };
+
+        const parentVersionId = ImageVersions.getCurrentVersion(current).id;
+        const regenerated = await aiProvider.regenerateImage(persona, idea, reqs, getCampaignBrand(), current, genQuality, signal);
+        const instruction = `Regenerated (identity ${identity.score}/100)`;
+        const provenance = withActor(regenerated.provenance, user);
+        current = ImageVersions.addEditVersion(current, parentVersionId, instruction, regenerated.imageUrl, provenance);
+        recordAudit('image.regenerated', current.id, `${idea.title}: ${instruction}`, persona.id, provenance);
+      }
+    } catch (err) {
+      return { image: current, scored: true, error: err };
+    }
+  };
+
+  // After generation the check is best effort: an image that could not be checked is still delivered
+  const ensureIdentity = async (
+    persona: Persona,
+    idea: GeneratedIdea,
+    reqs: RefinementRequirement[],
+    img: GeneratedImage,
+    regenerate: boolean,
+    signal?: AbortSignal
+  ): Promise<GeneratedImage> => {
+    const { image, error } = await checkIdentity(persona, idea, reqs, img, regenerate, signal);
+    if (error) console.error("Identity check failed", img.id, error);
+    return image;
+  };
+
+  const handleCheckIdentity = async (pid: string, ideaId: string, imageId: string, regenerate: boolean) => {
+    const persona = personas.find(p => p.id === pid)!;
+    const idea = state.generatedIdeas[pid].find(i => i.id === ideaId)!;
+    const img = state.generatedImages[ideaId].find(i => i.id === imageId)!;
+    if (!checkBudget()) return;
+
     setLoading(true);
-    setLoadingMsg(`Generating high-fidelity visuals...`);
-    setState(s => ({ ...s, step: 'generation' }));
-    
+    setLoadingMsg(regenerate ? "Regenerating for a closer match..." : "Checking persona consistency...");
     try {
-      const imagesMap: Record<string, GeneratedImage[]> = {};
-      
-      for (const pid of state.selectedPersonaIds) {
-        const ideaId = state.selectedIdeaIds[pid];
-        if (!ideaId) continue;
+      const { image, scored, error } = await checkIdentity(persona, idea, state.refinementData[ideaId] || [], img, regenerate);
+      updateImage(ideaId, imageId, () => image);
+      if (error) {
+        console.error("Identity check failed", imageId, error);
+        alert(AIErrors.getErrorMessage(error, "Could not check persona consistency. Please try again."));
+      } else if (!scored) {
+        alert(`${persona.name} has no avatar or reference photos to compare against. Add them in the persona editor first.`);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
 
-        const ideas = state.generatedIdeas[pid];
-        const selectedIdea = ideas.find(i => i.id === ideaId)!;
-        const persona = personas.find(p => p.id === pid)!;
-        const reqs = state.refinementData[ideaId] || [];
+  const handleEditImage = (ideaId: string, imageId: string) => {
+    const input = editInputs[imageId];
+    if (!input || !checkBudget()) return;
+
+    const imageToEdit = state.generatedImages[ideaId].find(img => img.id === imageId)!;
+    // The edit becomes a child of whichever version is showing, so older versions are never overwritten
+    const parentVersionId = ImageVersions.getCurrentVersion(imageToEdit).id;
+    const reference = editReferences[imageId];
+    const mask = editMasks[imageId];
+    const personaId = getSelectedPosts().find(({ idea }) => idea.id === ideaId)?.persona.id;
+
+    JobService.enqueueJob({ kind: 'edit', label: input, ideaId, imageId }, async ({ signal }) => {
+      const newImage = await aiProvider.editImageWithChat(imageToEdit, input, reference, mask, signal);
+      if (signal.aborted) return;
+      const provenance = withActor(newImage.provenance, user);
+      updateImage(ideaId, imageId, img => ImageVersions.addEditVersion(img, parentVersionId, input, newImage.imageUrl, provenance));
+      recordAudit('image.edited', imageId, input, personaId, provenance);
+    });
 
-        imagesMap[ideaId] = await GeminiService.generateUGCImages(persona, selectedIdea, reqs, genCount, genQuality);
+    setEditInputs(prev => ({ ...prev, [imageId]: '' }));
+    clearEditAttachment(setEditReferences, imageId);
+    clearEditAttachment(setEditMasks, imageId);
+  };
+
+  const handleEditReference = async (imageId: string, file: File) => {
+    try {
+      const base64Full = await fileToBase64(file);
+      setEditReferences(prev => ({ ...prev, [imageId]: base64Full.split(',')[1] }));
+    } catch (e) {
+      alert("Could not process reference image");
+    }
+  };
+
+  const clearEditAttachment = (
+    setter: React.Dispatch<React.SetStateAction<Record<string, string>>>,
+    imageId: string
+  ) => {
+    setter(prev => {
+      const next = { ...prev };
+      delete next[imageId];
+      return next;
+    });
+  };
+
+  const updateImage = (ideaId: string, imageId: string, update: (img: GeneratedImage) => GeneratedImage) => {
+    setState(s => ({
+      ...s,
+      generatedImages: {
+        ...s.generatedImages,
+        [ideaId]: s.generatedImages[ideaId].map(img => img.id === imageId ? update(img) : img)
+      }
+    }));
+  };
+
+  // Moves a carousel slide one position within its format group
+  const moveSlide = (ideaId: string, imageId: string, direction: -1 | 1) => {
+    setState(s => {
+      const images = [...s.generatedImages[ideaId]];
+      const index = images.findIndex(img => img.id === imageId);
+      const formatId = getFormat(images[index].formatId).id;
+
+      let target = index + direction;
+      while (target >= 0 && target < images.length && getFormat(images[target].formatId).id !== formatId) {
+        target += direction;
       }
+      if (target < 0 || target >= images.length) return s;
+
+      [images[index], images[target]] = [images[target], images[index]];
+      return { ...s, generatedImages: { ...s.generatedImages, [ideaId]: images } };
+    });
+  };
+
+  // Platforms the idea's images are rendered for; its caption has to fit all of them
+  const getPostPlatforms = (ideaId: string): string[] => {
+    const images = state.generatedImages[ideaId] || [];
+    const formatIds = images.length > 0 ? images.map(img => img.formatId) : (state.ideaFormats[ideaId] || state.targetFormats);
+    return [...new Set(formatIds.map(id => getFormat(id).platform))];
+  };
+
+  // A post of this campaign for the weekly hashtag checks; it counts towards the week it is scheduled in
+  const getHashtagUse = (personaId: string, ideaId: string, hashtags: string[]): HashtagUse => {
+    const id = state.campaignId ? CalendarService.getScheduledPostId(state.campaignId, ideaId) : ideaId;
+    return { id, personaId, hashtags, scheduledAt: scheduledPosts.find(p => p.id === id)?.scheduledAt };
+  };
+
+  // This campaign's captions plus the calendar posts of other campaigns
+  const getHashtagUses = (captions: Record<string, CaptionData>): HashtagUse[] => [
+    ...scheduledPosts.filter(p => p.campaignId !== state.campaignId),
+    ...getSelectedPosts()
+      .filter(({ idea }) => captions[idea.id])
+      .map(({ persona, idea }) => getHashtagUse(persona.id, idea.id, captions[idea.id].hashtags)),
+  ];
+
+  const proceedToCaptions = () => {
+    if (!checkBudget()) return;
+    JobService.cancelAllJobs(job => job.kind === 'caption');
+    JobService.clearFinishedJobs(job => job.kind === 'caption');
+    setState(s => ({ ...s, captions: {}, step: 'captions' }));
+    const brand = getCampaignBrand();
+    const template = getPromptTemplate('caption-writer');
+
+    for (const { persona, idea } of getSelectedPosts()) {
+      // The caption follows the slide order chosen in the editor
+      const slides = getOrderedSlides(idea, state.generatedImages[idea.id] || []);
+      const platforms = getPostPlatforms(idea.id);
+      const avoidHashtags = getWeekHashtags(getHashtagUse(persona.id, idea.id, []), getHashtagUses({}));
+
+      JobService.enqueueJob({ kind: 'caption', label: `Caption · ${idea.title}`, ideaId: idea.id }, async ({ signal }) => {
+        const generated = (await aiProvider.generateCaptionStrategy(
+          persona, { ...idea, slides }, brand, state.captionOptions, platforms, avoidHashtags, template, signal
+        )).map(variant => stampActor(variant, user));
+        if (signal.aborted) return;
+        recordAudit('caption.generated', idea.id, `${idea.title} · ${generated.length} variant(s)`, persona.id, generated[0]?.provenance);
+        setState(s => {
+          // Captions of this campaign are generated in parallel and can't avoid each other up front
+          const uses = getHashtagUses(s.captions);
+          const variants = generated.map(variant => {
+            const branded = applyBrandRules(variant, brand);
+            const repeated = findRepeatedHashtags(getHashtagUse(persona.id, idea.id, branded.hashtags), uses, brand?.requiredHashtags);
+            return { ...branded, hashtags: branded.hashtags.filter(tag => !repeated.has(tag)) };
+          });
+          const caption = { ...variants[0], variants, selectedVariant: 0 };
+          return { ...s, captions: { ...s.captions, [idea.id]: caption } };
+        });
+      });
+    }
+  };
+
+  const handleRegenerateCaptions = () => {
+    if (Object.keys(state.captions).length > 0 && !window.confirm('Replace the current captions, including your edits?')) return;
+    proceedToCaptions();
+  };
+
+  const updateCaptionOptions = (changes: Partial<CaptionOptions>) => {
+    setState(s => ({ ...s, captionOptions: { ...s.captionOptions, ...changes } }));
+  };
+
+  const handleSelectCaptionVariant = (ideaId: string, index: number) => {
+    const current = state.captions[ideaId];
+    const variant = current?.variants?.[index];
+    if (!variant) return;
+
+    const previous = current.variants![current.selectedVariant ?? 0];
+    const edited = !previous || previous.caption !== current.caption || previous.hashtags.join() !== current.hashtags.join();
+    if (edited && !window.confirm('Switch variants and discard your edits to this caption?')) return;
+
+    setState(s => ({ ...s, captions: { ...s.captions, [ideaId]: { ...s.captions[ideaId], ...variant, selectedVariant: index } } }));
+  };
+
+  const handleEditCaption = (ideaId: string, changes: { caption?: string; hashtags?: string[] }) => {
+    // Required brand hashtags stay in, banned ones stay out, whatever is typed
+    const brand = getCampaignBrand();
+    setState(s => {
+      const edited = { ...s.captions[ideaId], ...changes };
+      return { ...s, captions: { ...s.captions, [ideaId]: changes.hashtags ? applyBrandRules(edited, brand) : edited } };
+    });
+  };
+
+  // --- CONTENT CALENDAR ---
+
+  // Saves the finished posts (all selected, or just `ideaIds`) as calendar entries. Entries that already exist
+  // keep their date and publish history and pick up the latest images and caption.
+  const saveFinishedPosts = async (ideaIds?: string[]): Promise<ScheduledPost[]> => {
+    const campaignId = state.campaignId;
+    if (!campaignId) return [];
+
+    // Calendar entries should point at stored images, not inline data URIs
+    const uploaded = navigator.onLine
+      ? await CampaignService.uploadGeneratedImages(state.workspaceId || WorkspaceService.requireActiveWorkspace().id, campaignId, state.generatedImages)
+      : {};
+    const generatedImages = CampaignService.applyUploadedUrls(state.generatedImages, uploaded);
+    if (Object.keys(uploaded).length > 0) {
+      setState(s => ({ ...s, generatedImages: CampaignService.applyUploadedUrls(s.generatedImages, uploaded) }));
+    }
+
+    const saved: ScheduledPost[] = [];
+    for (const { persona, idea } of getSelectedPosts()) {
+      if (ideaIds && !ideaIds.includes(idea.id)) continue;
+      const caption = state.captions[idea.id];
+      // Carousels post every slide of the first format, single posts the first image
+      const group = groupImagesByFormat(generatedImages[idea.id] || [])[0];
+      if (!caption || !group) continue;
+
+      const id = CalendarService.getScheduledPostId(campaignId, idea.id);
+      const existing = scheduledPosts.find(p => p.id === id);
+      saved.push(await CalendarService.saveScheduledPost({
+        id,
+        campaignId,
+        ideaId: idea.id,
+        personaId: persona.id,
+        title: idea.title,
+        imageUrls: state.postType === 'carousel' ? group.images.map(img => img.imageUrl) : [group.images[0].imageUrl],
+        caption: caption.caption,
+        hashtags: caption.hashtags,
+        formatId: group.format.id,
+        scheduledAt: existing?.scheduledAt ?? null,
+        publications: existing?.publications,
+        workspaceId: existing?.workspaceId
+      }));
+    }
+
+    const savedIds = new Set(saved.map(p => p.id));
+    setScheduledPosts(prev => CalendarService.sortScheduledPosts([...prev.filter(p => !savedIds.has(p.id)), ...saved]));
+    return saved;
+  };
+
+  const handleAddToCalendar = async () => {
+    setLoading(true);
+    setLoadingMsg("Adding posts to the calendar...");
+    try {
+      await saveFinishedPosts();
+      setShowCalendar(true);
+    } catch (err) {
+      console.error("Failed to add posts to the calendar:", err);
+      alert("Could not add the posts to the calendar.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSchedulePost = async (post: ScheduledPost, scheduledAt: string | null) => {
+    setScheduledPosts(prev => CalendarService.sortScheduledPosts(prev.map(p => p.id === post.id ? { ...p, scheduledAt } : p)));
+    try {
+      const saved = await CalendarService.saveScheduledPost({ ...post, scheduledAt });
+      setScheduledPosts(prev => prev.map(p => p.id === saved.id ? saved : p));
+    } catch (err) {
+      console.error("Failed to schedule post:", err);
+      fetchScheduledPosts();
+    }
+  };
+
+  const handleRemoveScheduledPost = async (post: ScheduledPost) => {
+    setScheduledPosts(prev => prev.filter(p => p.id !== post.id));
+    try {
+      await CalendarService.deleteScheduledPost(post.id);
+    } catch (err) {
+      console.error("Failed to remove post from calendar:", err);
+      fetchScheduledPosts();
+    }
+  };
+
+  // --- EXPORT ---
+
+  const handleExportCampaign = async () => {
+    setLoading(true);
+    setLoadingMsg("Packing campaign export...");
+    try {
+      const zip = await buildCampaignExport(
+        { state, personas, brand: getCampaignBrand(), scheduledPosts },
+        { perPersonaFolders: exportPerPersona },
+        (done, total) => setProgress({ done, total })
+      );
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `campaign-${state.campaignId || Date.now()}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err) {
+      console.error("Campaign export failed:", err);
+      alert("Could not export the campaign. Check your connection and try again.");
+    } finally {
+      setProgress(null);
+      setLoading(false);
+    }
+  };
+
+  // --- PUBLISHING ---
+
+  // Stores the outcome on the post; unscheduled posts that went out land on the calendar at publish time
+  const recordPublication = async (post: ScheduledPost, publication: Publication) => {
+    const scheduledAt = post.scheduledAt ?? (publication.status === 'failed' ? null : publication.updatedAt);
+    const saved = await CalendarService.saveScheduledPost({ ...PublishService.withPublication(post, publication), scheduledAt });
+    setScheduledPosts(prev => CalendarService.sortScheduledPosts([...prev.filter(p => p.id !== saved.id), saved]));
+  };
+
+  const handlePublish = async (persona: Persona, idea: GeneratedIdea, platform: PublishPlatform) => {
+    if (!PublishService.isConnected(connectedAccounts, persona.id, platform)) return;
 
-      setState(s => ({ ...s, generatedImages: imagesMap, step: 'editing' }));
+    const key = `${idea.id}:${platform}`;
+    setPublishing(prev => ({ ...prev, [key]: true }));
+    try {
+      const [post] = await saveFinishedPosts([idea.id]);
+      if (!post) throw new Error("Post has no caption or images yet");
+      await recordPublication(post, await PublishService.publishPost(post, platform));
     } catch (err) {
-      setError("Image Generation Failed.");
-      console.error(err);
+      console.error("Failed to publish post:", err);
+      alert("Could not publish this post.");
     } finally {
-      setLoading(false);
+      setPublishing(prev => ({ ...prev, [key]: false }));
     }
   };
 
-  const handleEditImage = async (ideaId: string, imageId: string) => {
-    const input = editInputs[imageId];
-    if (!input) return;
+  const handleRefreshPublication = async (post: ScheduledPost, publication: Publication) => {
 
-    setLoading(true);
-    setLoadingMsg("Refining visual...");
+    const key = `${post.ideaId}:${publication.platform}`;
+    setPublishing(prev => ({ ...prev, [key]: true }));
     try {
-      const images = state.generatedImages[ideaId];
-      const imageToEdit = images.find(img => img.id === imageId)!;
-      
-      const newImage = await GeminiService.editImageWithChat(imageToEdit, input);
-      
-      setState(s => ({
-        ...s,
-        generatedImages: {
-          ...s.generatedImages,
-          [ideaId]: s.generatedImages[ideaId].map(img => img.id === imageId ? newImage : img)
-        }
-      }));
-      setEditInputs(prev => ({ ...prev, [imageId]: '' }));
-    } catch(err) {
-      setError("Editing failed.");
+      await recordPublication(post, await PublishService.refreshPublication(publication, post.personaId));
+    } catch (err) {
+      console.error("Failed to check publish status:", err);
     } finally {
-      setLoading(false);
+      setPublishing(prev => ({ ...prev, [key]: false }));
     }
   };
 
-  const proceedToCaptions = async () => {
-    setLoading(true);
-    setLoadingMsg("Writing copy & strategy...");
-    setState(s => ({ ...s, step: 'captions' }));
+  // --- RENDERERS ---
 
-    try {
-      const captionsMap: Record<string, CaptionData> = {};
-      
-      for (const pid of state.selectedPersonaIds) {
-        const ideaId = state.selectedIdeaIds[pid];
-        const ideas = state.generatedIdeas[pid];
-        const selectedIdea = ideas.find(i => i.id === ideaId)!;
-        const persona = personas.find(p => p.id === pid)!;
-        
-        captionsMap[ideaId] = await GeminiService.generateCaptionStrategy(persona, selectedIdea);
-      }
+  const renderPublishBar = (persona: Persona, idea: GeneratedIdea) => {
+    const accounts = PUBLISH_PLATFORMS.filter(({ id }) => PublishService.isConnected(connectedAccounts, persona.id, id));
+    const post = state.campaignId
+      ? scheduledPosts.find(p => p.id === CalendarService.getScheduledPostId(state.campaignId!, idea.id))
+      : undefined;
 
-      setState(s => ({ ...s, captions: captionsMap }));
-    } catch(err) {
-      setError("Caption generation failed.");
-    } finally {
-      setLoading(false);
-    }
+    return (
+      <div className="mt-10 pt-8 border-t border-zinc-100">
+        <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-4 flex items-center gap-2">
+          <Send className="w-4 h-4" /> Publish
+        </h4>
+        {accounts.length === 0 ? (
+          <p className="text-sm text-zinc-400">
+            {persona.name} has no publishing accounts yet. Add them in the persona editor on the dashboard.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-4">
+            {accounts.map(({ id, label }) => {
+              const publication = PublishService.getPublication(post, id);
+              const busy = publishing[`${idea.id}:${id}`];
+              return (
+                <div key={id} className="flex-1 min-w-[220px] rounded-2xl border border-zinc-200 p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-sm font-bold text-zinc-900">{label}</span>
+                    {publication && renderPublicationBadge(publication)}
+                  </div>
+                  {publication?.error && <p className="text-xs text-red-600">{publication.error}</p>}
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handlePublish(persona, idea, id)}
+                      disabled={busy || publication?.status === 'processing'}
+                      className="flex items-center gap-1.5 text-xs font-bold px-4 py-2 rounded-full bg-zinc-900 text-white hover:bg-black disabled:opacity-50 transition-colors"
+                    >
+                      {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+                      {publication?.status === 'published' ? 'Publish again' : publication?.status === 'failed' ? 'Retry' : 'Publish'}
+                    </button>
+                    {post && publication?.status === 'processing' && (
+                      <button
+                        onClick={() => handleRefreshPublication(post, publication)}
+                        disabled={busy}
+                        className="flex items-center gap-1.5 text-xs font-bold px-4 py-2 rounded-full border border-zinc-200 text-zinc-600 hover:border-zinc-900 hover:text-zinc-900 disabled:opacity-50 transition-colors"
+                      >
+                        <RefreshCw className="w-3.5 h-3.5" /> Check status
+                      </button>
+                    )}
+                    {publication?.remoteUrl && (
+                      <a href={publication.remoteUrl} target="_blank" rel="noreferrer" className="p-2 text-zinc-400 hover:text-zinc-900" title="Open post">
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
   };
 
-  // --- RENDERERS ---
+  const renderPublicationBadge = (publication: Publication) => {
+    const styles: Record<Publication['status'], string> = {
+      processing: 'bg-amber-50 text-amber-700',
+      published: 'bg-green-50 text-green-700',
+      failed: 'bg-red-50 text-red-600',
+    };
+    return (
+      <span
+        className={`text-[10px] uppercase tracking-wider font-bold px-2.5 py-1 rounded-full ${styles[publication.status]}`}
+        title={publication.remoteId ? `${getPlatformLabel(publication.platform)} id: ${publication.remoteId}` : undefined}
+      >
+        {publication.status}
+      </span>
+    );
+  };
+
+  const renderUpcomingPosts = () => {
+    const now = Date.now();
+    const upcoming = scheduledPosts
+      .filter(p => p.scheduledAt && Date.parse(p.scheduledAt) >= now)
+      .slice(0, UPCOMING_POST_COUNT);
+    const unscheduledCount = scheduledPosts.filter(p => !p.scheduledAt).length;
+
+    return (
+      <div className="w-full max-w-6xl mt-20">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xs font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+            <CalendarDays className="w-4 h-4" /> Upcoming
+            {unscheduledCount > 0 && (
+              <span className="text-[10px] font-bold bg-amber-50 text-amber-700 border border-amber-200 px-2.5 py-0.5 rounded-full normal-case tracking-normal">
+                {unscheduledCount} unscheduled
+              </span>
+            )}
+          </h2>
+          <button
+            onClick={() => setShowCalendar(true)}
+            className="flex items-center gap-1.5 text-xs font-bold text-zinc-600 hover:text-zinc-900 transition-colors"
+          >
+            Open calendar <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-zinc-400 bg-white rounded-2xl border border-dashed border-zinc-200 px-6 py-8 text-center">
+            Nothing scheduled yet. Open the calendar and drag posts onto a date.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {upcoming.map(post => {
+              const persona = personas.find(p => p.id === post.personaId);
+              return (
+                <div
+                  key={post.id}
+                  onClick={() => setShowCalendar(true)}
+                  className="bg-white p-4 rounded-2xl border border-zinc-200 hover:border-zinc-900 cursor-pointer transition-all flex items-center gap-4"
+                >
+                  {post.imageUrls[0]
+                    ? <img src={post.imageUrls[0]} className="w-16 h-16 rounded-xl object-cover shrink-0" />
+                    : <div className="w-16 h-16 rounded-xl bg-zinc-100 shrink-0" />}
+                  <div className="min-w-0">
+                    <p className="text-xs font-bold text-zinc-500">
+                      {new Date(post.scheduledAt!).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                    <h3 className="font-bold text-sm text-zinc-900 truncate">{post.title}</h3>
+                    <p className="text-xs text-zinc-400 truncate">{persona?.name || 'Unknown persona'}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   const renderPersonaEditor = () => {
     if (!isEditorOpen || !editingPersona) return null;
@@ -676,6 +1713,31 @@ const App: React.FC = () => {
                  />
               </div>
             </div>
+
+            <PersonaStyleEditor
+              style={editingPersona.style}
+              onChange={(style) => setEditingPersona({ ...editingPersona, style })}
+            />
+
+            <PersonaVoiceEditor
+              samples={editingPersona.voiceSamples || []}
+              profile={editingPersona.voiceProfile}
+              learning={learningVoice}
+              // A profile learned from other samples no longer describes the persona; it has to be relearned
+              onChangeSamples={(voiceSamples) => setEditingPersona({ ...editingPersona, voiceSamples, voiceProfile: undefined })}
+              onLearn={handleLearnVoice}
+            />
+
+            <PublishAccountsEditor
+              personaId={editingPersona.id || undefined}
+              connected={connectedAccounts[editingPersona.id] || []}
+              onConnect={handleConnectAccount}
+            />
+
+            <HashtagGroupsEditor
+              groups={editingPersona.hashtagGroups || []}
+              onChange={(hashtagGroups) => setEditingPersona({ ...editingPersona, hashtagGroups })}
+            />
           </div>
           
           <div className="p-6 border-t border-zinc-100 flex justify-end gap-3 bg-zinc-50/50 rounded-b-3xl">
@@ -699,15 +1761,580 @@ const App: React.FC = () => {
     );
   };
 
+  // Batch progress shown under the loading message while several posts are processed
+  const renderProgress = () => {
+    if (!progress || progress.total < 2) return null;
+    return (
+      <div className="w-64 mt-4">
+        <div className="h-1.5 bg-zinc-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-zinc-900 transition-all duration-300"
+            style={{ width: `${(progress.done / progress.total) * 100}%` }}
+          />
+        </div>
+        <p className="text-xs text-zinc-500 font-medium text-center mt-2">
+          Post {Math.min(progress.done + 1, progress.total)} of {progress.total}
+        </p>
+      </div>
+    );
+  };
+
+  // Pre-flight cost of the generation run, against what is left of the monthly budget
+  const renderCostEstimate = () => {
+    const { images, cost } = estimateGeneration();
+    const remaining = workspaceBudget ? workspaceBudget - getMonthSpend() : null;
+    const overBudget = remaining !== null && cost > remaining;
+    return (
+      <div className="border-t border-zinc-800 pt-6 flex flex-col md:flex-row md:items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-2 text-zinc-300">
+          <Gauge className="w-4 h-4 text-zinc-500" />
+          Estimated cost <span className="font-bold text-white">≈ {formatCost(cost)}</span> for {images} image{images === 1 ? '' : 's'} at {genQuality}
+          {autoRegenerate && <span className="text-zinc-500">(plus any identity retries)</span>}
+        </span>
+        {remaining !== null && (
+          <span className={`text-xs font-bold ${overBudget ? 'text-red-400' : 'text-zinc-400'}`}>
+            {overBudget ? 'Over budget: ' : ''}{formatCost(Math.max(remaining, 0))} of {formatCost(workspaceBudget!)} left this month
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const renderError = () => {
+    if (!error) return null;
+    return (
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[110] max-w-lg w-[calc(100%-3rem)] bg-red-50 border border-red-200 text-red-700 rounded-2xl shadow-xl px-5 py-4 flex items-start gap-3 animate-in fade-in slide-in-from-bottom-4 duration-200">
+        <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        <p className="text-sm font-medium flex-1">{error}</p>
+        <button onClick={() => setError(null)} className="text-red-400 hover:text-red-700 transition-colors" title="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  };
+
+  const renderJobActions = (job: Job) => (
+    <div className="flex items-center gap-1 flex-shrink-0">
+      {(job.status === 'failed' || job.status === 'cancelled') && (
+        <button onClick={() => JobService.retryJob(job.id)} className="p-1.5 rounded-full text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100 transition-colors" title="Retry">
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+      )}
+      {JobService.isActiveJob(job) ? (
+        <button onClick={() => JobService.cancelJob(job.id)} className="p-1.5 rounded-full text-zinc-500 hover:text-red-500 hover:bg-red-50 transition-colors" title="Cancel">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      ) : job.status !== 'done' && (
+        <button onClick={() => JobService.clearFinishedJobs(j => j.id === job.id)} className="p-1.5 rounded-full text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100 transition-colors" title="Dismiss">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+
+  const renderJobProgress = (job: Job) => (
+    <div className="h-1 w-full bg-zinc-200 rounded-full overflow-hidden">
+      <div className="h-full bg-zinc-900 transition-all duration-300" style={{ width: `${Math.max(job.progress, 0.05) * 100}%` }} />
+    </div>
+  );
+
+  // Placeholder card for a generation job that has not produced its image(s) yet
+  const renderJobCard = (job: Job) => (
+    <div key={job.id} className="flex flex-col gap-3">
+      <div className={`rounded-2xl aspect-[4/5] flex flex-col items-center justify-center gap-3 px-8 border ${job.status === 'failed' ? 'bg-red-50 border-red-100' : 'bg-zinc-50 border-zinc-100'}`}>
+        {job.status === 'failed' ? (
+          <AlertCircle className="w-8 h-8 text-red-400" />
+        ) : (
+          <Loader2 className={`w-8 h-8 text-zinc-300 ${job.status === 'running' ? 'animate-spin' : ''}`} />
+        )}
+        <span className={`text-xs font-bold uppercase tracking-wider ${job.status === 'failed' ? 'text-red-500' : 'text-zinc-400'}`}>
+          {JOB_STATUS_LABELS[job.status]}
+        </span>
+        {job.error && <p className="text-xs text-red-500 text-center line-clamp-3">{job.error}</p>}
+        {job.status === 'running' && renderJobProgress(job)}
+      </div>
+      <div className="flex items-center justify-between gap-2 px-2">
+        <span className="text-xs text-zinc-500 font-medium truncate">{job.label}</span>
+        {renderJobActions(job)}
+      </div>
+    </div>
+  );
+
+  // Captions are generated with the brand's banned words in the prompt, but the model can still slip
+  const renderBannedWordsWarning = (caption: string) => {
+    const banned = findBannedWords(caption, getCampaignBrand());
+    if (banned.length === 0) return null;
+    return (
+      <p className="flex items-center gap-1.5 text-xs font-bold text-red-600">
+        <AlertCircle className="w-3.5 h-3.5" /> Uses banned words: {banned.join(', ')}
+      </p>
+    );
+  };
+
+  const renderCaptionSettings = () => {
+    const options = state.captionOptions;
+    const selectClass = "bg-zinc-50 border border-zinc-200 text-zinc-700 text-xs font-bold rounded-lg px-3 py-2 outline-none cursor-pointer";
+    return (
+      <div className="mb-10 bg-white border border-zinc-200 rounded-2xl px-6 py-4 flex flex-wrap items-center gap-3 shadow-sm">
+        <span className="text-xs font-bold text-zinc-500 uppercase tracking-wider mr-2">Captions</span>
+        <select value={options.tone} onChange={(e) => updateCaptionOptions({ tone: e.target.value as CaptionOptions['tone'] })} className={selectClass} title="Tone">
+          {CAPTION_TONES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+        </select>
+        <select value={options.length} onChange={(e) => updateCaptionOptions({ length: e.target.value as CaptionOptions['length'] })} className={selectClass} title="Length">
+          {CAPTION_LENGTHS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+        </select>
+        <select value={options.emojiDensity} onChange={(e) => updateCaptionOptions({ emojiDensity: e.target.value as CaptionOptions['emojiDensity'] })} className={selectClass} title="Emoji">
+          {EMOJI_DENSITIES.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+        </select>
+        <select value={options.variantCount} onChange={(e) => updateCaptionOptions({ variantCount: Number(e.target.value) })} className={selectClass} title="Variants per post">
+          {Array.from({ length: MAX_CAPTION_VARIANTS }, (_, i) => i + 1).map(n => (
+            <option key={n} value={n}>{n} {n === 1 ? 'variant' : 'variants'}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={options.callToAction}
+          onChange={(e) => updateCaptionOptions({ callToAction: e.target.value })}
+          className="flex-1 min-w-[200px] bg-zinc-50 border border-zinc-200 text-zinc-700 text-xs rounded-lg px-3 py-2 outline-none placeholder:text-zinc-400"
+          placeholder="Call to action (optional), e.g. Save this for your next trip"
+        />
+        <button
+          onClick={handleRegenerateCaptions}
+          disabled={jobs.some(job => job.kind === 'caption' && JobService.isActiveJob(job))}
+          className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider px-4 py-2 rounded-full border border-zinc-200 text-zinc-600 hover:border-zinc-900 hover:text-zinc-900 disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw className="w-3.5 h-3.5" /> Regenerate
+        </button>
+      </div>
+    );
+  };
+
+  // How closely the chosen variant sounds like the persona; the rating is of the generated text, not later edits
+  const renderVoiceMatch = (captionData: CaptionData) => {
+    if (!captionData.voiceMatch) return null;
+    const generated = captionData.variants?.[captionData.selectedVariant ?? 0];
+    const edited = !!generated && generated.caption !== captionData.caption;
+    const good = captionData.voiceMatch.score >= GOOD_VOICE_MATCH;
+    return (
+      <p
+        className={`flex items-center gap-1.5 text-xs font-bold ${good ? 'text-emerald-600' : 'text-amber-600'}`}
+        title={captionData.voiceMatch.note}
+      >
+        <MessageSquareQuote className="w-3.5 h-3.5" /> Voice match {captionData.voiceMatch.score}/100
+        <span className="font-medium text-zinc-400 truncate">· {edited ? 'before your edits' : captionData.voiceMatch.note}</span>
+      </p>
+    );
+  };
+
+  const renderCaptionEditor = (persona: Persona, ideaId: string, captionData: CaptionData) => {
+    const variants = captionData.variants || [];
+    const warnings = getCaptionWarnings(captionData, getPostPlatforms(ideaId));
+    return (
+      <>
+        {variants.length > 1 && (
+          <div className="flex flex-wrap gap-1.5">
+            {variants.map((variant, index) => (
+              <button
+                key={index}
+                onClick={() => handleSelectCaptionVariant(ideaId, index)}
+                className={`text-[10px] font-bold uppercase tracking-wider px-2.5 py-1 rounded-full transition-colors ${captionData.selectedVariant === index ? 'bg-zinc-900 text-white' : 'bg-white border border-zinc-200 text-zinc-500 hover:border-zinc-900'}`}
+              >
+                Variant {index + 1}{variant.voiceMatch && ` · ${variant.voiceMatch.score}`}
+              </button>
+            ))}
+          </div>
+        )}
+        <textarea
+          value={captionData.caption}
+          onChange={(e) => handleEditCaption(ideaId, { caption: e.target.value })}
+          className="w-full bg-white/60 text-sm text-zinc-800 leading-relaxed font-medium rounded-xl border border-transparent hover:border-zinc-200 focus:border-zinc-900 focus:bg-white px-3 py-2 -mx-3 outline-none resize-y min-h-[120px] transition-colors"
+        />
+        {renderBannedWordsWarning(captionData.caption)}
+        {renderVoiceMatch(captionData)}
+        {warnings.map(warning => (
+          <p key={warning} className="flex items-center gap-1.5 text-xs font-bold text-amber-600">
+            <AlertCircle className="w-3.5 h-3.5" /> Over the limit · {warning}
+          </p>
+        ))}
+        {renderHashtags(persona, ideaId, captionData)}
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-[10px] font-medium text-zinc-400">
+            {[...formatCaptionText(captionData)].length.toLocaleString()} characters · {captionData.hashtags.length} hashtags
+            {captionData.provenance?.template && ` · Caption Writer v${captionData.provenance.template.version}`}
+          </p>
+          {renderInspectButton(`Caption · ${persona.name}`, [{ label: 'Caption', provenance: captionData.provenance }])}
+        </div>
+      </>
+    );
+  };
+
+  // Opens the provenance of an artifact; stops the click so cards that toggle on click stay as they are
+  const renderInspectButton = (title: string, records: { label: string; provenance?: Provenance }[]) => (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        setInspecting({ title, records });
+      }}
+      className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-zinc-400 hover:text-zinc-900 transition-colors shrink-0"
+      title="How this was made"
+    >
+      <Fingerprint className="w-3 h-3" /> Inspect
+    </button>
+  );
+
+  const handleAddHashtags = (ideaId: string, hashtags: string[]) => {
+    const current = state.captions[ideaId];
+    if (!current) return;
+    handleEditCaption(ideaId, { hashtags: uniqueHashtags([...current.hashtags, ...hashtags]) });
+  };
+
+  const handleRemoveHashtags = (ideaId: string, hashtags: string[]) => {
+    const current = state.captions[ideaId];
+    if (!current) return;
+    const removed = new Set(hashtags.map(tag => tag.toLowerCase()));
+    handleEditCaption(ideaId, { hashtags: current.hashtags.filter(tag => !removed.has(tag.toLowerCase())) });
+  };
+
+  const handleSaveHashtagGroup = async (persona: Persona, hashtags: string[]) => {
+    const name = window.prompt(`Name this hashtag group for ${persona.name}:`)?.trim();
+    if (!name) return;
+
+    const updated = { ...persona, hashtagGroups: [...(persona.hashtagGroups || []), createHashtagGroup(name, hashtags)] };
+    setPersonas(prev => prev.map(p => p.id === persona.id ? updated : p));
+    try {
+      const saved = await PersonaService.savePersona(updated);
+      setPersonas(prev => prev.map(p => p.id === saved.id ? saved : p));
+    } catch (e: any) {
+      console.error("Failed to save hashtag group", e);
+      alert(`Error saving: ${e.message || e}`);
+    }
+  };
+
+  const renderHashtags = (persona: Persona, ideaId: string, captionData: CaptionData) => {
+    const brand = getCampaignBrand();
+    const repeated = findRepeatedHashtags(
+      getHashtagUse(persona.id, ideaId, captionData.hashtags), getHashtagUses(state.captions), brand?.requiredHashtags
+    );
+    const banned = captionData.hashtags.filter(isBannedHashtag);
+    const flagged = [...banned, ...repeated.keys()];
+    const groups: { label: string; groups: HashtagGroup[] }[] = [
+      { label: persona.name, groups: persona.hashtagGroups || [] },
+      { label: brand?.name || '', groups: brand?.hashtagGroups || [] },
+    ].filter(g => g.groups.length > 0);
+
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-1.5">
+          {captionData.hashtags.map(tag => {
+            const tiered = getTieredHashtag(captionData, tag);
+            const repeats = repeated.get(tag);
+            const style = isBannedHashtag(tag)
+              ? 'bg-red-50 text-red-600 border-red-200'
+              : repeats ? 'bg-amber-50 text-amber-700 border-amber-200'
+              : tiered ? HASHTAG_TIER_STYLES[tiered.tier] : 'bg-white text-zinc-500 border-zinc-200';
+            const title = isBannedHashtag(tag)
+              ? 'Banned or shadowbanned: posts using it can be hidden from hashtag feeds'
+              : repeats ? `Also used in ${repeats} other ${repeats === 1 ? 'post' : 'posts'} of ${persona.name} this week`
+              : tiered ? `${getHashtagTierLabel(tiered.tier)}: ${tiered.rationale}` : undefined;
+            return (
+              <span key={tag} title={title} className={`group inline-flex items-center gap-1 text-[11px] font-bold border rounded-full pl-2 pr-1 py-0.5 ${style}`}>
+                #{tag}
+                {tiered && <span className="text-[9px] uppercase tracking-wider opacity-60">{getHashtagTierLabel(tiered.tier)}</span>}
+                <button onClick={() => handleRemoveHashtags(ideaId, [tag])} className="opacity-40 hover:opacity-100" title="Remove hashtag">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+        {flagged.length > 0 && (
+          <p className="flex flex-wrap items-center gap-1.5 text-xs font-bold text-amber-600">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {banned.length > 0 && <span className="text-red-600">Banned: {banned.map(tag => `#${tag}`).join(' ')}.</span>}
+            {repeated.size > 0 && <span>{repeated.size} already used this week.</span>}
+            <button onClick={() => handleRemoveHashtags(ideaId, flagged)} className="underline hover:text-amber-800">Remove flagged</button>
+          </p>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            onBlur={(e) => {
+              handleAddHashtags(ideaId, e.target.value.split(/[\s,]+/));
+              e.target.value = '';
+            }}
+            className="flex-1 min-w-[120px] bg-transparent text-[11px] font-bold text-zinc-500 rounded-lg border border-transparent hover:border-zinc-200 focus:border-zinc-900 focus:bg-white px-3 py-1.5 -mx-3 outline-none transition-colors"
+            placeholder="+ Add hashtags"
+          />
+          {groups.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                const group = groups.flatMap(g => g.groups).find(g => g.id === e.target.value);
+                if (group) handleAddHashtags(ideaId, group.hashtags);
+              }}
+              className="bg-white border border-zinc-200 text-zinc-600 text-[10px] font-bold uppercase tracking-wider rounded-full px-2.5 py-1 outline-none cursor-pointer"
+            >
+              <option value="">Add group…</option>
+              {groups.map(({ label, groups }) => (
+                <optgroup key={label} label={label}>
+                  {groups.map(group => <option key={group.id} value={group.id}>{group.name || 'Untitled'} ({group.hashtags.length})</option>)}
+                </optgroup>
+              ))}
+            </select>
+          )}
+          {captionData.hashtags.length > 0 && (
+            <button
+              onClick={() => handleSaveHashtagGroup(persona, captionData.hashtags)}
+              className="text-[10px] font-bold uppercase tracking-wider text-zinc-400 hover:text-zinc-900 transition-colors"
+            >
+              Save as group
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Latest job for an image/idea while it is still pending or has failed
+  const findOpenJob = (match: (job: Job) => boolean): Job | undefined => {
+    const latest = [...jobs].reverse().find(match);
+    return latest && (JobService.isActiveJob(latest) || latest.status === 'failed') ? latest : undefined;
+  };
+
+  const renderEditJob = (img: GeneratedImage) => {
+    const editJob = findOpenJob(job => job.kind === 'edit' && job.imageId === img.id);
+    if (!editJob) return null;
+
+    return (
+      <div className="absolute inset-0 flex items-center justify-center p-4 bg-zinc-900/10">
+        <div className={`w-full rounded-xl px-4 py-3 backdrop-blur shadow-lg flex items-center gap-3 ${editJob.status === 'failed' ? 'bg-red-50/95' : 'bg-white/90'}`}>
+          {editJob.status === 'failed' ? (
+            <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          ) : (
+            <Loader2 className={`w-4 h-4 text-zinc-900 flex-shrink-0 ${editJob.status === 'running' ? 'animate-spin' : ''}`} />
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="text-xs font-bold text-zinc-900 truncate">{JOB_STATUS_LABELS[editJob.status]} · {editJob.label}</p>
+            {editJob.error && <p className="text-[11px] text-red-500 truncate">{editJob.error}</p>}
+          </div>
+          {renderJobActions(editJob)}
+        </div>
+      </div>
+    );
+  };
+
+  const renderIdentityBadge = (pid: string, ideaId: string, img: GeneratedImage) => {
+    const identity = ImageVersions.getCurrentVersion(img).identity;
+    const editing = state.step === 'editing';
+
+    if (!identity) {
+      return editing ? (
+        <button
+          onClick={() => handleCheckIdentity(pid, ideaId, img.id, false)}
+          className="absolute bottom-4 left-4 bg-white/90 backdrop-blur text-zinc-600 text-[11px] font-bold px-3 py-1.5 rounded-full shadow opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1.5"
+        >
+          <ShieldCheck className="w-3.5 h-3.5" /> Check identity
+        </button>
+      ) : null;
+    }
+
+    const passed = identity.score >= identityThreshold;
+    return (
+      <div className="absolute bottom-4 left-4 flex items-center gap-1.5">
+        <span
+          className={`backdrop-blur text-[11px] font-bold px-3 py-1.5 rounded-full shadow flex items-center gap-1.5 ${passed ? 'bg-green-50/90 text-green-700' : 'bg-red-50/90 text-red-600'}`}
+          title={identity.reasons.join('\n')}
+        >
+          {passed ? <ShieldCheck className="w-3.5 h-3.5" /> : <ShieldAlert className="w-3.5 h-3.5" />}
+          {identity.score}/100
+        </span>
+        {editing && !passed && (
+          <button
+            onClick={() => handleCheckIdentity(pid, ideaId, img.id, true)}
+            className="bg-white/90 backdrop-blur text-zinc-900 p-1.5 rounded-full shadow hover:bg-white transition-all"
+            title="Regenerate"
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderVersionBar = (ideaId: string, img: GeneratedImage) => {
+    const versions = ImageVersions.getVersions(img);
+    const current = ImageVersions.getCurrentVersion(img);
+
+    return (
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => updateImage(ideaId, img.id, ImageVersions.undoVersion)}
+          disabled={!ImageVersions.canUndo(img)}
+          className="p-2 rounded-full bg-zinc-100 text-zinc-600 hover:bg-zinc-900 hover:text-white disabled:opacity-30 disabled:hover:bg-zinc-100 disabled:hover:text-zinc-600 transition-colors"
+          title="Undo"
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => updateImage(ideaId, img.id, ImageVersions.redoVersion)}
+          disabled={!ImageVersions.canRedo(img)}
+          className="p-2 rounded-full bg-zinc-100 text-zinc-600 hover:bg-zinc-900 hover:text-white disabled:opacity-30 disabled:hover:bg-zinc-100 disabled:hover:text-zinc-600 transition-colors"
+          title="Redo"
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+
+        <div className="flex gap-1.5 overflow-x-auto flex-1 scrollbar-hide">
+          {versions.map(v => (
+            <button
+              key={v.id}
+              onClick={() => updateImage(ideaId, img.id, i => ImageVersions.checkoutVersion(i, v.id))}
+              className={`relative w-10 h-12 flex-shrink-0 rounded-lg overflow-hidden border-2 transition-all ${v.id === current.id ? 'border-zinc-900' : 'border-transparent opacity-60 hover:opacity-100'}`}
+              title={`${ImageVersions.getVersionLabel(img, v.id)} · ${v.instruction || 'Original'}${v.parentId ? ` (from ${ImageVersions.getVersionLabel(img, v.parentId)})` : ''}`}
+            >
+              <img src={v.imageUrl} className="w-full h-full object-cover" />
+              {v.parentId && versions.filter(o => o.parentId === v.parentId).length > 1 && (
+                <GitBranch className="absolute bottom-0.5 right-0.5 w-3 h-3 text-white drop-shadow" />
+              )}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => setCompareImage(img)}
+          disabled={versions.length < 2}
+          className="p-2 rounded-full bg-zinc-100 text-zinc-600 hover:bg-zinc-900 hover:text-white disabled:opacity-30 disabled:hover:bg-zinc-100 disabled:hover:text-zinc-600 transition-colors"
+          title="Compare versions"
+        >
+          <Columns className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  };
+
+  // Provenance of every version of an image, oldest first
+  const inspectImage = (img: GeneratedImage) => {
+    const current = ImageVersions.getCurrentVersion(img);
+    setInspecting({
+      title: img.prompt,
+      records: ImageVersions.getVersions(img).map(v => ({
+        label: `${ImageVersions.getVersionLabel(img, v.id)} · ${v.instruction || 'Original'}${v.id === current.id ? ' (current)' : ''}`,
+        provenance: v.provenance,
+      })),
+    });
+  };
+
+  if (user === null) {
+    return <AuthScreen />;
+  }
+
+  if (workspaceError) {
+    return (
+      <div className="min-h-screen bg-[#FAFAFA] flex flex-col items-center justify-center gap-4 p-6 text-center">
+        <AlertCircle className="w-10 h-10 text-red-400" />
+        <p className="text-lg font-medium text-zinc-700">Could not open your workspace</p>
+        <p className="text-sm text-zinc-500 max-w-md">{workspaceError}</p>
+        <button
+          onClick={() => AuthService.signOut().catch(err => console.error("Sign out failed", err))}
+          className="mt-2 px-5 py-2.5 rounded-full bg-zinc-900 text-white text-sm font-bold hover:bg-zinc-800 transition-colors"
+        >
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  if (!user || !activeWorkspaceId) {
+    return (
+      <div className="min-h-screen bg-[#FAFAFA] flex items-center justify-center">
+        <Loader2 className="w-10 h-10 animate-spin text-zinc-900" />
+      </div>
+    );
+  }
+
+  if (showCalendar) {
+    return (
+      <Layout>
+        <ContentCalendar
+          posts={scheduledPosts}
+          personas={personas}
+          onSchedule={handleSchedulePost}
+          onRemove={handleRemoveScheduledPost}
+          onClose={() => setShowCalendar(false)}
+        />
+      </Layout>
+    );
+  }
+
   if (state.step === 'dashboard') {
     return (
       <Layout>
+        {renderError()}
         {renderPersonaEditor()}
+        {editingBrand && (
+          <BrandEditor brand={editingBrand} onSave={handleSaveBrand} onClose={() => setEditingBrand(null)} />
+        )}
+        {editingPromptKey && (
+          <PromptTemplateEditor
+            templates={promptTemplates}
+            pins={promptPins}
+            initialKey={editingPromptKey}
+            onSaveVersion={handleSavePromptVersion}
+            onPin={handlePinPromptTemplate}
+            onClose={() => setEditingPromptKey(null)}
+          />
+        )}
+        {inspecting && (
+          <ProvenancePanel title={inspecting.title} records={inspecting.records} onClose={() => setInspecting(null)} />
+        )}
+        {showAuditLog && <AuditLogView onClose={() => setShowAuditLog(false)} />}
+        {showUsage && (
+          <UsageDashboard
+            events={monthUsage}
+            loading={usageLoading}
+            budget={workspaceBudget}
+            canEditBudget={isWorkspaceOwner}
+            personas={personas}
+            onSetBudget={handleSetBudget}
+            onClose={() => setShowUsage(false)}
+          />
+        )}
+        {loading && (
+          <div className="fixed inset-0 bg-white/90 z-[100] flex flex-col items-center justify-center backdrop-blur-sm">
+            <Loader2 className="w-10 h-10 animate-spin text-zinc-900 mb-4" />
+            <p className="text-lg font-medium text-zinc-600 animate-pulse">{loadingMsg}</p>
+            {renderProgress()}
+          </div>
+        )}
         <div className="flex flex-col items-center py-16">
           <div className="text-center mb-16 space-y-4">
-            <div className="flex items-center justify-center gap-2 text-sm text-zinc-400 font-medium uppercase tracking-wider mb-2">
-              <Database className={`w-4 h-4 ${dbConnected ? 'text-green-500' : 'text-red-500'}`} />
-              {dbConnected ? 'Supabase Connected' : 'Local Mode'}
+            <div className="flex items-center justify-center gap-4 text-sm text-zinc-400 font-medium uppercase tracking-wider mb-2">
+              <span className="flex items-center gap-2">
+                {dbConnected
+                  ? <Database className="w-4 h-4 text-green-500" />
+                  : <CloudOff className="w-4 h-4 text-red-500" />}
+                {dbConnected ? 'Supabase Connected' : 'Offline'}
+              </span>
+              {syncStatus.syncing && (
+                <span className="flex items-center gap-1.5 text-zinc-500">
+                  <Loader2 className="w-3 h-3 animate-spin" /> Syncing
+                </span>
+              )}
+              {syncStatus.pending > 0 && (
+                <span className="text-[10px] font-bold bg-amber-50 text-amber-700 border border-amber-200 px-2.5 py-1 rounded-full">
+                  {syncStatus.pending} pending
+                </span>
+              )}
+              {syncStatus.failed > 0 && (
+                <button
+                  onClick={() => SyncService.flushSyncQueue()}
+                  className="text-[10px] font-bold bg-red-50 text-red-600 border border-red-200 px-2.5 py-1 rounded-full hover:bg-red-100 transition-colors"
+                  title="Retry failed changes"
+                >
+                  {syncStatus.failed} failed · Retry
+                </button>
+              )}
             </div>
             <h1 className="text-5xl font-extrabold text-zinc-900 tracking-tight">
               Creator Studio
@@ -792,6 +2419,178 @@ const App: React.FC = () => {
               <ArrowRight className="ml-2 w-5 h-5 group-hover:translate-x-1 transition-transform" />
             </button>
           )}
+
+          {scheduledPosts.length > 0 && renderUpcomingPosts()}
+
+          <div className="w-full max-w-6xl mt-20">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xs font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                <Briefcase className="w-4 h-4" /> Brands
+              </h2>
+              <button
+                onClick={() => setEditingBrand(createEmptyBrand())}
+                className="flex items-center gap-1.5 text-xs font-bold text-zinc-600 hover:text-zinc-900 transition-colors"
+              >
+                <Plus className="w-4 h-4" /> Add Brand
+              </button>
+            </div>
+            {brands.length === 0 ? (
+              <p className="text-sm text-zinc-400 bg-white rounded-2xl border border-dashed border-zinc-200 px-6 py-8 text-center">
+                Add the brands you create content for to give the AI their tone of voice, rules and products.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {brands.map(b => (
+                  <div
+                    key={b.id}
+                    onClick={() => setEditingBrand(b)}
+                    className="bg-white p-6 rounded-2xl border border-zinc-200 hover:border-zinc-900 cursor-pointer transition-all group relative"
+                  >
+                    <button
+                      onClick={(e) => handleDeleteBrand(e, b.id)}
+                      className="absolute top-4 right-4 p-1.5 text-zinc-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    <h3 className="font-bold text-zinc-900 pr-8">{b.name}</h3>
+                    {b.toneOfVoice && <p className="text-sm text-zinc-500 mt-1 line-clamp-2 font-light">{b.toneOfVoice}</p>}
+                    <div className="flex items-center gap-3 mt-4">
+                      <span className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider font-bold text-zinc-500 bg-zinc-100 px-3 py-1 rounded-full">
+                        <Package className="w-3 h-3" /> {b.products.length} {b.products.length === 1 ? 'product' : 'products'}
+                      </span>
+                      {b.products.flatMap(p => p.imageUrls.slice(0, 1)).slice(0, 4).map(url => (
+                        <img key={url} src={url} className="w-7 h-7 rounded-lg object-cover border border-zinc-100" />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {brands.some(b => b.products.length > 0) && (
+            <div className="w-full max-w-6xl mt-20">
+              <h2 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-6 flex items-center gap-2">
+                <Package className="w-4 h-4" /> Product library
+              </h2>
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {brands.flatMap(b => b.products.map(product => (
+                  <div
+                    key={`${b.id}-${product.id}`}
+                    onClick={() => setEditingBrand(b)}
+                    className="bg-white rounded-2xl border border-zinc-200 hover:border-zinc-900 cursor-pointer transition-all overflow-hidden group"
+                    title="Edit in brand"
+                  >
+                    <div className="aspect-square bg-zinc-50 flex items-center justify-center relative">
+                      {product.imageUrls[0]
+                        ? <img src={product.imageUrls[0]} alt={product.name} className="w-full h-full object-cover" />
+                        : <Package className="w-8 h-8 text-zinc-300" />}
+                      {product.imageUrls.length > 1 && (
+                        <span className="absolute bottom-2 right-2 text-[10px] font-bold bg-black/60 text-white px-2 py-0.5 rounded-full">
+                          {product.imageUrls.length} photos
+                        </span>
+                      )}
+                    </div>
+                    <div className="p-4">
+                      <h3 className="font-bold text-sm text-zinc-900 truncate">{product.name}</h3>
+                      <p className="text-xs text-zinc-400 truncate">{b.name}</p>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleFeatureProduct(b, product); }}
+                        disabled={personas.length === 0}
+                        className="mt-3 w-full flex items-center justify-center gap-1.5 text-xs font-bold text-zinc-700 bg-zinc-100 hover:bg-zinc-900 hover:text-white py-2 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <Sparkles className="w-3.5 h-3.5" /> Feature in campaign
+                      </button>
+                    </div>
+                  </div>
+                )))}
+              </div>
+            </div>
+          )}
+
+          <div className="w-full max-w-6xl mt-20">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xs font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                <FileText className="w-4 h-4" /> Prompt templates
+              </h2>
+              <div className="flex items-center gap-5">
+                <button
+                  onClick={() => { setShowUsage(true); fetchUsage(); }}
+                  className="flex items-center gap-1.5 text-xs font-bold text-zinc-600 hover:text-zinc-900 transition-colors"
+                >
+                  <Gauge className="w-4 h-4" /> Usage {formatCost(getMonthSpend())}{workspaceBudget ? ` / ${formatCost(workspaceBudget)}` : ''}
+                </button>
+                <button
+                  onClick={() => setShowAuditLog(true)}
+                  className="flex items-center gap-1.5 text-xs font-bold text-zinc-600 hover:text-zinc-900 transition-colors"
+                >
+                  <ScrollText className="w-4 h-4" /> Audit log
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {PROMPT_TEMPLATE_DEFINITIONS.map(definition => {
+                const template = getPromptTemplate(definition.key);
+                const pinned = promptPins.some(p => p.key === definition.key);
+                return (
+                  <div
+                    key={definition.key}
+                    onClick={() => setEditingPromptKey(definition.key)}
+                    className="bg-white p-5 rounded-2xl border border-zinc-200 hover:border-zinc-900 cursor-pointer transition-all"
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <h3 className="font-bold text-sm text-zinc-900">{definition.label}</h3>
+                      <span className="flex items-center gap-1 text-[10px] uppercase tracking-wider font-bold text-zinc-500 bg-zinc-100 px-2.5 py-1 rounded-full shrink-0">
+                        {pinned && <Pin className="w-3 h-3" />} v{template.version}
+                      </span>
+                    </div>
+                    <p className="text-xs text-zinc-400 mt-1 line-clamp-2">{definition.description}</p>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {recentCampaigns.length > 0 && (
+            <div className="w-full max-w-6xl mt-20">
+              <h2 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-6 flex items-center gap-2">
+                <History className="w-4 h-4" /> Recent campaigns
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {recentCampaigns.map(c => (
+                  <div
+                    key={c.id}
+                    onClick={() => handleResumeCampaign(c.id)}
+                    className="bg-white p-6 rounded-2xl border border-zinc-200 hover:border-zinc-900 cursor-pointer transition-all group relative"
+                  >
+                    <button
+                      onClick={(e) => handleDeleteCampaign(e, c.id)}
+                      className="absolute top-4 right-4 p-1.5 text-zinc-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    <h3 className="font-bold text-zinc-900 pr-8 line-clamp-2">{c.title}</h3>
+                    <div className="flex items-center justify-between mt-4">
+                      <div className="flex -space-x-2">
+                        {c.personaIds.map(pid => {
+                          const p = personas.find(x => x.id === pid);
+                          return p ? (
+                            <img key={pid} src={p.avatarUrl || 'https://via.placeholder.com/40'} className="w-7 h-7 rounded-full object-cover border-2 border-white" />
+                          ) : null;
+                        })}
+                      </div>
+                      <span className="text-[10px] uppercase tracking-wider font-bold text-zinc-500 bg-zinc-100 px-3 py-1 rounded-full">
+                        {STEP_LABELS[c.step]}
+                      </span>
+                    </div>
+                    <p className="text-xs text-zinc-400 mt-3">{new Date(c.updatedAt).toLocaleString()}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </Layout>
     );
@@ -800,6 +2599,7 @@ const App: React.FC = () => {
   if (state.step === 'selection') {
     return (
       <Layout>
+        {renderError()}
         <div className="max-w-2xl mx-auto py-12">
           <div className="flex items-center gap-4 mb-8">
             <button 
@@ -838,6 +2638,54 @@ const App: React.FC = () => {
             ))}
           </div>
 
+          {brands.length > 0 && (
+            <div className="mt-10">
+              <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3">Brand</label>
+              <select
+                value={state.brandId || ''}
+                onChange={(e) => setState(s => ({ ...s, brandId: e.target.value || null, featuredProductId: null }))}
+                className="w-full bg-white text-zinc-900 border border-zinc-200 rounded-xl px-4 py-3 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all cursor-pointer"
+              >
+                <option value="">No brand (organic content)</option>
+                {brands.map(b => (
+                  <option key={b.id} value={b.id}>{b.name}</option>
+                ))}
+              </select>
+
+              {!!getCampaignBrand()?.products.length && (
+                <div className="mt-6">
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3">Product placement</label>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    <button
+                      onClick={() => setState(s => ({ ...s, featuredProductId: null }))}
+                      className={`p-4 rounded-2xl border text-left text-sm transition-all ${!state.featuredProductId ? 'border-zinc-900 bg-zinc-50 ring-1 ring-zinc-900/5' : 'border-zinc-200 bg-white hover:border-zinc-400'}`}
+                    >
+                      <span className="font-bold text-zinc-900 block">No featured product</span>
+                      <span className="text-xs text-zinc-500">Brand awareness content</span>
+                    </button>
+                    {getCampaignBrand()!.products.map(product => (
+                      <button
+                        key={product.id}
+                        onClick={() => setState(s => ({ ...s, featuredProductId: product.id }))}
+                        className={`p-4 rounded-2xl border text-left text-sm transition-all flex items-center gap-3 ${state.featuredProductId === product.id ? 'border-zinc-900 bg-zinc-50 ring-1 ring-zinc-900/5' : 'border-zinc-200 bg-white hover:border-zinc-400'}`}
+                      >
+                        {product.imageUrls[0]
+                          ? <img src={product.imageUrls[0]} className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                          : <Package className="w-5 h-5 text-zinc-400 shrink-0" />}
+                        <span className="font-bold text-zinc-900 line-clamp-2">{product.name}</span>
+                      </button>
+                    ))}
+                  </div>
+                  {state.featuredProductId && (
+                    <p className="text-xs text-zinc-500 mt-3">
+                      Every idea is built around this product and its photos are sent as references when generating images.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="mt-12 flex justify-end">
              <button 
                 onClick={proceedToIdeation}
@@ -855,11 +2703,13 @@ const App: React.FC = () => {
   if (state.step === 'ideation') {
     return (
       <Layout>
+        {renderError()}
         <div className="max-w-5xl mx-auto min-h-[80vh]">
           {loading && (
              <div className="fixed inset-0 bg-white/90 z-[100] flex flex-col items-center justify-center backdrop-blur-sm">
                <Loader2 className="w-10 h-10 animate-spin text-zinc-900 mb-4" />
                <p className="text-lg font-medium text-zinc-600 animate-pulse">{loadingMsg}</p>
+               {renderProgress()}
              </div>
           )}
 
@@ -923,7 +2773,7 @@ const App: React.FC = () => {
                {state.selectedPersonaIds.map(pid => {
                  const p = personas.find(x => x.id === pid)!;
                  const ideas = state.generatedIdeas[pid] || [];
-                 const selectedId = state.selectedIdeaIds[pid];
+                 const selectedIds = state.selectedIdeaIds[pid] || [];
 
                  return (
                    <div key={pid} className="space-y-6">
@@ -931,6 +2781,9 @@ const App: React.FC = () => {
                        <h3 className="text-2xl font-bold flex items-center text-zinc-900">
                          <img src={p.avatarUrl || 'https://via.placeholder.com/50'} className="w-12 h-12 rounded-full mr-4 object-cover border border-zinc-100 shadow-sm" />
                          {p.name}
+                         {selectedIds.length > 0 && (
+                           <span className="ml-3 text-xs font-bold bg-zinc-900 text-white px-2.5 py-1 rounded-full">{selectedIds.length} selected</span>
+                         )}
                        </h3>
                        <button onClick={() => regenerateIdea(pid)} className="text-xs font-bold text-zinc-500 hover:text-zinc-900 flex items-center uppercase tracking-wider bg-white border border-zinc-200 px-4 py-2 rounded-full hover:bg-zinc-50 transition-colors">
                          <RefreshCw className="w-3 h-3 mr-2" /> Regenerate
@@ -940,16 +2793,27 @@ const App: React.FC = () => {
                        {ideas.map(idea => (
                          <div 
                            key={idea.id}
-                           onClick={() => selectIdea(pid, idea.id)}
+                           onClick={() => toggleIdea(pid, idea.id)}
                            className={`p-8 rounded-3xl border cursor-pointer transition-all relative flex flex-col group ${
-                             selectedId === idea.id 
+                             selectedIds.includes(idea.id) 
                               ? 'border-zinc-900 bg-zinc-900 text-white shadow-xl scale-[1.02]' 
                               : 'border-zinc-200 bg-white text-zinc-900 hover:border-zinc-400 hover:shadow-lg'
                            }`}
                          >
-                            <h4 className="font-bold mb-4 text-xl">{idea.title}</h4>
-                            <p className={`text-sm leading-relaxed flex-grow font-light ${selectedId === idea.id ? 'text-zinc-300' : 'text-zinc-500'}`}>{idea.description}</p>
-                            <div className={`mt-6 w-full h-1 rounded-full ${selectedId === idea.id ? 'bg-white/20' : 'bg-zinc-100 group-hover:bg-zinc-200'}`} />
+                            {selectedIds.includes(idea.id) && (
+                              <CheckCircle className="absolute top-6 right-6 w-5 h-5 text-white" />
+                            )}
+                            <h4 className="font-bold mb-4 text-xl pr-6">{idea.title}</h4>
+                            {idea.productId && getFeaturedProduct()?.id === idea.productId && (
+                              <span className={`self-start -mt-2 mb-4 flex items-center gap-1.5 text-[10px] uppercase tracking-wider font-bold px-2.5 py-1 rounded-full ${selectedIds.includes(idea.id) ? 'bg-white/10 text-zinc-200' : 'bg-zinc-100 text-zinc-500'}`}>
+                                <Package className="w-3 h-3" /> {getFeaturedProduct()!.name}
+                              </span>
+                            )}
+                            <p className={`text-sm leading-relaxed flex-grow font-light ${selectedIds.includes(idea.id) ? 'text-zinc-300' : 'text-zinc-500'}`}>{idea.description}</p>
+                            <div className={`mt-6 w-full h-1 rounded-full ${selectedIds.includes(idea.id) ? 'bg-white/20' : 'bg-zinc-100 group-hover:bg-zinc-200'}`} />
+                            <div className="mt-4 flex justify-end">
+                              {renderInspectButton(idea.title, [{ label: 'Idea', provenance: idea.provenance }])}
+                            </div>
                          </div>
                        ))}
                      </div>
@@ -957,13 +2821,24 @@ const App: React.FC = () => {
                  );
                })}
                
-               <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-40">
+               <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3">
+                  <div className="bg-white border border-zinc-200 rounded-full p-1 flex shadow-2xl">
+                    {(['single', 'carousel'] as const).map(type => (
+                      <button
+                        key={type}
+                        onClick={() => setState(s => ({ ...s, postType: type }))}
+                        className={`px-5 py-3 rounded-full text-sm font-bold transition-colors ${state.postType === type ? 'bg-zinc-900 text-white' : 'text-zinc-500 hover:text-zinc-900'}`}
+                      >
+                        {type === 'single' ? 'Single Post' : 'Carousel'}
+                      </button>
+                    ))}
+                  </div>
                   <button 
                     onClick={proceedToRefinement}
                     className="bg-zinc-900 text-white px-10 py-4 rounded-full font-bold shadow-2xl hover:bg-black disabled:opacity-50 disabled:cursor-not-allowed flex items-center transition-all hover:scale-105 active:scale-95"
-                    disabled={Object.keys(state.selectedIdeaIds).length !== state.selectedPersonaIds.length}
+                    disabled={!state.selectedPersonaIds.every(pid => state.selectedIdeaIds[pid]?.length > 0)}
                   >
-                    Next Step <ArrowRight className="w-5 h-5 ml-2" />
+                    Next Step{getSelectedPosts().length > 1 ? ` (${getSelectedPosts().length} posts)` : ''} <ArrowRight className="w-5 h-5 ml-2" />
                   </button>
                </div>
             </div>
@@ -976,6 +2851,7 @@ const App: React.FC = () => {
   if (state.step === 'refinement') {
     return (
        <Layout>
+         {renderError()}
           <div className="max-w-4xl mx-auto pb-32">
             <h2 className="text-3xl font-bold mb-2">Refine Details</h2>
             <p className="text-zinc-500 mb-10 font-light">The AI needs a few specifics to get the location right.</p>
@@ -984,31 +2860,62 @@ const App: React.FC = () => {
              <div className="fixed inset-0 bg-white/90 z-[100] flex flex-col items-center justify-center">
                <Loader2 className="w-10 h-10 animate-spin text-zinc-900 mb-4" />
                <p className="text-lg font-medium">{loadingMsg}</p>
+               {renderProgress()}
              </div>
             )}
             
             <div className="space-y-12">
-              {state.selectedPersonaIds.map(pid => {
-                const ideaId = state.selectedIdeaIds[pid];
+              {getSelectedPosts().map(({ persona, idea }) => {
+                const pid = persona.id;
+                const ideaId = idea.id;
                 const requirements = state.refinementData[ideaId] || [];
-                const persona = personas.find(p => p.id === pid)!;
 
                 return (
-                  <div key={pid} className="bg-white p-8 rounded-[2rem] shadow-sm border border-zinc-200">
+                  <div key={ideaId} className="bg-white p-8 rounded-[2rem] shadow-sm border border-zinc-200">
                     <div className="flex items-center mb-8 border-b border-zinc-100 pb-6">
                        <img src={persona.avatarUrl || 'https://via.placeholder.com/40'} className="w-12 h-12 rounded-full mr-4 object-cover border border-zinc-100" />
                        <div>
                          <h3 className="font-bold text-xl text-zinc-900">{persona.name}</h3>
-                         <p className="text-zinc-500 text-sm">{state.generatedIdeas[pid].find(i => i.id === ideaId)?.title}</p>
+                         <p className="text-zinc-500 text-sm">{idea.title}</p>
                        </div>
                     </div>
+
+                    {state.postType === 'carousel' && idea.slides && (
+                      <div className="mb-10">
+                        <label className="block text-sm font-bold text-zinc-900 mb-3 ml-1">Slide Plan</label>
+                        <div className="space-y-3">
+                          {idea.slides.map((slide, index) => (
+                            <div key={slide.id} className="flex gap-3 items-start">
+                              <span className="w-8 h-8 flex-shrink-0 rounded-full bg-zinc-100 text-zinc-600 text-xs font-bold flex items-center justify-center mt-1.5">
+                                {index + 1}
+                              </span>
+                              <input
+                                type="text"
+                                className="w-40 bg-white border border-zinc-200 rounded-xl px-4 py-3 text-sm font-bold focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all"
+                                value={slide.title}
+                                onChange={(e) => handleSlideInput(pid, ideaId, slide.id, 'title', e.target.value)}
+                              />
+                              <input
+                                type="text"
+                                className="flex-1 bg-white border border-zinc-200 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all"
+                                value={slide.shot}
+                                onChange={(e) => handleSlideInput(pid, ideaId, slide.id, 'shot', e.target.value)}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                     
                     <div className="space-y-8">
                       {requirements.map(req => (
                         <div key={req.id} className="group">
-                          <label className="block text-sm font-bold text-zinc-900 mb-3 ml-1">
-                             {req.question}
-                          </label>
+                          <div className="flex items-start justify-between gap-3 mb-3 ml-1">
+                            <label className="block text-sm font-bold text-zinc-900">
+                               {req.question}
+                            </label>
+                            {renderInspectButton(req.question, [{ label: 'Requirement', provenance: req.provenance }])}
+                          </div>
                           <div className="flex gap-3 mb-3">
                             <input 
                               type="text" 
@@ -1040,17 +2947,43 @@ const App: React.FC = () => {
                         </div>
                       ))}
                     </div>
+
+                    <div className="mt-8 pt-6 border-t border-zinc-100">
+                      <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3 ml-1">
+                        Formats {!state.ideaFormats[ideaId] && <span className="normal-case tracking-normal font-medium text-zinc-400">(campaign default)</span>}
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {OUTPUT_FORMATS.map(format => {
+                          const active = getIdeaFormats(ideaId).includes(format.id);
+                          return (
+                            <button
+                              key={format.id}
+                              onClick={() => toggleIdeaFormat(ideaId, format.id)}
+                              className={`text-xs font-bold px-4 py-2 rounded-full border transition-colors ${active ? 'bg-zinc-900 text-white border-zinc-900' : 'bg-white text-zinc-500 border-zinc-200 hover:border-zinc-900 hover:text-zinc-900'}`}
+                            >
+                              {format.platform} {format.label} · {format.aspectRatio}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
                   </div>
                 )
               })}
             </div>
 
-            <div className="mt-12 bg-zinc-900 text-white p-8 rounded-[2rem] shadow-xl flex flex-col md:flex-row items-center justify-between gap-6">
+            <div className="mt-12 bg-zinc-900 text-white p-8 rounded-[2rem] shadow-xl space-y-6">
+             <div className="flex flex-col md:flex-row items-center justify-between gap-6">
                <div>
                   <h4 className="font-bold text-xl mb-1">Production Settings</h4>
                   <p className="text-zinc-400 text-sm">Configure output quality and volume.</p>
                </div>
                <div className="flex gap-4">
+                  {state.postType === 'carousel' ? (
+                    <div className="bg-zinc-800 border border-zinc-700 text-zinc-300 rounded-xl px-4 py-3">
+                      1 Image per Slide
+                    </div>
+                  ) : (
                   <select 
                     value={genCount} 
                     onChange={(e) => setGenCount(Number(e.target.value))} 
@@ -1058,6 +2991,7 @@ const App: React.FC = () => {
                   >
                     {[1,2,3,4,5].map(n => <option key={n} value={n}>{n} Image{n>1?'s':''}</option>)}
                   </select>
+                  )}
                   <select 
                     value={genQuality} 
                     onChange={(e) => setGenQuality(e.target.value as any)} 
@@ -1067,6 +3001,19 @@ const App: React.FC = () => {
                     <option value="2K">2K Res</option>
                     <option value="4K">4K Res</option>
                   </select>
+                  <select 
+                    value={autoRegenerate ? identityThreshold : 0} 
+                    onChange={(e) => {
+                      const threshold = Number(e.target.value);
+                      setAutoRegenerate(threshold > 0);
+                      if (threshold > 0) setIdentityThreshold(threshold);
+                    }} 
+                    className="bg-zinc-800 border border-zinc-700 text-white rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-white/20 cursor-pointer"
+                    title="Regenerate images whose persona identity score is below this threshold"
+                  >
+                    <option value={0}>No Auto-Retry</option>
+                    {[50, 60, 70, 80, 90].map(n => <option key={n} value={n}>Retry below {n}</option>)}
+                  </select>
                </div>
                <button 
                   onClick={proceedToGeneration}
@@ -1074,6 +3021,22 @@ const App: React.FC = () => {
                >
                  <Sparkles className="w-5 h-5 mr-2" /> Start Generation
                </button>
+             </div>
+             {renderCostEstimate()}
+             <div className="border-t border-zinc-800 pt-6 flex flex-col md:flex-row md:items-center gap-4">
+               <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider whitespace-nowrap">Campaign formats</span>
+               <div className="flex flex-wrap gap-2">
+                 {OUTPUT_FORMATS.map(format => (
+                   <button
+                     key={format.id}
+                     onClick={() => toggleCampaignFormat(format.id)}
+                     className={`text-xs font-bold px-4 py-2 rounded-full border transition-colors ${state.targetFormats.includes(format.id) ? 'bg-white text-zinc-900 border-white' : 'bg-zinc-800 text-zinc-400 border-zinc-700 hover:border-zinc-500'}`}
+                   >
+                     {format.platform} {format.label} · {format.aspectRatio}
+                   </button>
+                 ))}
+               </div>
+             </div>
             </div>
           </div>
        </Layout>
@@ -1083,6 +3046,19 @@ const App: React.FC = () => {
   if (state.step === 'editing' || state.step === 'captions') {
     return (
       <Layout>
+        {renderError()}
+         {compareImage && <VersionCompare image={compareImage} onClose={() => setCompareImage(null)} />}
+         {maskTarget && (
+           <MaskEditor
+             imageUrl={maskTarget.imageUrl}
+             onClose={() => setMaskTarget(null)}
+             onSave={(mask) => {
+               if (mask) setEditMasks(prev => ({ ...prev, [maskTarget.id]: mask }));
+               else clearEditAttachment(setEditMasks, maskTarget.id);
+               setMaskTarget(null);
+             }}
+           />
+         )}
          <div className="max-w-7xl mx-auto pb-32">
             <header className="flex justify-between items-end mb-12">
                <div>
@@ -1093,10 +3069,33 @@ const App: React.FC = () => {
                    {state.step === 'editing' ? 'Refine visuals with AI commands.' : 'Ready to post content.'}
                  </p>
                </div>
+               {state.step === 'captions' && (
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-xs font-bold text-zinc-500 cursor-pointer" title="Put each persona's posts in its own folder">
+                      <input type="checkbox" checked={exportPerPersona} onChange={(e) => setExportPerPersona(e.target.checked)} className="accent-zinc-900" />
+                      Per-persona folders
+                    </label>
+                    <button
+                      onClick={handleExportCampaign}
+                      disabled={hasActiveJobs}
+                      className="bg-white text-zinc-900 border border-zinc-200 px-6 py-4 rounded-full hover:border-zinc-900 font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                    >
+                      <Download className="w-5 h-5 mr-2" /> Export Campaign
+                    </button>
+                    <button
+                      onClick={handleAddToCalendar}
+                      disabled={jobs.some(job => job.kind === 'caption' && JobService.isActiveJob(job)) || Object.keys(state.captions).length === 0}
+                      className="bg-zinc-900 text-white px-8 py-4 rounded-full hover:bg-black font-bold shadow-xl transition-transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 flex items-center"
+                    >
+                      <CalendarPlus className="w-5 h-5 mr-2" /> Add to Calendar
+                    </button>
+                  </div>
+                )}
                {state.step === 'editing' && (
                   <button 
                     onClick={proceedToCaptions}
-                    className="bg-zinc-900 text-white px-8 py-4 rounded-full hover:bg-black font-bold shadow-xl transition-transform hover:scale-105 flex items-center"
+                    disabled={jobs.some(job => job.kind !== 'caption' && JobService.isActiveJob(job))}
+                    className="bg-zinc-900 text-white px-8 py-4 rounded-full hover:bg-black font-bold shadow-xl transition-transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 flex items-center"
                   >
                     Generate Captions <ArrowRight className="w-5 h-5 ml-2" />
                   </button>
@@ -1107,79 +3106,216 @@ const App: React.FC = () => {
              <div className="fixed inset-0 bg-white/90 z-[100] flex flex-col items-center justify-center backdrop-blur-sm">
                <Loader2 className="w-10 h-10 animate-spin text-zinc-900 mb-4" />
                <p className="text-lg font-medium text-zinc-600 animate-pulse">{loadingMsg}</p>
+               {renderProgress()}
              </div>
             )}
 
+            {state.step === 'captions' && renderCaptionSettings()}
+
+            {jobs.length > 0 && (
+              <div className="mb-10 bg-white border border-zinc-200 rounded-2xl px-6 py-4 flex flex-wrap items-center gap-4 shadow-sm">
+                {hasActiveJobs ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-zinc-900" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 text-green-600" />
+                )}
+                <span className="text-sm font-medium text-zinc-700">
+                  {jobs.filter(j => j.status === 'done').length}/{jobs.length} jobs done
+                  {jobs.some(j => j.status === 'running') && ` · ${jobs.filter(j => j.status === 'running').length} running`}
+                  {jobs.some(j => j.status === 'queued') && ` · ${jobs.filter(j => j.status === 'queued').length} queued`}
+                  {jobs.some(j => j.status === 'failed') && ` · ${jobs.filter(j => j.status === 'failed').length} failed`}
+                </span>
+                <div className="ml-auto flex items-center gap-3">
+                  <select
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(Number(e.target.value))}
+                    className="bg-zinc-50 border border-zinc-200 text-zinc-700 text-xs font-bold rounded-lg px-3 py-2 outline-none cursor-pointer"
+                    title="How many jobs run at the same time"
+                  >
+                    {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n} at a time</option>)}
+                  </select>
+                  {hasActiveJobs ? (
+                    <button
+                      onClick={() => JobService.cancelAllJobs()}
+                      className="text-xs font-bold uppercase tracking-wider px-4 py-2 rounded-full border border-zinc-200 text-zinc-600 hover:border-red-300 hover:text-red-600 transition-colors"
+                    >
+                      Cancel All
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => JobService.clearFinishedJobs()}
+                      className="text-xs font-bold uppercase tracking-wider px-4 py-2 rounded-full border border-zinc-200 text-zinc-600 hover:border-zinc-900 hover:text-zinc-900 transition-colors"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-16">
-               {state.selectedPersonaIds.map(pid => {
-                 const ideaId = state.selectedIdeaIds[pid];
+               {getSelectedPosts().map(({ persona, idea }) => {
+                 const ideaId = idea.id;
                  const images = state.generatedImages[ideaId] || [];
                  const captionData = state.captions[ideaId];
-                 const persona = personas.find(p=>p.id===pid);
+                 const captionJob = findOpenJob(job => job.kind === 'caption' && job.ideaId === ideaId);
+                 const pendingJobs = jobs.filter(job => job.kind === 'generation' && job.ideaId === ideaId && job.status !== 'done');
                  
                  return (
-                   <div key={pid} className="bg-white rounded-[2.5rem] p-10 border border-zinc-200 shadow-sm">
+                   <div key={ideaId} className="bg-white rounded-[2.5rem] p-10 border border-zinc-200 shadow-sm">
                      <div className="flex items-center mb-8">
-                        <img src={persona?.avatarUrl || 'https://via.placeholder.com/40'} className="w-14 h-14 rounded-full mr-5 object-cover border border-zinc-100 shadow-sm" />
+                        <img src={persona.avatarUrl || 'https://via.placeholder.com/40'} className="w-14 h-14 rounded-full mr-5 object-cover border border-zinc-100 shadow-sm" />
                         <div>
-                           <h3 className="text-2xl font-bold text-zinc-900">{persona?.name}</h3>
-                           <p className="text-zinc-500 font-medium">Campaign Assets</p>
+                           <h3 className="text-2xl font-bold text-zinc-900">{persona.name}</h3>
+                           <p className="text-zinc-500 font-medium">{idea.title}</p>
                         </div>
                      </div>
                      
-                     <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
-                        {images.map(img => (
-                          <div key={img.id} className="flex flex-col gap-4 group">
-                             <div className="aspect-[4/5] bg-zinc-100 rounded-2xl overflow-hidden relative shadow-md group-hover:shadow-xl transition-all duration-300">
-                                <img src={img.imageUrl} className="w-full h-full object-cover" />
-                                <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity">
-                                   <a href={img.imageUrl} download={`ugc-${img.id}.png`} className="bg-white/90 backdrop-blur text-zinc-900 p-3 rounded-full shadow-lg hover:bg-white hover:scale-110 transition-all flex">
-                                      <Download className="w-5 h-5" />
-                                   </a>
-                                </div>
-                             </div>
-
-                             {state.step === 'editing' ? (
-                               <div className="relative">
-                                 <input 
-                                   type="text" 
-                                   className="w-full bg-zinc-50 border border-zinc-200 rounded-full pl-5 pr-12 py-3 text-sm focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all placeholder:text-zinc-400"
-                                   placeholder="Ask AI to edit this image..."
-                                   value={editInputs[img.id] || ''}
-                                   onChange={(e) => setEditInputs(prev => ({ ...prev, [img.id]: e.target.value }))}
-                                 />
-                                 <button 
-                                   onClick={() => handleEditImage(ideaId, img.id)}
-                                   disabled={!editInputs[img.id]}
-                                   className="absolute right-1 top-1 bottom-1 w-10 bg-zinc-900 text-white rounded-full flex items-center justify-center hover:bg-black disabled:opacity-0 transition-all"
+                     <div className="space-y-12">
+                       {groupImagesByFormat(images).map(({ format, images: group }) => (
+                         <div key={format.id}>
+                           <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-5 flex items-center gap-2">
+                             {format.platform} · {format.label}
+                             <span className="bg-zinc-100 text-zinc-600 px-2 py-0.5 rounded text-[10px]">{format.aspectRatio}</span>
+                           </h4>
+                           <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+                            {group.map((img, index) => (
+                              <div key={img.id} className="flex flex-col gap-4 group">
+                                 <div
+                                   className="bg-zinc-100 rounded-2xl overflow-hidden relative shadow-md group-hover:shadow-xl transition-all duration-300"
+                                   style={{ aspectRatio: toCssAspectRatio(img.aspectRatio) }}
                                  >
-                                   <Wand2 className="w-4 h-4" />
-                                 </button>
-                               </div>
-                             ) : (
-                               <div className="bg-zinc-50 p-6 rounded-2xl border border-zinc-100">
-                                  <div className="flex items-start gap-4">
-                                     <div className="bg-gradient-to-tr from-yellow-400 via-red-500 to-purple-500 p-0.5 rounded-full flex-shrink-0">
-                                        <div className="bg-white p-0.5 rounded-full">
-                                          <img src={persona?.avatarUrl} className="w-8 h-8 rounded-full object-cover" />
-                                        </div>
+                                    <img src={img.imageUrl} className="w-full h-full object-cover" />
+                                    {img.slideId && (
+                                      <div className="absolute top-4 left-4 flex items-center gap-1">
+                                        {state.step === 'editing' && (
+                                          <button
+                                            onClick={() => moveSlide(ideaId, img.id, -1)}
+                                            disabled={index === 0}
+                                            className="bg-white/90 backdrop-blur text-zinc-900 p-1.5 rounded-full shadow hover:bg-white disabled:opacity-30 transition-all"
+                                            title="Move earlier"
+                                          >
+                                            <ChevronRight className="w-4 h-4 rotate-180" />
+                                          </button>
+                                        )}
+                                        <span className="bg-zinc-900/80 backdrop-blur text-white text-[11px] font-bold px-3 py-1.5 rounded-full">
+                                          {index + 1}/{group.length}
+                                        </span>
+                                        {state.step === 'editing' && (
+                                          <button
+                                            onClick={() => moveSlide(ideaId, img.id, 1)}
+                                            disabled={index === group.length - 1}
+                                            className="bg-white/90 backdrop-blur text-zinc-900 p-1.5 rounded-full shadow hover:bg-white disabled:opacity-30 transition-all"
+                                            title="Move later"
+                                          >
+                                            <ChevronRight className="w-4 h-4" />
+                                          </button>
+                                        )}
+                                      </div>
+                                    )}
+                                    {renderIdentityBadge(persona.id, ideaId, img)}
+                                    {renderEditJob(img)}
+                                    <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                       <button
+                                         onClick={() => inspectImage(img)}
+                                         className="bg-white/90 backdrop-blur text-zinc-900 p-3 rounded-full shadow-lg hover:bg-white hover:scale-110 transition-all flex"
+                                         title="Inspect: how each version was made"
+                                       >
+                                          <Fingerprint className="w-5 h-5" />
+                                       </button>
+                                       <a href={img.imageUrl} download={`ugc-${img.id}.png`} className="bg-white/90 backdrop-blur text-zinc-900 p-3 rounded-full shadow-lg hover:bg-white hover:scale-110 transition-all flex">
+                                          <Download className="w-5 h-5" />
+                                       </a>
+                                    </div>
+                                 </div>
+
+                                 {state.step === 'editing' && renderVersionBar(ideaId, img)}
+
+                                 {state.step === 'editing' ? (
+                                   <div>
+                                     <div className="relative">
+                                       <input 
+                                         type="text" 
+                                         className="w-full bg-zinc-50 border border-zinc-200 rounded-full pl-5 pr-12 py-3 text-sm focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all placeholder:text-zinc-400"
+                                         placeholder={ImageVersions.canRedo(img) ? "Edit from here to start a new branch..." : "Ask AI to edit this image..."}
+                                         value={editInputs[img.id] || ''}
+                                         onChange={(e) => setEditInputs(prev => ({ ...prev, [img.id]: e.target.value }))}
+                                       />
+                                       <button 
+                                         onClick={() => handleEditImage(ideaId, img.id)}
+                                         disabled={!editInputs[img.id]}
+                                         className="absolute right-1 top-1 bottom-1 w-10 bg-zinc-900 text-white rounded-full flex items-center justify-center hover:bg-black disabled:opacity-0 transition-all"
+                                       >
+                                         <Wand2 className="w-4 h-4" />
+                                       </button>
                                      </div>
-                                     <div className="space-y-3">
-                                        <p className="text-sm text-zinc-800 leading-relaxed font-medium">
-                                          {captionData?.caption || "Generating caption..."}
-                                        </p>
-                                        <div className="flex flex-wrap gap-2">
-                                          {captionData?.hashtags.map(tag => (
-                                            <span key={tag} className="text-[11px] font-bold text-zinc-500">#{tag}</span>
-                                          ))}
-                                        </div>
+                                     <div className="flex items-center gap-2 mt-3">
+                                       <label className={`cursor-pointer flex items-center gap-2 text-[11px] font-bold uppercase tracking-wider px-3 py-1.5 rounded-lg transition-colors border ${editReferences[img.id] ? 'bg-green-50 text-green-700 border-green-200' : 'bg-white text-zinc-500 border-zinc-200 hover:border-zinc-900 hover:text-zinc-900'}`}>
+                                         <ImageIcon className="w-3.5 h-3.5" />
+                                         {editReferences[img.id] ? 'Reference Attached' : 'Reference'}
+                                         <input 
+                                           type="file" 
+                                           className="hidden" 
+                                           accept="image/*"
+                                           onChange={(e) => e.target.files?.[0] && handleEditReference(img.id, e.target.files[0])}
+                                         />
+                                       </label>
+                                       {editReferences[img.id] && (
+                                         <button onClick={() => clearEditAttachment(setEditReferences, img.id)} className="text-zinc-400 hover:text-red-500" title="Remove reference">
+                                           <X className="w-3.5 h-3.5" />
+                                         </button>
+                                       )}
+                                       <button
+                                         onClick={() => setMaskTarget(img)}
+                                         className={`flex items-center gap-2 text-[11px] font-bold uppercase tracking-wider px-3 py-1.5 rounded-lg transition-colors border ${editMasks[img.id] ? 'bg-green-50 text-green-700 border-green-200' : 'bg-white text-zinc-500 border-zinc-200 hover:border-zinc-900 hover:text-zinc-900'}`}
+                                       >
+                                         <Brush className="w-3.5 h-3.5" />
+                                         {editMasks[img.id] ? 'Area Selected' : 'Select Area'}
+                                       </button>
+                                       {editMasks[img.id] && (
+                                         <button onClick={() => clearEditAttachment(setEditMasks, img.id)} className="text-zinc-400 hover:text-red-500" title="Remove mask">
+                                           <X className="w-3.5 h-3.5" />
+                                         </button>
+                                       )}
                                      </div>
-                                  </div>
-                               </div>
-                             )}
-                          </div>
-                        ))}
+                                   </div>
+                                 ) : img.slideId && index > 0 ? (
+                                   <p className="text-xs text-zinc-400 font-medium px-2">Carousel slide {index + 1} · caption on slide 1</p>
+                                 ) : (
+                                   <div className="bg-zinc-50 p-6 rounded-2xl border border-zinc-100">
+                                      <div className="flex items-start gap-4">
+                                         <div className="bg-gradient-to-tr from-yellow-400 via-red-500 to-purple-500 p-0.5 rounded-full flex-shrink-0">
+                                            <div className="bg-white p-0.5 rounded-full">
+                                              <img src={persona.avatarUrl} className="w-8 h-8 rounded-full object-cover" />
+                                            </div>
+                                         </div>
+                                         <div className="space-y-3 flex-1 min-w-0">
+                                            {captionData ? renderCaptionEditor(persona, ideaId, captionData) : (
+                                              <p className="text-sm text-zinc-800 leading-relaxed font-medium">
+                                                {captionJob?.status === 'failed' ? "Caption generation failed." : "Generating caption..."}
+                                              </p>
+                                            )}
+                                            {!captionData && captionJob && renderJobActions(captionJob)}
+                                         </div>
+                                      </div>
+                                   </div>
+                                 )}
+                              </div>
+                            ))}
+                           </div>
+                         </div>
+                       ))}
+
+                       {pendingJobs.length > 0 && (
+                         <div>
+                           <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-5">In progress</h4>
+                           <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+                             {pendingJobs.map(renderJobCard)}
+                           </div>
+                         </div>
+                       )}
                      </div>
+                     {state.step === 'captions' && captionData && renderPublishBar(persona, idea)}
                    </div>
                  )
                })}
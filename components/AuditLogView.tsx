@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { X, Search, Loader2, ScrollText, ChevronRight } from 'lucide-react';
+import { AuditEntry } from '../types';
+import * as AuditService from '../services/auditService';
+import { AUDIT_ACTION_LABELS } from '../lib/provenance';
+import { ProvenanceDetails } from './ProvenancePanel';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * The workspace's audit log: every generated idea, requirement, image, edit and caption, newest first.
+ */
+export const AuditLogView: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [search, setSearch] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const loaded = await AuditService.loadAuditLog(search);
+        if (!cancelled) setEntries(loaded);
+      } catch (err) {
+        console.error("Failed to load audit log", err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-zinc-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl w-full max-w-4xl h-[90vh] flex flex-col shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-8 border-b border-zinc-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-zinc-900 flex items-center gap-2"><ScrollText className="w-6 h-6" /> Audit Log</h3>
+            <p className="text-zinc-500 text-sm mt-1">How every idea, image, edit and caption in this workspace was made, and by whom.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors">
+            <X className="w-5 h-5 text-zinc-600" />
+          </button>
+        </div>
+
+        <div className="px-8 py-4 border-b border-zinc-100">
+          <div className="relative">
+            <Search className="w-4 h-4 text-zinc-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              autoFocus
+              className="w-full bg-zinc-50 text-sm text-zinc-900 border border-zinc-200 rounded-xl pl-9 pr-3 py-2.5 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none placeholder:text-zinc-400"
+              placeholder="Search by title, instruction, user, model, prompt text or artifact id"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 py-4">
+          {loading && entries.length === 0 ? (
+            <div className="flex justify-center py-16"><Loader2 className="w-6 h-6 animate-spin text-zinc-400" /></div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-sm text-zinc-400 py-16">{search ? 'No entries match your search.' : 'Nothing has been generated in this workspace yet.'}</p>
+          ) : (
+            <div className="divide-y divide-zinc-100">
+              {entries.map(entry => {
+                const expanded = expandedId === entry.id;
+                return (
+                  <div key={entry.id} className="py-3">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      className="w-full flex items-center gap-3 text-left group"
+                    >
+                      <ChevronRight className={`w-4 h-4 text-zinc-400 shrink-0 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-zinc-600 bg-zinc-100 rounded-md px-2 py-0.5 shrink-0">
+                        {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                      </span>
+                      <span className="flex-1 min-w-0 text-sm font-medium text-zinc-900 truncate group-hover:underline">{entry.summary || entry.artifactId}</span>
+                      <span className="text-xs text-zinc-400 shrink-0 hidden sm:block">{entry.userEmail || entry.provenance.userEmail || ''}</span>
+                      <span className="text-xs text-zinc-400 shrink-0">{new Date(entry.createdAt).toLocaleString()}</span>
+                    </button>
+                    {expanded && (
+                      <div className="mt-4 ml-7 mb-2">
+                        <p className="text-[11px] font-mono text-zinc-400 mb-3">
+                          {entry.artifactId}{entry.campaignId ? ` · campaign ${entry.campaignId}` : ''}
+                        </p>
+                        <ProvenanceDetails provenance={entry.provenance} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {entries.length >= AuditService.AUDIT_LOG_LIMIT && (
+            <p className="text-center text-xs text-zinc-400 py-4">Showing the newest {AuditService.AUDIT_LOG_LIMIT} entries. Search to narrow it down.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Layers, Loader2, ArrowRight } from 'lucide-react';
+import * as AuthService from '../services/authService';
+
+const INPUT_CLASS = "w-full bg-white text-zinc-900 border border-zinc-200 rounded-xl px-4 py-3 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all placeholder:text-zinc-300";
+
+export const AuthScreen: React.FC = () => {
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      if (mode === 'signIn') {
+        // The auth subscription in App picks up the new session
+        await AuthService.signIn(email.trim(), password);
+      } else if (await AuthService.signUp(email.trim(), password)) {
+        setNotice("Check your inbox to confirm your email, then sign in.");
+        setMode('signIn');
+      }
+    } catch (err: any) {
+      console.error("Authentication failed", err);
+      setError(err?.message || "Could not sign in. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#FAFAFA] text-zinc-900 font-sans flex items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <div className="flex items-center gap-3 justify-center mb-10">
+          <div className="w-10 h-10 bg-zinc-900 rounded-xl flex items-center justify-center text-white shadow-lg shadow-zinc-900/10">
+            <Layers className="w-5 h-5" />
+          </div>
+          <div>
+            <span className="text-xl font-bold tracking-tight text-zinc-900 block leading-none">UGC Flow</span>
+            <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Studio</span>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-3xl border border-zinc-100 shadow-xl shadow-zinc-200/50 p-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-zinc-900">{mode === 'signIn' ? 'Welcome back' : 'Create your account'}</h2>
+            <p className="text-zinc-500 text-sm mt-1">
+              {mode === 'signIn' ? 'Sign in to your workspace.' : 'You get a personal workspace to start with.'}
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">Email</label>
+              <input
+                type="email"
+                required
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="you@studio.com"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">Password</label>
+              <input
+                type="password"
+                required
+                minLength={6}
+                autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-xl px-4 py-3">{error}</p>}
+          {notice && <p className="text-sm text-green-700 bg-green-50 border border-green-100 rounded-xl px-4 py-3">{notice}</p>}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-zinc-900 text-white py-3 rounded-xl font-bold hover:bg-zinc-800 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowRight className="w-4 h-4" />}
+            {mode === 'signIn' ? 'Sign in' : 'Create account'}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => { setMode(mode === 'signIn' ? 'signUp' : 'signIn'); setError(null); }}
+            className="w-full text-sm text-zinc-500 hover:text-zinc-900 transition-colors"
+          >
+            {mode === 'signIn' ? "No account yet? Create one" : "Already have an account? Sign in"}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Upload, Loader2, Save, Package } from 'lucide-react';
+import { Brand, Product } from '../types';
+import { uploadImage } from '../lib/supabase';
+import { compressImageToBlob } from '../lib/imageFiles';
+import { normalizeHashtag } from '../lib/brands';
+import { BRAND_BUCKET } from '../services/brandService';
+import { requireActiveWorkspace } from '../services/workspaceService';
+import { HashtagGroupsEditor } from './HashtagGroupsEditor';
+
+const MAX_PRODUCT_PHOTOS = 4;
+
+const INPUT_CLASS = "w-full bg-white text-zinc-900 border border-zinc-200 rounded-xl px-4 py-3 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all placeholder:text-zinc-300";
+const LABEL_CLASS = "block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2";
+
+// Comma separated input <-> list, dropping empty entries
+const toList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+export const createEmptyBrand = (): Brand => ({
+  id: '',
+  name: '',
+  toneOfVoice: '',
+  bannedWords: [],
+  requiredHashtags: [],
+  visualGuidelines: '',
+  products: [],
+  hashtagGroups: []
+});
+
+export const BrandEditor: React.FC<{
+  brand: Brand;
+  onSave: (brand: Brand) => void;
+  onClose: () => void;
+}> = ({ brand, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Brand>(brand);
+  // List fields are edited as text so typing a trailing comma doesn't get swallowed
+  const [bannedWords, setBannedWords] = useState(brand.bannedWords.join(', '));
+  const [hashtags, setHashtags] = useState(brand.requiredHashtags.map(tag => `#${tag}`).join(', '));
+  const [uploadingProductId, setUploadingProductId] = useState<string | null>(null);
+
+  const updateProduct = (id: string, changes: Partial<Product>) => {
+    setDraft(d => ({ ...d, products: d.products.map(p => p.id === id ? { ...p, ...changes } : p) }));
+  };
+
+  const handleAddProduct = () => {
+    setDraft(d => ({
+      ...d,
+      products: [...d.products, { id: `prod-${Date.now()}`, name: '', description: '', imageUrls: [] }]
+    }));
+  };
+
+  const handleRemoveProduct = (id: string) => {
+    setDraft(d => ({ ...d, products: d.products.filter(p => p.id !== id) }));
+  };
+
+  const handleProductPhotos = async (product: Product, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_PRODUCT_PHOTOS - product.imageUrls.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploadingProductId(product.id);
+    try {
+      const urls: string[] = [];
+      for (const file of files) {
+        const blob = await compressImageToBlob(file);
+        const fileName = `product-${product.id}-${Date.now()}-${Math.random().toString(36).substring(7)}.jpg`;
+        urls.push(await uploadImage(blob, draft.workspaceId || requireActiveWorkspace().id, fileName, BRAND_BUCKET));
+      }
+      setDraft(d => ({
+        ...d,
+        products: d.products.map(p => p.id === product.id ? { ...p, imageUrls: [...p.imageUrls, ...urls] } : p)
+      }));
+    } catch (err) {
+      console.error("Product photo upload failed", err);
+      alert("Failed to upload product photo. Please check your connection.");
+    } finally {
+      setUploadingProductId(null);
+    }
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      bannedWords: toList(bannedWords),
+      requiredHashtags: toList(hashtags).map(normalizeHashtag).filter(Boolean),
+      // Unnamed products can't be referenced in prompts
+      products: draft.products.filter(p => p.name.trim()),
+      hashtagGroups: (draft.hashtagGroups || []).filter(g => g.hashtags.length > 0)
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-zinc-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-8 border-b border-zinc-100 flex justify-between items-center sticky top-0 bg-white/95 backdrop-blur z-10">
+          <div>
+            <h3 className="text-2xl font-bold text-zinc-900">{brand.id ? 'Edit Brand' : 'New Brand'}</h3>
+            <p className="text-zinc-500 text-sm mt-1">Everything the AI should know when creating content for this client.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors">
+            <X className="w-5 h-5 text-zinc-600" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6">
+          <div>
+            <label className={LABEL_CLASS}>Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={INPUT_CLASS}
+              placeholder="e.g. Adriatic Coffee Co."
+            />
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Tone of voice</label>
+            <textarea
+              value={draft.toneOfVoice}
+              onChange={(e) => setDraft({ ...draft, toneOfVoice: e.target.value })}
+              className={`${INPUT_CLASS} h-24 resize-none`}
+              placeholder="e.g. Warm, witty, never salesy. Speaks like a friend who knows coffee."
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className={LABEL_CLASS}>Banned words</label>
+              <input
+                type="text"
+                value={bannedWords}
+                onChange={(e) => setBannedWords(e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="e.g. cheap, diet, guaranteed"
+              />
+            </div>
+            <div>
+              <label className={LABEL_CLASS}>Must-include hashtags</label>
+              <input
+                type="text"
+                value={hashtags}
+                onChange={(e) => setHashtags(e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="e.g. #adriaticcoffee, #ad"
+              />
+            </div>
+          </div>
+          <HashtagGroupsEditor
+            groups={draft.hashtagGroups || []}
+            onChange={(hashtagGroups) => setDraft(d => ({ ...d, hashtagGroups }))}
+          />
+          <div>
+            <label className={LABEL_CLASS}>Visual guidelines</label>
+            <textarea
+              value={draft.visualGuidelines}
+              onChange={(e) => setDraft({ ...draft, visualGuidelines: e.target.value })}
+              className={`${INPUT_CLASS} h-24 resize-none`}
+              placeholder="e.g. Warm earthy palette, natural light, logo always readable, no competitor cups in frame."
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <label className={`${LABEL_CLASS} mb-0`}>Product catalogue</label>
+              <button
+                onClick={handleAddProduct}
+                className="flex items-center gap-1.5 text-xs font-bold text-zinc-600 hover:text-zinc-900 transition-colors"
+              >
+                <Plus className="w-4 h-4" /> Add product
+              </button>
+            </div>
+            {draft.products.length === 0 && (
+              <p className="text-sm text-zinc-400 bg-zinc-50 rounded-xl px-4 py-6 text-center border border-dashed border-zinc-200">
+                Add products to have them featured in generated images.
+              </p>
+            )}
+            <div className="space-y-4">
+              {draft.products.map(product => (
+                <div key={product.id} className="p-4 rounded-2xl border border-zinc-200 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <Package className="w-4 h-4 text-zinc-400 shrink-0" />
+                    <input
+                      type="text"
+                      value={product.name}
+                      onChange={(e) => updateProduct(product.id, { name: e.target.value })}
+                      className="flex-1 bg-transparent text-sm font-bold text-zinc-900 outline-none placeholder:text-zinc-300"
+                      placeholder="Product name"
+                    />
+                    <button onClick={() => handleRemoveProduct(product.id)} className="text-zinc-300 hover:text-red-500 transition-colors" title="Remove product">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={product.description}
+                    onChange={(e) => updateProduct(product.id, { description: e.target.value })}
+                    className="w-full bg-zinc-50 text-sm text-zinc-700 rounded-lg px-3 py-2 outline-none placeholder:text-zinc-300"
+                    placeholder="Short description (size, colour, packaging)"
+                  />
+                  <div className="flex gap-2 flex-wrap">
+                    {product.imageUrls.map(url => (
+                      <div key={url} className="relative w-16 h-16 rounded-lg overflow-hidden border border-zinc-200 group">
+                        <img src={url} className="w-full h-full object-cover" />
+                        <button
+                          onClick={() => updateProduct(product.id, { imageUrls: product.imageUrls.filter(u => u !== url) })}
+                          className="absolute inset-0 bg-black/50 text-white flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Remove photo"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    {product.imageUrls.length < MAX_PRODUCT_PHOTOS && (
+                      <label className={`w-16 h-16 rounded-lg border-2 border-dashed border-zinc-200 flex items-center justify-center cursor-pointer hover:border-zinc-900 transition-colors ${uploadingProductId ? 'pointer-events-none opacity-50' : ''}`}>
+                        {uploadingProductId === product.id
+                          ? <Loader2 className="w-4 h-4 animate-spin text-zinc-500" />
+                          : <Upload className="w-4 h-4 text-zinc-400" />}
+                        <input type="file" accept="image/*" multiple className="hidden" onChange={(e) => handleProductPhotos(product, e)} />
+                      </label>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-zinc-100 flex justify-end gap-3 sticky bottom-0 bg-white/95 backdrop-blur">
+          <button onClick={onClose} className="px-6 py-3 rounded-full text-sm font-bold text-zinc-600 hover:bg-zinc-100 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!draft.name.trim() || !!uploadingProductId}
+            className="bg-zinc-900 text-white px-6 py-3 rounded-full text-sm font-bold hover:bg-black disabled:opacity-50 transition-colors flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" /> Save Brand
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,366 @@
+import React, { useMemo, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, CalendarDays, AlertTriangle, Inbox, Trash2, Hash, ExternalLink } from 'lucide-react';
+import { Persona, ScheduledPost } from '../types';
+import { getPlatformLabel } from '../services/publisher';
+import {
+  MIN_POST_SPACING_HOURS, MAX_POST_GAP_DAYS, FrequencyGap,
+  addDays, startOfDay, isSameDay, toDayKey, getWeekDays, getMonthGrid, findConflicts, findFrequencyGaps, isInGap
+} from '../lib/calendar';
+
+// Hours shown as rows in the week view; posts outside are pinned to the first/last row
+const FIRST_HOUR = 7;
+const LAST_HOUR = 22;
+const HOURS = Array.from({ length: LAST_HOUR - FIRST_HOUR + 1 }, (_, i) => FIRST_HOUR + i);
+// Dropping onto a month day keeps the post's time, or uses this for posts that weren't scheduled yet
+const DEFAULT_POST_HOUR = 12;
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Date <-> value of an <input type="datetime-local"> (local time, minute precision)
+const toInputValue = (date: Date) =>
+  `${toDayKey(date)}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const clampHour = (hour: number) => Math.min(LAST_HOUR, Math.max(FIRST_HOUR, hour));
+
+export const ContentCalendar: React.FC<{
+  posts: ScheduledPost[];
+  personas: Persona[];
+  onSchedule: (post: ScheduledPost, scheduledAt: string | null) => void;
+  onRemove: (post: ScheduledPost) => void;
+  onClose: () => void;
+}> = ({ posts, personas, onSchedule, onRemove, onClose }) => {
+  const [view, setView] = useState<'week' | 'month'>('week');
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [personaFilter, setPersonaFilter] = useState<string>('all');
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const visiblePosts = personaFilter === 'all' ? posts : posts.filter(p => p.personaId === personaFilter);
+  const scheduled = visiblePosts.filter(p => p.scheduledAt);
+  const unscheduled = visiblePosts.filter(p => !p.scheduledAt);
+  const conflicts = useMemo(() => findConflicts(posts), [posts]);
+  const gaps = useMemo(() => findFrequencyGaps(visiblePosts), [posts, personaFilter]);
+  const selectedPost = posts.find(p => p.id === selectedPostId) || null;
+
+  const getPersona = (id: string) => personas.find(p => p.id === id);
+  const getGapsOn = (day: Date): FrequencyGap[] => gaps.filter(gap => isInGap(day, gap));
+  const getPostsOn = (day: Date) => scheduled.filter(p => isSameDay(new Date(p.scheduledAt!), day));
+
+  const days = view === 'week' ? getWeekDays(cursor) : getMonthGrid(cursor);
+  const today = startOfDay(new Date());
+
+  const handleNavigate = (direction: -1 | 1) => {
+    setCursor(c => view === 'week'
+      ? addDays(c, direction * 7)
+      : new Date(c.getFullYear(), c.getMonth() + direction, 1));
+  };
+
+  const title = view === 'week'
+    ? `${days[0].toLocaleDateString([], { day: 'numeric', month: 'short' })} – ${days[6].toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' })}`
+    : cursor.toLocaleDateString([], { month: 'long', year: 'numeric' });
+
+  // --- DRAG & DROP ---
+  // The dragged post's id travels in dataTransfer; each drop target decides the new time
+
+  const handleDragStart = (e: React.DragEvent, post: ScheduledPost) => {
+    e.dataTransfer.setData('text/plain', post.id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const dropProps = (key: string, getScheduledAt: (post: ScheduledPost) => string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dropTarget !== key) setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget(t => t === key ? null : t),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const post = posts.find(p => p.id === e.dataTransfer.getData('text/plain'));
+      if (!post) return;
+      const scheduledAt = getScheduledAt(post);
+      if (scheduledAt !== post.scheduledAt) onSchedule(post, scheduledAt);
+    }
+  });
+
+  const atDayKeepingTime = (day: Date) => (post: ScheduledPost) => {
+    const previous = post.scheduledAt ? new Date(post.scheduledAt) : null;
+    const date = new Date(day.getFullYear(), day.getMonth(), day.getDate(),
+      previous ? previous.getHours() : DEFAULT_POST_HOUR, previous ? previous.getMinutes() : 0);
+    return date.toISOString();
+  };
+
+  const atHour = (day: Date, hour: number) => () =>
+    new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour).toISOString();
+
+  // --- RENDER HELPERS ---
+
+  const renderPostChip = (post: ScheduledPost, compact = false) => {
+    const persona = getPersona(post.personaId);
+    const conflict = conflicts.has(post.id);
+    return (
+      <div
+        key={post.id}
+        draggable
+        onDragStart={(e) => handleDragStart(e, post)}
+        onClick={() => setSelectedPostId(post.id)}
+        className={`flex items-center gap-2 bg-white rounded-lg border p-1.5 cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow ${conflict ? 'border-red-300 ring-2 ring-red-200' : 'border-zinc-200'}`}
+        title={conflict ? `Less than ${MIN_POST_SPACING_HOURS}h from another post by ${persona?.name || 'this persona'}` : post.title}
+      >
+        {post.imageUrls[0]
+          ? <img src={post.imageUrls[0]} className={`${compact ? 'w-6 h-6' : 'w-8 h-8'} rounded-md object-cover shrink-0`} />
+          : <div className={`${compact ? 'w-6 h-6' : 'w-8 h-8'} rounded-md bg-zinc-100 shrink-0`} />}
+        <div className="min-w-0 flex-1">
+          <p className="text-[11px] font-bold text-zinc-900 truncate">{post.title}</p>
+          <p className="text-[10px] text-zinc-500 truncate">
+            {post.scheduledAt ? `${formatTime(post.scheduledAt)} · ` : ''}{persona?.name || 'Unknown persona'}
+          </p>
+        </div>
+        {post.imageUrls.length > 1 && (
+          <span className="text-[9px] font-bold text-zinc-400 shrink-0">{post.imageUrls.length}</span>
+        )}
+        {conflict && <AlertTriangle className="w-3 h-3 text-red-500 shrink-0" />}
+      </div>
+    );
+  };
+
+  const gapTitle = (dayGaps: FrequencyGap[]) =>
+    dayGaps.map(gap => `No posts by ${getPersona(gap.personaId)?.name || 'a persona'} for over ${MAX_POST_GAP_DAYS} days`).join('\n');
+
+  const renderDayHeader = (day: Date) => {
+    const dayGaps = getGapsOn(day);
+    return (
+      <div className="flex items-center justify-between mb-1.5">
+        <span className={`text-xs font-bold w-6 h-6 flex items-center justify-center rounded-full ${isSameDay(day, today) ? 'bg-zinc-900 text-white' : 'text-zinc-600'}`}>
+          {day.getDate()}
+        </span>
+        {dayGaps.length > 0 && (
+          <span title={gapTitle(dayGaps)}>
+            <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const renderMonthView = () => (
+    <div className="grid grid-cols-7 gap-px bg-zinc-200 rounded-2xl overflow-hidden border border-zinc-200">
+      {WEEKDAY_LABELS.map(label => (
+        <div key={label} className="bg-zinc-50 text-[10px] font-bold text-zinc-500 uppercase tracking-wider text-center py-2">{label}</div>
+      ))}
+      {days.map(day => {
+        const key = toDayKey(day);
+        const outsideMonth = day.getMonth() !== cursor.getMonth();
+        const inGap = getGapsOn(day).length > 0;
+        return (
+          <div
+            key={key}
+            {...dropProps(key, atDayKeepingTime(day))}
+            className={`min-h-[110px] p-2 space-y-1 transition-colors ${dropTarget === key ? 'bg-zinc-100' : inGap ? 'bg-amber-50' : 'bg-white'} ${outsideMonth ? 'opacity-50' : ''}`}
+          >
+            {renderDayHeader(day)}
+            {getPostsOn(day).map(post => renderPostChip(post, true))}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderWeekView = () => (
+    <div className="rounded-2xl overflow-hidden border border-zinc-200 bg-zinc-200">
+      <div className="grid grid-cols-[56px_repeat(7,1fr)] gap-px">
+        <div className="bg-zinc-50" />
+        {days.map((day, i) => (
+          <div key={toDayKey(day)} className={`p-2 ${getGapsOn(day).length > 0 ? 'bg-amber-50' : 'bg-zinc-50'}`}>
+            <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">{WEEKDAY_LABELS[i]}</p>
+            {renderDayHeader(day)}
+          </div>
+        ))}
+        {HOURS.map(hour => (
+          <React.Fragment key={hour}>
+            <div className="bg-white text-[10px] font-bold text-zinc-400 text-right pr-2 pt-1">{String(hour).padStart(2, '0')}:00</div>
+            {days.map(day => {
+              const key = `${toDayKey(day)}-${hour}`;
+              const slotPosts = getPostsOn(day).filter(p => clampHour(new Date(p.scheduledAt!).getHours()) === hour);
+              return (
+                <div
+                  key={key}
+                  {...dropProps(key, atHour(day, hour))}
+                  className={`min-h-[44px] p-1 space-y-1 transition-colors ${dropTarget === key ? 'bg-zinc-100' : getGapsOn(day).length > 0 ? 'bg-amber-50/60' : 'bg-white'}`}
+                >
+                  {slotPosts.map(post => renderPostChip(post))}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderPostDetail = (post: ScheduledPost) => {
+    const persona = getPersona(post.personaId);
+    return (
+      <div className="fixed inset-0 z-[100] bg-zinc-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setSelectedPostId(null)}>
+        <div className="bg-white rounded-3xl w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl" onClick={(e) => e.stopPropagation()}>
+          <div className="p-6 border-b border-zinc-100 flex justify-between items-start gap-4">
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-zinc-900">{post.title}</h3>
+              <p className="text-sm text-zinc-500">{persona?.name || 'Unknown persona'}</p>
+            </div>
+            <button onClick={() => setSelectedPostId(null)} className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors">
+              <X className="w-4 h-4 text-zinc-600" />
+            </button>
+          </div>
+          <div className="p-6 space-y-5">
+            <div className="flex gap-2 overflow-x-auto">
+              {post.imageUrls.map(url => (
+                <img key={url} src={url} className="h-40 rounded-xl object-cover shrink-0" />
+              ))}
+            </div>
+            <p className="text-sm text-zinc-700 whitespace-pre-wrap">{post.caption}</p>
+            {post.hashtags.length > 0 && (
+              <p className="text-sm text-blue-600 flex flex-wrap gap-x-2">
+                <Hash className="w-4 h-4 text-zinc-300" />
+                {post.hashtags.map(tag => <span key={tag}>#{tag}</span>)}
+              </p>
+            )}
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">Scheduled for</label>
+              <input
+                type="datetime-local"
+                value={post.scheduledAt ? toInputValue(new Date(post.scheduledAt)) : ''}
+                onChange={(e) => onSchedule(post, e.target.value ? new Date(e.target.value).toISOString() : null)}
+                className="w-full bg-white text-zinc-900 border border-zinc-200 rounded-xl px-4 py-3 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none"
+              />
+              {conflicts.has(post.id) && (
+                <p className="text-xs text-red-600 mt-2 flex items-center gap-1.5">
+                  <AlertTriangle className="w-3.5 h-3.5" /> Less than {MIN_POST_SPACING_HOURS}h from another post by {persona?.name || 'this persona'}.
+                </p>
+              )}
+            </div>
+            {!!post.publications?.length && (
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">Published to</label>
+                <div className="space-y-2">
+                  {post.publications.map(publication => (
+                    <div key={publication.platform} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="font-medium text-zinc-700">{getPlatformLabel(publication.platform)}</span>
+                      <span className="flex items-center gap-2 min-w-0">
+                        <span className={`text-xs font-bold capitalize ${publication.status === 'failed' ? 'text-red-600' : publication.status === 'published' ? 'text-green-700' : 'text-amber-700'}`}>
+                          {publication.status}
+                        </span>
+                        {publication.remoteUrl && (
+                          <a href={publication.remoteUrl} target="_blank" rel="noreferrer" className="text-zinc-400 hover:text-zinc-900" title="Open post">
+                            <ExternalLink className="w-3.5 h-3.5" />
+                          </a>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="p-6 border-t border-zinc-100 flex justify-between gap-3">
+            <button
+              onClick={() => { onRemove(post); setSelectedPostId(null); }}
+              className="flex items-center gap-1.5 px-4 py-2.5 rounded-full text-sm font-bold text-red-600 hover:bg-red-50 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" /> Remove from calendar
+            </button>
+            {post.scheduledAt && (
+              <button
+                onClick={() => onSchedule(post, null)}
+                className="px-4 py-2.5 rounded-full text-sm font-bold text-zinc-600 bg-zinc-100 hover:bg-zinc-200 transition-colors"
+              >
+                Unschedule
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {selectedPost && renderPostDetail(selectedPost)}
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <button onClick={onClose} className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors" title="Close calendar">
+              <X className="w-5 h-5 text-zinc-600" />
+            </button>
+            <div>
+              <h2 className="text-2xl font-bold text-zinc-900 flex items-center gap-2">
+                <CalendarDays className="w-6 h-6" /> Content calendar
+              </h2>
+              <p className="text-sm text-zinc-500">Drag posts onto a day or time slot. Drop them back in the tray to unschedule.</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={personaFilter}
+              onChange={(e) => setPersonaFilter(e.target.value)}
+              className="bg-white border border-zinc-200 rounded-full px-4 py-2 text-sm font-medium text-zinc-700 outline-none"
+            >
+              <option value="all">All personas</option>
+              {personas.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <div className="flex bg-zinc-100 rounded-full p-1">
+              {(['week', 'month'] as const).map(v => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={`px-4 py-1.5 rounded-full text-xs font-bold capitalize transition-colors ${view === v ? 'bg-white text-zinc-900 shadow-sm' : 'text-zinc-500 hover:text-zinc-900'}`}
+                >
+                  {v}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              <button onClick={() => handleNavigate(-1)} className="p-2 rounded-full hover:bg-zinc-100 transition-colors">
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button onClick={() => setCursor(startOfDay(new Date()))} className="px-3 py-1.5 rounded-full text-xs font-bold text-zinc-600 hover:bg-zinc-100 transition-colors">
+                Today
+              </button>
+              <button onClick={() => handleNavigate(1)} className="p-2 rounded-full hover:bg-zinc-100 transition-colors">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          <div
+            {...dropProps('unscheduled', () => null)}
+            className={`lg:w-64 shrink-0 rounded-2xl border border-dashed p-4 space-y-2 transition-colors ${dropTarget === 'unscheduled' ? 'border-zinc-900 bg-zinc-100' : 'border-zinc-300 bg-white'}`}
+          >
+            <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2 mb-3">
+              <Inbox className="w-4 h-4" /> Unscheduled ({unscheduled.length})
+            </h3>
+            {unscheduled.length === 0 && (
+              <p className="text-xs text-zinc-400">Finished posts added from Final Review wait here.</p>
+            )}
+            {unscheduled.map(post => renderPostChip(post))}
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-zinc-900">{title}</h3>
+              <div className="flex items-center gap-4 text-[10px] font-bold text-zinc-500 uppercase tracking-wider">
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded ring-2 ring-red-200 border border-red-300" /> Conflict</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-amber-100" /> Posting gap</span>
+              </div>
+            </div>
+            {view === 'week' ? renderWeekView() : renderMonthView()}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
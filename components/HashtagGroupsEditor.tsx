@@ -0,0 +1,64 @@
+import React from 'react';
+import { Hash, Plus, Trash2 } from 'lucide-react';
+import { HashtagGroup } from '../types';
+import { createHashtagGroup, uniqueHashtags } from '../lib/hashtags';
+
+const INPUT_CLASS = "w-full bg-white text-sm text-zinc-900 border border-zinc-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all placeholder:text-zinc-300";
+
+/**
+ * Saved hashtag groups of a persona or brand, inserted into captions from Final Review.
+ */
+export const HashtagGroupsEditor: React.FC<{
+  groups: HashtagGroup[];
+  onChange: (groups: HashtagGroup[]) => void;
+}> = ({ groups, onChange }) => {
+  const update = (id: string, changes: Partial<HashtagGroup>) => {
+    onChange(groups.map(g => g.id === id ? { ...g, ...changes } : g));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+          <Hash className="w-3.5 h-3.5" /> Hashtag groups
+        </label>
+        <button
+          onClick={() => onChange([...groups, createHashtagGroup()])}
+          className="flex items-center gap-1.5 text-xs font-bold text-zinc-600 hover:text-zinc-900 transition-colors"
+        >
+          <Plus className="w-4 h-4" /> Add group
+        </button>
+      </div>
+      {groups.length === 0 && (
+        <p className="text-[11px] text-zinc-400">Save hashtag sets you reuse, then add them to any caption in Final Review.</p>
+      )}
+      <div className="space-y-3">
+        {groups.map(group => (
+          <div key={group.id} className="rounded-xl border border-zinc-200 bg-white p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={group.name}
+                onChange={(e) => update(group.id, { name: e.target.value })}
+                className={INPUT_CLASS}
+                placeholder="Group name, e.g. Coffee mornings"
+              />
+              <button onClick={() => onChange(groups.filter(g => g.id !== group.id))} className="text-zinc-300 hover:text-red-500 transition-colors" title="Remove group">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <input
+              // Normalised on blur so typing separators isn't fought; remounts when the tags change
+              key={group.hashtags.join(' ')}
+              type="text"
+              defaultValue={group.hashtags.map(tag => `#${tag}`).join(' ')}
+              onBlur={(e) => update(group.id, { hashtags: uniqueHashtags(e.target.value.split(/[\s,]+/)) })}
+              className={INPUT_CLASS}
+              placeholder="#specialtycoffee #coffeetime #morningritual"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
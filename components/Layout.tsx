@@ -1,5 +1,7 @@
 import React from 'react';
 import { Layers } from 'lucide-react';
+import { aiProvider } from '../services/aiProvider';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 
 export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   return (
@@ -15,11 +17,11 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
               <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Studio</span>
             </div>
           </div>
-          <div className="hidden md:flex items-center gap-6">
-            <div className="text-xs font-medium px-3 py-1 rounded-full bg-zinc-100 text-zinc-500">
-              Gemini 3 Pro Active
+          <div className="flex items-center gap-6">
+            <div className="hidden md:block text-xs font-medium px-3 py-1 rounded-full bg-zinc-100 text-zinc-500">
+              {aiProvider.label} Active
             </div>
-            <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-zinc-200 to-zinc-100 border border-white shadow-sm"></div>
+            <WorkspaceSwitcher />
           </div>
         </div>
       </header>
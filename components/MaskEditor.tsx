@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Brush, Square, Eraser, Check } from 'lucide-react';
+
+const MASK_COLOR = 'rgba(239, 68, 68, 0.5)';
+
+// Converts the painted overlay into a black/white PNG (white = area the model may change)
+const exportMask = (canvas: HTMLCanvasElement): string | null => {
+  const ctx = canvas.getContext('2d')!;
+  const painted = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const out = document.createElement('canvas');
+  out.width = canvas.width;
+  out.height = canvas.height;
+  const outCtx = out.getContext('2d')!;
+  const mask = outCtx.createImageData(canvas.width, canvas.height);
+
+  let hasPaint = false;
+  for (let i = 0; i < painted.data.length; i += 4) {
+    const value = painted.data[i + 3] > 0 ? 255 : 0;
+    if (value) hasPaint = true;
+    mask.data[i] = mask.data[i + 1] = mask.data[i + 2] = value;
+    mask.data[i + 3] = 255;
+  }
+  if (!hasPaint) return null;
+
+  outCtx.putImageData(mask, 0, 0);
+  return out.toDataURL('image/png').split(',')[1];
+};
+
+export const MaskEditor: React.FC<{
+  imageUrl: string;
+  onSave: (mask: string | null) => void;
+  onClose: () => void;
+}> = ({ imageUrl, onSave, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<'brush' | 'rect'>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+
+  const drawing = useRef(false);
+  const start = useRef({ x: 0, y: 0 });
+  const snapshot = useRef<ImageData | null>(null);
+
+  // Size the canvas to the image's natural resolution so the mask lines up pixel for pixel
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = imageUrl;
+  }, [imageUrl]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const scaledBrush = () => {
+    const canvas = canvasRef.current!;
+    return brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    const point = toCanvasPoint(e);
+    drawing.current = true;
+    start.current = point;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (tool === 'rect') {
+      snapshot.current = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+    } else {
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, scaledBrush() / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = canvasRef.current!.getContext('2d')!;
+    const point = toCanvasPoint(e);
+
+    if (tool === 'rect') {
+      ctx.putImageData(snapshot.current!, 0, 0);
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(start.current.x, start.current.y, point.x - start.current.x, point.y - start.current.y);
+    } else {
+      ctx.strokeStyle = MASK_COLOR;
+      ctx.lineWidth = scaledBrush();
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.moveTo(start.current.x, start.current.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+      start.current = point;
+    }
+  };
+
+  const handlePointerUp = () => {
+    drawing.current = false;
+    snapshot.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-zinc-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl w-full max-w-xl max-h-[90vh] overflow-y-auto shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-6 border-b border-zinc-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-bold text-zinc-900">Select edit area</h3>
+            <p className="text-zinc-500 text-sm mt-1">Only the painted region will be changed.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors">
+            <X className="w-5 h-5 text-zinc-600" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setTool('brush')}
+              className={`p-2 rounded-xl transition-colors ${tool === 'brush' ? 'bg-zinc-900 text-white' : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'}`}
+              title="Brush"
+            >
+              <Brush className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setTool('rect')}
+              className={`p-2 rounded-xl transition-colors ${tool === 'rect' ? 'bg-zinc-900 text-white' : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'}`}
+              title="Rectangle"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+            {tool === 'brush' && (
+              <input
+                type="range"
+                min={10}
+                max={120}
+                value={brushSize}
+                onChange={(e) => setBrushSize(Number(e.target.value))}
+                className="flex-1 accent-zinc-900"
+              />
+            )}
+            <button
+              onClick={clearMask}
+              className="ml-auto p-2 rounded-xl bg-zinc-100 text-zinc-600 hover:bg-zinc-200 transition-colors"
+              title="Clear"
+            >
+              <Eraser className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="relative rounded-2xl overflow-hidden bg-zinc-100">
+            <img src={imageUrl} className="w-full h-auto block select-none" draggable={false} />
+            {size && (
+              <canvas
+                ref={canvasRef}
+                width={size.width}
+                height={size.height}
+                className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-zinc-100 flex justify-end gap-3 bg-zinc-50/50 rounded-b-3xl">
+          <button
+            onClick={onClose}
+            className="px-6 py-3 rounded-full text-zinc-600 font-medium hover:bg-zinc-200/50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(canvasRef.current ? exportMask(canvasRef.current) : null)}
+            className="px-6 py-3 rounded-full bg-zinc-900 text-white font-medium hover:bg-zinc-800 transition-all shadow-lg shadow-zinc-900/10 flex items-center"
+          >
+            <Check className="w-4 h-4 mr-2" />
+            Use Mask
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Shirt } from 'lucide-react';
+import { PersonaStyle } from '../types';
+import { PERSONA_STYLE_LIST_FIELDS, PERSONA_STYLE_TEXT_FIELDS, getPersonaStyle, parseStyleList } from '../lib/personaStyle';
+
+const INPUT_CLASS = "w-full bg-white text-sm text-zinc-900 border border-zinc-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all placeholder:text-zinc-300";
+
+/**
+ * The persona's style guide. Every image prompt includes it, so the look stays the same across campaigns.
+ */
+export const PersonaStyleEditor: React.FC<{
+  style?: PersonaStyle;
+  onChange: (style: PersonaStyle) => void;
+}> = ({ style, onChange }) => {
+  const current = getPersonaStyle(style);
+
+  return (
+    <div>
+      <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+        <Shirt className="w-3.5 h-3.5" /> Style guide
+      </label>
+      <p className="text-[11px] text-zinc-400 mb-3">Added to every image prompt. Auto-Fill with AI reads it from the photos and keeps what you wrote.</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {PERSONA_STYLE_TEXT_FIELDS.map(field => (
+          <div key={field.key}>
+            <span className="block text-[10px] font-bold text-zinc-400 uppercase tracking-wider mb-1">{field.label}</span>
+            <input
+              type="text"
+              value={current[field.key]}
+              onChange={(e) => onChange({ ...current, [field.key]: e.target.value })}
+              className={INPUT_CLASS}
+              placeholder={field.placeholder}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="space-y-3 mt-3">
+        {PERSONA_STYLE_LIST_FIELDS.map(field => (
+          <div key={field.key}>
+            <span className="block text-[10px] font-bold text-zinc-400 uppercase tracking-wider mb-1">{field.label}</span>
+            <input
+              // Split on blur so typing commas isn't fought; remounts when the list changes
+              key={current[field.key].join(', ')}
+              type="text"
+              defaultValue={current[field.key].join(', ')}
+              onBlur={(e) => onChange({ ...current, [field.key]: parseStyleList(e.target.value) })}
+              className={INPUT_CLASS}
+              placeholder={field.placeholder}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { MessageSquareQuote, Loader2, Sparkles } from 'lucide-react';
+import { VoiceProfile } from '../types';
+import { MAX_VOICE_SAMPLES, MIN_VOICE_SAMPLES, formatVoiceSamples, parseVoiceSamples } from '../lib/voice';
+
+const ProfileRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-3 text-xs">
+    <span className="w-28 shrink-0 font-bold text-zinc-400 uppercase tracking-wider text-[10px] pt-0.5">{label}</span>
+    <span className="text-zinc-700">{children}</span>
+  </div>
+);
+
+/**
+ * Sample captions of a persona and the voice profile learned from them, which the caption writer follows.
+ */
+export const PersonaVoiceEditor: React.FC<{
+  samples: string[];
+  profile?: VoiceProfile;
+  learning: boolean;
+  onChangeSamples: (samples: string[]) => void;
+  onLearn: () => void;
+}> = ({ samples, profile, learning, onChangeSamples, onLearn }) => {
+  const handleBlur = (text: string) => {
+    const parsed = parseVoiceSamples(text);
+    // Leaving the field without editing must not count as a change (that would discard the profile)
+    if (formatVoiceSamples(parsed) !== formatVoiceSamples(samples)) onChangeSamples(parsed);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+          <MessageSquareQuote className="w-3.5 h-3.5" /> Voice
+        </label>
+        <button
+          onClick={onLearn}
+          disabled={learning}
+          className="flex items-center gap-1.5 text-xs font-bold text-purple-700 hover:text-purple-900 transition-colors disabled:opacity-40"
+        >
+          {learning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+          {learning ? 'Learning voice...' : profile ? 'Relearn voice' : 'Learn voice'}
+        </button>
+      </div>
+      <p className="text-[11px] text-zinc-400 mb-3">
+        Paste {MIN_VOICE_SAMPLES}-{MAX_VOICE_SAMPLES} captions or posts in the persona's own words, separated by a blank line. Captions are then written in this voice.
+      </p>
+      <textarea
+        // Parsed on blur so blank lines can be typed; remounts when the samples change
+        key={formatVoiceSamples(samples)}
+        defaultValue={formatVoiceSamples(samples)}
+        onBlur={(e) => handleBlur(e.target.value)}
+        className="w-full bg-white text-sm text-zinc-900 border border-zinc-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all placeholder:text-zinc-300 min-h-[120px]"
+        rows={5}
+        placeholder={"ok but who decided ferries should leave this early ☕️\n\nSplit, you did it again. Not leaving."}
+      />
+      <p className="text-[10px] font-medium text-zinc-400 mt-1">{samples.length}/{MAX_VOICE_SAMPLES} samples</p>
+
+      {profile && (
+        <div className="mt-3 rounded-xl border border-zinc-200 bg-zinc-50 p-4 space-y-2">
+          <p className="text-sm text-zinc-800">{profile.summary}</p>
+          {profile.vocabulary.length > 0 && <ProfileRow label="Vocabulary">{profile.vocabulary.join(', ')}</ProfileRow>}
+          {profile.emojiUsage && <ProfileRow label="Emoji">{profile.emojiUsage}</ProfileRow>}
+          {profile.sentenceLength && <ProfileRow label="Sentences">{profile.sentenceLength}</ProfileRow>}
+          {profile.languageMix && <ProfileRow label="Languages">{profile.languageMix}</ProfileRow>}
+          {profile.recurringPhrases.length > 0 && (
+            <ProfileRow label="Phrases">{profile.recurringPhrases.map(p => `"${p}"`).join(', ')}</ProfileRow>
+          )}
+          <p className="text-[10px] text-zinc-400 pt-1">
+            Learned from {profile.sampleCount} samples on {new Date(profile.learnedAt).toLocaleDateString()}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
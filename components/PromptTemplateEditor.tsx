@@ -0,0 +1,222 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Save, Pin, PinOff, Loader2, AlertCircle, FileText } from 'lucide-react';
+import { PromptTemplate, PromptTemplateKey, PromptTemplatePin } from '../types';
+import {
+  PROMPT_TEMPLATE_DEFINITIONS, getPromptTemplateDefinition, getTemplateVersions, resolvePromptTemplate,
+  renderPromptTemplate, findUnknownVariables, getSampleVariables, isBuiltInTemplate
+} from '../lib/promptTemplates';
+
+/**
+ * Browses the versions of every prompt template, saves edits as a new version and pins the version
+ * the workspace should use. The preview renders the draft with sample values.
+ */
+export const PromptTemplateEditor: React.FC<{
+  templates: PromptTemplate[];
+  pins: PromptTemplatePin[];
+  initialKey?: PromptTemplateKey;
+  onSaveVersion: (key: PromptTemplateKey, body: string, note: string) => Promise<PromptTemplate>;
+  onPin: (key: PromptTemplateKey, version: number | null) => Promise<void>;
+  onClose: () => void;
+}> = ({ templates, pins, initialKey, onSaveVersion, onPin, onClose }) => {
+  const [key, setKey] = useState<PromptTemplateKey>(initialKey || PROMPT_TEMPLATE_DEFINITIONS[0].key);
+  const [version, setVersion] = useState(() => resolvePromptTemplate(key, templates, pins).version);
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const definition = getPromptTemplateDefinition(key);
+  const versions = getTemplateVersions(key, templates);
+  const selected = versions.find(t => t.version === version) || versions[0];
+  const active = resolvePromptTemplate(key, templates, pins);
+  const pin = pins.find(p => p.key === key);
+  const unknownVariables = findUnknownVariables(key, draft);
+  const changed = draft !== selected.body;
+
+  // Start every version from its own text; unsaved edits are dropped when switching
+  useEffect(() => {
+    setDraft(selected.body);
+    setNote('');
+  }, [key, selected.id]);
+
+  const selectTemplate = (next: PromptTemplateKey) => {
+    if (changed && !window.confirm('Discard your unsaved changes to this template?')) return;
+    setKey(next);
+    setVersion(resolvePromptTemplate(next, templates, pins).version);
+  };
+
+  const selectVersion = (next: number) => {
+    if (changed && !window.confirm('Discard your unsaved changes to this template?')) return;
+    setVersion(next);
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    const placeholder = `{{${name}}}`;
+    if (!textarea) {
+      setDraft(d => d + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setDraft(d => d.slice(0, selectionStart) + placeholder + d.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await onSaveVersion(key, draft, note);
+      setVersion(saved.version);
+    } catch (err) {
+      console.error("Failed to save prompt template", err);
+      alert("Failed to save the template. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePin = async (nextVersion: number | null) => {
+    try {
+      await onPin(key, nextVersion);
+    } catch (err) {
+      console.error("Failed to pin prompt template", err);
+      alert("Failed to update the pinned version. Please try again.");
+    }
+  };
+
+  const formatVersion = (template: PromptTemplate) =>
+    `v${template.version}${isBuiltInTemplate(template) ? ' · built-in' : template.note ? ` · ${template.note}` : ''}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-zinc-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl w-full max-w-6xl h-[90vh] flex flex-col shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-8 border-b border-zinc-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-zinc-900">Prompt Templates</h3>
+            <p className="text-zinc-500 text-sm mt-1">Edits are saved as a new version. The workspace uses the pinned version, or the newest one.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors">
+            <X className="w-5 h-5 text-zinc-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-64 shrink-0 border-r border-zinc-100 p-4 space-y-1 overflow-y-auto">
+            {PROMPT_TEMPLATE_DEFINITIONS.map(d => {
+              const current = resolvePromptTemplate(d.key, templates, pins);
+              const pinned = pins.some(p => p.key === d.key);
+              return (
+                <button
+                  key={d.key}
+                  onClick={() => selectTemplate(d.key)}
+                  className={`w-full text-left px-4 py-3 rounded-xl transition-colors ${d.key === key ? 'bg-zinc-900 text-white' : 'hover:bg-zinc-100 text-zinc-700'}`}
+                >
+                  <span className="flex items-center gap-2 text-sm font-bold">
+                    <FileText className="w-4 h-4 shrink-0" /> {d.label}
+                  </span>
+                  <span className={`text-[11px] font-medium flex items-center gap-1 mt-0.5 ${d.key === key ? 'text-zinc-300' : 'text-zinc-400'}`}>
+                    v{current.version} {pinned ? <><Pin className="w-3 h-3" /> pinned</> : '· latest'}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 min-h-0">
+            <div className="p-6 flex flex-col gap-4 min-h-0 border-r border-zinc-100">
+              <p className="text-sm text-zinc-500">{definition.description}</p>
+              <div className="flex items-center gap-2">
+                <select
+                  value={selected.version}
+                  onChange={(e) => selectVersion(Number(e.target.value))}
+                  className="flex-1 min-w-0 bg-zinc-50 border border-zinc-200 text-zinc-700 text-xs font-bold rounded-lg px-3 py-2 outline-none cursor-pointer"
+                >
+                  {versions.map(t => (
+                    <option key={t.id} value={t.version}>
+                      {formatVersion(t)}{t.version === active.version ? ' (in use)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {pin?.version === selected.version ? (
+                  <button
+                    onClick={() => handlePin(null)}
+                    className="flex items-center gap-1.5 text-xs font-bold px-3 py-2 rounded-lg border border-zinc-900 text-zinc-900 hover:bg-zinc-100 transition-colors"
+                    title="Use the newest version again"
+                  >
+                    <PinOff className="w-3.5 h-3.5" /> Unpin
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handlePin(selected.version)}
+                    className="flex items-center gap-1.5 text-xs font-bold px-3 py-2 rounded-lg border border-zinc-200 text-zinc-600 hover:border-zinc-900 hover:text-zinc-900 transition-colors"
+                    title="Always use this version in this workspace"
+                  >
+                    <Pin className="w-3.5 h-3.5" /> Pin v{selected.version}
+                  </button>
+                )}
+              </div>
+
+              <textarea
+                ref={textareaRef}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                spellCheck={false}
+                className="flex-1 min-h-[200px] w-full bg-zinc-50 text-xs font-mono text-zinc-800 leading-relaxed border border-zinc-200 rounded-xl p-4 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none resize-none"
+              />
+
+              <div>
+                <p className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider mb-2">Variables</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {definition.variables.map(v => (
+                    <button
+                      key={v.name}
+                      onClick={() => insertVariable(v.name)}
+                      title={v.description}
+                      className="text-[11px] font-mono font-bold text-zinc-600 bg-white border border-zinc-200 rounded-md px-2 py-0.5 hover:border-zinc-900 transition-colors"
+                    >
+                      {`{{${v.name}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {unknownVariables.length > 0 && (
+                <p className="flex items-center gap-1.5 text-xs font-bold text-amber-600">
+                  <AlertCircle className="w-3.5 h-3.5" /> Unknown variables render empty: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+                </p>
+              )}
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="flex-1 min-w-0 bg-white text-sm text-zinc-900 border border-zinc-200 rounded-lg px-3 py-2 focus:border-zinc-900 outline-none placeholder:text-zinc-300"
+                  placeholder="What changed? e.g. Warmer tone, shorter hooks"
+                />
+                <button
+                  onClick={handleSave}
+                  disabled={!changed || !draft.trim() || saving}
+                  className="bg-zinc-900 text-white px-5 py-2 rounded-full text-sm font-bold hover:bg-black disabled:opacity-50 transition-colors flex items-center gap-2 shrink-0"
+                >
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Save as v{Math.max(...versions.map(t => t.version)) + 1}
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 flex flex-col min-h-0">
+              <p className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider mb-2">Preview with sample values</p>
+              <pre className="flex-1 overflow-y-auto whitespace-pre-wrap text-xs text-zinc-700 leading-relaxed bg-white border border-dashed border-zinc-200 rounded-xl p-4 font-sans">
+                {renderPromptTemplate(draft, getSampleVariables(key))}
+              </pre>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React from 'react';
+import { X, Fingerprint } from 'lucide-react';
+import { Provenance } from '../types';
+import { getPromptTemplateDefinition } from '../lib/promptTemplates';
+import { isReferenceUrl } from '../lib/provenance';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <p className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider mb-1">{label}</p>
+    <div className="text-sm text-zinc-800">{children}</div>
+  </div>
+);
+
+/**
+ * Everything recorded about how one artifact was made. Also used for the entries of the audit log.
+ */
+export const ProvenanceDetails: React.FC<{ provenance: Provenance }> = ({ provenance }) => {
+  const parameters = Object.entries(provenance.parameters || {});
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <Field label="Model">
+          <span className="font-mono text-xs">{provenance.model}</span>
+          <span className="text-zinc-400 text-xs"> · {provenance.provider}</span>
+        </Field>
+        <Field label="Template">
+          {provenance.template
+            ? `${getPromptTemplateDefinition(provenance.template.key)?.label || provenance.template.key} v${provenance.template.version}`
+            : <span className="text-zinc-400">None (image prompt)</span>}
+        </Field>
+        <Field label="Created">{new Date(provenance.createdAt).toLocaleString()}</Field>
+        <Field label="By">{provenance.userEmail || provenance.userId || <span className="text-zinc-400">Unknown</span>}</Field>
+      </div>
+
+      {parameters.length > 0 && (
+        <Field label="Parameters">
+          <div className="flex flex-wrap gap-1.5">
+            {parameters.map(([name, value]) => (
+              <span key={name} className="text-[11px] font-medium text-zinc-600 bg-zinc-100 rounded-md px-2 py-0.5">
+                {name}: <span className="font-bold text-zinc-900">{String(value)}</span>
+              </span>
+            ))}
+          </div>
+        </Field>
+      )}
+
+      {provenance.referenceImages.length > 0 && (
+        <Field label={`Reference images (${provenance.referenceImages.length})`}>
+          <div className="flex flex-wrap gap-2">
+            {provenance.referenceImages.map((reference, i) => isReferenceUrl(reference) ? (
+              <a key={i} href={reference} target="_blank" rel="noreferrer" title={reference}>
+                <img src={reference} alt="" className="w-14 h-14 rounded-lg object-cover border border-zinc-200 hover:border-zinc-900 transition-colors" />
+              </a>
+            ) : (
+              <span key={i} className="text-[11px] font-mono text-zinc-500 bg-zinc-50 border border-zinc-200 rounded-md px-2 py-1 self-center" title="Only stored in the browser that made it">
+                {reference}
+              </span>
+            ))}
+          </div>
+        </Field>
+      )}
+
+      <Field label="Prompt">
+        <pre className="max-h-72 overflow-y-auto whitespace-pre-wrap text-xs text-zinc-700 leading-relaxed bg-zinc-50 border border-zinc-200 rounded-xl p-3 font-mono">
+          {provenance.prompt}
+        </pre>
+      </Field>
+    </div>
+  );
+};
+
+/**
+ * "Inspect" panel of an idea, requirement, image or caption card. Images list one record per version.
+ */
+export const ProvenancePanel: React.FC<{
+  title: string;
+  records: { label: string; provenance?: Provenance }[];
+  onClose: () => void;
+}> = ({ title, records, onClose }) => (
+  <div className="fixed inset-0 z-[100] bg-zinc-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+    <div
+      className="bg-white rounded-3xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl animate-in fade-in zoom-in-95 duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="p-6 border-b border-zinc-100 flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <h3 className="text-xl font-bold text-zinc-900 flex items-center gap-2">
+            <Fingerprint className="w-5 h-5" /> Provenance
+          </h3>
+          <p className="text-zinc-500 text-sm mt-1 truncate">{title}</p>
+        </div>
+        <button onClick={onClose} className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors shrink-0">
+          <X className="w-5 h-5 text-zinc-600" />
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-6 space-y-8">
+        {records.map((record, i) => (
+          <div key={i}>
+            {records.length > 1 && <h4 className="text-sm font-bold text-zinc-900 mb-3">{record.label}</h4>}
+            {record.provenance
+              ? <ProvenanceDetails provenance={record.provenance} />
+              : <p className="text-sm text-zinc-400">Not recorded. This was made before provenance tracking was added.</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
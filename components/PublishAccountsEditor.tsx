@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Send, Loader2, CheckCircle2 } from 'lucide-react';
+import { PublishAccount, PublishPlatform } from '../types';
+import { PUBLISH_PLATFORMS, getMissingCredentials } from '../services/publisher';
+
+const INPUT_CLASS = "w-full bg-white text-sm text-zinc-900 border border-zinc-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none transition-all placeholder:text-zinc-300";
+
+// Credential fields each platform needs, in display order
+const FIELDS: Record<PublishPlatform, { key: keyof Omit<PublishAccount, 'platform'>; placeholder: string; secret?: boolean }[]> = {
+  instagram: [
+    { key: 'accountId', placeholder: 'Instagram account id (e.g. 17841400000000000)' },
+    { key: 'accessToken', placeholder: 'Access token', secret: true },
+  ],
+  tiktok: [
+    { key: 'accessToken', placeholder: 'Access token', secret: true },
+  ],
+  local: [
+    { key: 'webhookUrl', placeholder: 'Webhook URL (optional, otherwise writes to the publish folder)' },
+  ],
+};
+
+/**
+ * Per-persona publishing accounts, one per platform. Credentials go straight to the server; afterwards the app
+ * only knows that the platform is connected.
+ */
+export const PublishAccountsEditor: React.FC<{
+  personaId?: string; // unsaved personas can't connect accounts yet
+  connected: PublishPlatform[];
+  onConnect: (platform: PublishPlatform, account: PublishAccount | null) => Promise<void>;
+}> = ({ personaId, connected, onConnect }) => {
+  const [drafts, setDrafts] = useState<Partial<Record<PublishPlatform, PublishAccount>>>({});
+  const [busy, setBusy] = useState<PublishPlatform | null>(null);
+
+  const update = (platform: PublishPlatform, changes: Partial<PublishAccount>) => {
+    setDrafts(d => ({ ...d, [platform]: { ...d[platform], ...changes, platform } }));
+  };
+
+  const submit = async (platform: PublishPlatform, account: PublishAccount | null) => {
+    const missing = account && getMissingCredentials(account);
+    if (missing) {
+      alert(missing);
+      return;
+    }
+    setBusy(platform);
+    try {
+      await onConnect(platform, account);
+      setDrafts(d => ({ ...d, [platform]: undefined }));
+    } catch (err: any) {
+      console.error(`Failed to update the ${platform} account`, err);
+      alert(`Could not update the account: ${err?.message || err}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Send className="w-3.5 h-3.5" /> Publishing accounts
+      </label>
+      {!personaId ? (
+        <p className="text-sm text-zinc-400">Save the persona first, then connect its accounts.</p>
+      ) : (
+        <div className="space-y-3">
+          {PUBLISH_PLATFORMS.map(({ id, label }) => {
+            const isConnected = connected.includes(id);
+            const draft = drafts[id];
+            return (
+              <div key={id} className={`rounded-xl border p-3 transition-colors ${isConnected || draft ? 'border-zinc-300 bg-white' : 'border-zinc-100 bg-zinc-50'}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <span className="flex items-center gap-2 text-sm font-bold text-zinc-700">
+                    {label}
+                    {isConnected && <span className="flex items-center gap-1 text-[10px] font-bold text-emerald-600 uppercase tracking-wider"><CheckCircle2 className="w-3 h-3" /> Connected</span>}
+                  </span>
+                  <div className="flex items-center gap-3">
+                    {busy === id && <Loader2 className="w-3.5 h-3.5 animate-spin text-zinc-400" />}
+                    {!draft && (
+                      <button
+                        onClick={() => update(id, {})}
+                        disabled={!!busy}
+                        className="text-xs font-bold text-zinc-600 hover:text-zinc-900 disabled:opacity-40"
+                      >
+                        {isConnected ? 'Replace' : 'Connect'}
+                      </button>
+                    )}
+                    {isConnected && !draft && (
+                      <button
+                        onClick={() => submit(id, null)}
+                        disabled={!!busy}
+                        className="text-xs font-bold text-red-600 hover:text-red-800 disabled:opacity-40"
+                      >
+                        Disconnect
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {draft && (
+                  <div className="mt-3 space-y-2">
+                    {FIELDS[id].map(field => (
+                      <input
+                        key={field.key}
+                        type={field.secret ? 'password' : 'text'}
+                        autoComplete="off"
+                        value={draft[field.key] || ''}
+                        onChange={(e) => update(id, { [field.key]: e.target.value })}
+                        className={INPUT_CLASS}
+                        placeholder={field.placeholder}
+                      />
+                    ))}
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => setDrafts(d => ({ ...d, [id]: undefined }))}
+                        className="text-xs font-bold text-zinc-500 hover:text-zinc-900"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => submit(id, draft)}
+                        disabled={!!busy}
+                        className="text-xs font-bold bg-zinc-900 text-white px-4 py-1.5 rounded-lg hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                      >
+                        Save account
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <p className="text-[11px] text-zinc-400 mt-2">Credentials are kept on the server and can't be read back, only replaced or disconnected.</p>
+    </div>
+  );
+};
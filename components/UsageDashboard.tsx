@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { X, Gauge, Loader2 } from 'lucide-react';
+import { Persona, UsageEvent } from '../types';
+import { formatCost } from '../lib/pricing';
+import { UsageTotals, groupUsage, sumUsage } from '../services/usageService';
+
+const OPERATION_LABELS: Record<string, string> = {
+  enhancePersonaProfile: 'Persona profiles',
+  analyzePersonaVoice: 'Voice profiles',
+  generateManualVariants: 'Ideas',
+  generateAutoTrends: 'Trend ideas',
+  analyzeIdeaRequirements: 'Requirements',
+  planCarouselSlides: 'Carousel plans',
+  generateUGCImage: 'Images',
+  generateCarouselImages: 'Carousels',
+  regenerateImage: 'Regenerations',
+  editImageWithChat: 'Edits',
+  scoreIdentityConsistency: 'Identity checks',
+  generateCaptionStrategy: 'Captions',
+};
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${Math.round(tokens / 1000)}K` : String(tokens);
+
+const BreakdownTable: React.FC<{ title: string; rows: [string, UsageTotals][]; total: number }> = ({ title, rows, total }) => (
+  <div>
+    <h4 className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider mb-3">{title}</h4>
+    {rows.length === 0 ? (
+      <p className="text-sm text-zinc-400">Nothing yet.</p>
+    ) : (
+      <div className="space-y-2">
+        {rows.map(([label, totals]) => (
+          <div key={label} className="flex items-center gap-3 text-sm">
+            <span className="flex-1 min-w-0 truncate text-zinc-800">{label}</span>
+            <span className="text-xs text-zinc-400 shrink-0">{totals.images > 0 ? `${totals.images} img · ` : ''}{totals.operations} runs</span>
+            <div className="w-20 h-1.5 bg-zinc-100 rounded-full overflow-hidden shrink-0">
+              <div className="h-full bg-zinc-900" style={{ width: `${total > 0 ? (totals.cost / total) * 100 : 0}%` }} />
+            </div>
+            <span className="w-16 text-right font-bold text-zinc-900 shrink-0">{formatCost(totals.cost)}</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Estimated AI spend of the active workspace this month against its budget, broken down by persona,
+ * operation and teammate. Owners can change the budget here.
+ */
+export const UsageDashboard: React.FC<{
+  events: UsageEvent[];
+  loading: boolean;
+  budget: number | null;
+  canEditBudget: boolean;
+  personas: Persona[];
+  onSetBudget: (amount: number | null) => Promise<void>;
+  onClose: () => void;
+}> = ({ events, loading, budget, canEditBudget, personas, onSetBudget, onClose }) => {
+  const [budgetInput, setBudgetInput] = useState(budget ? String(budget) : '');
+  const [saving, setSaving] = useState(false);
+
+  const totals = sumUsage(events);
+  const share = budget ? Math.min(totals.cost / budget, 1) : 0;
+  const month = new Date().toLocaleDateString([], { month: 'long', year: 'numeric' });
+
+  const byPersona = groupUsage(events, e => e.personaId)
+    .map(([id, t]): [string, UsageTotals] => [personas.find(p => p.id === id)?.name || (id ? 'Deleted persona' : 'No persona'), t]);
+  const byOperation = groupUsage(events, e => e.operation)
+    .map(([op, t]): [string, UsageTotals] => [OPERATION_LABELS[op] || op, t]);
+  const byUser = groupUsage(events, e => e.userEmail)
+    .map(([email, t]): [string, UsageTotals] => [email || 'Unknown', t]);
+
+  const handleSaveBudget = async () => {
+    const amount = Number(budgetInput);
+    if (budgetInput.trim() && !(amount > 0)) {
+      alert("Enter a budget above zero, or leave it empty for no limit.");
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSetBudget(budgetInput.trim() ? amount : null);
+    } catch (err: any) {
+      console.error("Failed to save budget", err);
+      alert(`Could not save the budget: ${err?.message || err}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-zinc-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl w-full max-w-4xl max-h-[90vh] flex flex-col shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-8 border-b border-zinc-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-zinc-900 flex items-center gap-2"><Gauge className="w-6 h-6" /> Usage</h3>
+            <p className="text-zinc-500 text-sm mt-1">Estimated AI cost of this workspace in {month}, from the tokens and images each run used.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors">
+            <X className="w-5 h-5 text-zinc-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          <div className="bg-zinc-50 border border-zinc-200 rounded-2xl p-6">
+            <div className="flex items-end justify-between gap-4 mb-4">
+              <div>
+                <p className="text-3xl font-bold text-zinc-900 flex items-center gap-2">
+                  {formatCost(totals.cost)}
+                  {loading && <Loader2 className="w-5 h-5 animate-spin text-zinc-400" />}
+                </p>
+                <p className="text-sm text-zinc-500 mt-1">{budget ? `of ${formatCost(budget)} monthly budget` : 'No monthly budget set'}</p>
+              </div>
+              <div className="text-right text-xs text-zinc-500 space-y-0.5">
+                <p><span className="font-bold text-zinc-900">{totals.images}</span> images</p>
+                <p><span className="font-bold text-zinc-900">{formatTokens(totals.inputTokens)}</span> input · <span className="font-bold text-zinc-900">{formatTokens(totals.outputTokens)}</span> output tokens</p>
+              </div>
+            </div>
+            {budget && (
+              <div className="h-2 bg-zinc-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-zinc-900'}`}
+                  style={{ width: `${share * 100}%` }}
+                />
+              </div>
+            )}
+            {canEditBudget && (
+              <div className="flex items-center gap-2 mt-5">
+                <span className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Monthly budget $</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  placeholder="No limit"
+                  className="w-32 bg-white text-sm text-zinc-900 border border-zinc-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-zinc-900/10 focus:border-zinc-900 outline-none"
+                />
+                <button
+                  onClick={handleSaveBudget}
+                  disabled={saving}
+                  className="text-xs font-bold bg-zinc-900 text-white px-4 py-2 rounded-lg hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <BreakdownTable title="By persona" rows={byPersona} total={totals.cost} />
+            <BreakdownTable title="By operation" rows={byOperation} total={totals.cost} />
+            <BreakdownTable title="By teammate" rows={byUser} total={totals.cost} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { X, Columns, SplitSquareHorizontal } from 'lucide-react';
+import { GeneratedImage } from '../types';
+import { getVersions, getCurrentVersion, getVersionLabel } from '../lib/imageVersions';
+import { toCssAspectRatio } from '../lib/formats';
+
+export const VersionCompare: React.FC<{ image: GeneratedImage; onClose: () => void }> = ({ image, onClose }) => {
+  const versions = getVersions(image);
+  const current = getCurrentVersion(image);
+
+  const [leftId, setLeftId] = useState(current.parentId || versions[0].id);
+  const [rightId, setRightId] = useState(current.id);
+  const [mode, setMode] = useState<'slider' | 'side'>('slider');
+  const [split, setSplit] = useState(50);
+
+  const aspectRatio = toCssAspectRatio(image.aspectRatio);
+  const left = versions.find(v => v.id === leftId) || versions[0];
+  const right = versions.find(v => v.id === rightId) || current;
+
+  const renderPicker = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-white text-zinc-900 border border-zinc-200 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-zinc-900/10 cursor-pointer max-w-[220px]"
+    >
+      {versions.map(v => (
+        <option key={v.id} value={v.id}>
+          {getVersionLabel(image, v.id)} · {v.instruction || 'Original'}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-zinc-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-6 border-b border-zinc-100 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            {renderPicker(leftId, setLeftId)}
+            <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">vs</span>
+            {renderPicker(rightId, setRightId)}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setMode(mode === 'slider' ? 'side' : 'slider')}
+              className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors"
+              title={mode === 'slider' ? 'Side by side' : 'Slider'}
+            >
+              {mode === 'slider' ? <Columns className="w-5 h-5 text-zinc-600" /> : <SplitSquareHorizontal className="w-5 h-5 text-zinc-600" />}
+            </button>
+            <button onClick={onClose} className="p-2 bg-zinc-100 rounded-full hover:bg-zinc-200 transition-colors">
+              <X className="w-5 h-5 text-zinc-600" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {mode === 'side' ? (
+            <div className="grid grid-cols-2 gap-4">
+              {[left, right].map((v, i) => (
+                <div key={`${v.id}-${i}`} className="space-y-2">
+                  <div className="bg-zinc-100 rounded-2xl overflow-hidden" style={{ aspectRatio }}>
+                    <img src={v.imageUrl} className="w-full h-full object-cover" />
+                  </div>
+                  <p className="text-xs text-zinc-500 font-medium">{getVersionLabel(image, v.id)} · {v.instruction || 'Original'}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="max-w-md mx-auto">
+              <div className="bg-zinc-100 rounded-2xl overflow-hidden relative select-none" style={{ aspectRatio }}>
+                <img src={right.imageUrl} className="absolute inset-0 w-full h-full object-cover" />
+                <img
+                  src={left.imageUrl}
+                  className="absolute inset-0 w-full h-full object-cover"
+                  style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+                />
+                <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow" style={{ left: `${split}%` }} />
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={split}
+                onChange={(e) => setSplit(Number(e.target.value))}
+                className="w-full mt-4 accent-zinc-900"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, Check, Plus, UserPlus, LogOut } from 'lucide-react';
+import * as WorkspaceService from '../services/workspaceService';
+import * as AuthService from '../services/authService';
+
+// Header menu: active workspace, switching/creating workspaces, adding teammates and signing out
+export const WorkspaceSwitcher: React.FC = () => {
+  const [{ user, workspaces, activeWorkspaceId }, setWorkspaceState] = useState(WorkspaceService.getWorkspaceState());
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => WorkspaceService.subscribeWorkspaces(setWorkspaceState), []);
+
+  const active = workspaces.find(w => w.id === activeWorkspaceId);
+  if (!user || !active) return null;
+
+  const initials = (user.email || active.name).slice(0, 2).toUpperCase();
+
+  const handleSwitch = (id: string) => {
+    setOpen(false);
+    if (id !== activeWorkspaceId) WorkspaceService.setActiveWorkspace(id);
+  };
+
+  const handleCreate = async () => {
+    setOpen(false);
+    const name = window.prompt('Name of the new workspace');
+    if (!name?.trim()) return;
+    try {
+      await WorkspaceService.createWorkspace(name.trim());
+    } catch (err: any) {
+      console.error("Failed to create workspace", err);
+      alert(`Could not create the workspace: ${err?.message || err}`);
+    }
+  };
+
+  const handleAddMember = async () => {
+    setOpen(false);
+    const email = window.prompt(`Email of the teammate to add to ${active.name} (they need an account already)`);
+    if (!email?.trim()) return;
+    try {
+      await WorkspaceService.addMember(email.trim());
+      alert(`${email.trim()} can now access ${active.name}.`);
+    } catch (err: any) {
+      console.error("Failed to add member", err);
+      alert(`Could not add this teammate: ${err?.message || err}`);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setOpen(false);
+    try {
+      await AuthService.signOut();
+    } catch (err) {
+      console.error("Sign out failed", err);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 pl-1 pr-3 py-1 rounded-full bg-white border border-zinc-200 hover:border-zinc-300 shadow-sm transition-colors"
+      >
+        <span className="w-7 h-7 rounded-full bg-gradient-to-tr from-zinc-200 to-zinc-100 border border-white flex items-center justify-center text-[10px] font-bold text-zinc-600">
+          {initials}
+        </span>
+        <span className="text-sm font-medium text-zinc-700 max-w-[160px] truncate">{active.name}</span>
+        <ChevronDown className="w-4 h-4 text-zinc-400" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-64 bg-white rounded-2xl border border-zinc-100 shadow-xl z-50 py-2 animate-in fade-in zoom-in-95 duration-150">
+            {user.email && (
+              <div className="px-4 py-2 text-xs text-zinc-400 truncate border-b border-zinc-100 mb-1">{user.email}</div>
+            )}
+            <div className="px-4 pt-2 pb-1 text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Workspaces</div>
+            {workspaces.map(w => (
+              <button
+                key={w.id}
+                onClick={() => handleSwitch(w.id)}
+                className="w-full px-4 py-2 text-sm text-left flex items-center justify-between hover:bg-zinc-50 transition-colors"
+              >
+                <span className="truncate text-zinc-700">{w.name}</span>
+                {w.id === activeWorkspaceId && <Check className="w-4 h-4 text-zinc-900 shrink-0" />}
+              </button>
+            ))}
+            {AuthService.authEnabled && (
+              <div className="border-t border-zinc-100 mt-1 pt-1">
+                <button onClick={handleCreate} className="w-full px-4 py-2 text-sm text-left flex items-center gap-2 text-zinc-600 hover:bg-zinc-50 transition-colors">
+                  <Plus className="w-4 h-4" /> New workspace
+                </button>
+                {active.role === 'owner' && (
+                  <button onClick={handleAddMember} className="w-full px-4 py-2 text-sm text-left flex items-center gap-2 text-zinc-600 hover:bg-zinc-50 transition-colors">
+                    <UserPlus className="w-4 h-4" /> Add teammate
+                  </button>
+                )}
+                <button onClick={handleSignOut} className="w-full px-4 py-2 text-sm text-left flex items-center gap-2 text-zinc-600 hover:bg-zinc-50 transition-colors">
+                  <LogOut className="w-4 h-4" /> Sign out
+                </button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
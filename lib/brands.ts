@@ -0,0 +1,53 @@
+import { Brand, CaptionVariant } from '../types';
+
+// Only the first photo of each product is sent, so a big catalogue doesn't crowd out the persona references
+export const MAX_PRODUCT_REFERENCES = 3;
+// A featured product sends several angles so the label and packaging can be reproduced
+export const MAX_FEATURED_PRODUCT_PHOTOS = 4;
+
+// Product photos sent with each image of a campaign for `brand`, featuring `productId` if set
+export const countProductReferences = (brand?: Brand | null, productId?: string): number => {
+  if (!brand) return 0;
+  const featured = productId ? brand.products.find(p => p.id === productId) : undefined;
+  if (featured) return Math.min(featured.imageUrls.length, MAX_FEATURED_PRODUCT_PHOTOS);
+  return Math.min(brand.products.filter(p => p.imageUrls.length > 0).length, MAX_PRODUCT_REFERENCES);
+};
+
+// Hashtags are stored and compared without the leading '#'
+export const normalizeHashtag = (tag: string) => tag.trim().replace(/^#+/, '').replace(/\s+/g, '');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Banned words of `brand` that appear in `text` (whole words, case-insensitive).
+ */
+export const findBannedWords = (text: string, brand?: Brand | null): string[] => {
+  if (!brand) return [];
+  return brand.bannedWords.filter(word => {
+    const trimmed = word.trim();
+    return trimmed && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(trimmed)}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+  });
+};
+
+/**
+ * Makes a generated caption follow the brand's hard rules: required hashtags are always present
+ * and hashtags containing banned words are dropped. The caption text itself is only flagged in the UI.
+ */
+export const applyBrandRules = <T extends CaptionVariant>(caption: T, brand?: Brand | null): T => {
+  if (!brand) return caption;
+
+  const required = brand.requiredHashtags.map(normalizeHashtag).filter(Boolean);
+  const allowed = caption.hashtags
+    .map(normalizeHashtag)
+    .filter(tag => tag && findBannedWords(tag, brand).length === 0);
+
+  const seen = new Set<string>();
+  const hashtags = [...required, ...allowed].filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return { ...caption, hashtags };
+};
@@ -0,0 +1,107 @@
+import { ScheduledPost } from '../types';
+
+// Two posts of the same persona closer than this compete for the same audience
+export const MIN_POST_SPACING_HOURS = 3;
+// Longer stretches without a post for a persona are flagged as frequency gaps
+export const MAX_POST_GAP_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes());
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date) => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+export const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+// Local `YYYY-MM-DD`, used as a key for day cells
+export const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getWeekDays = (date: Date): Date[] => {
+  const start = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+};
+
+// Full weeks covering the month of `date`
+export const getMonthGrid = (date: Date): Date[] => {
+  const first = new Date(date.getFullYear(), date.getMonth(), 1);
+  const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  const days: Date[] = [];
+  for (let day = startOfWeek(first); day <= last || days.length % 7 !== 0; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+const scheduledOnly = (posts: ScheduledPost[]) =>
+  posts
+    .filter(p => !!p.scheduledAt)
+    .sort((a, b) => Date.parse(a.scheduledAt!) - Date.parse(b.scheduledAt!));
+
+const groupByPersona = (posts: ScheduledPost[]) => {
+  const byPersona = new Map<string, ScheduledPost[]>();
+  for (const post of scheduledOnly(posts)) {
+    byPersona.set(post.personaId, [...(byPersona.get(post.personaId) || []), post]);
+  }
+  return byPersona;
+};
+
+/**
+ * Ids of scheduled posts that are within MIN_POST_SPACING_HOURS of another post of the same persona.
+ */
+export const findConflicts = (posts: ScheduledPost[]): Set<string> => {
+  const conflicts = new Set<string>();
+  for (const personaPosts of groupByPersona(posts).values()) {
+    for (let i = 1; i < personaPosts.length; i++) {
+      const previous = personaPosts[i - 1];
+      const current = personaPosts[i];
+      if (Date.parse(current.scheduledAt!) - Date.parse(previous.scheduledAt!) < MIN_POST_SPACING_HOURS * 60 * 60 * 1000) {
+        conflicts.add(previous.id);
+        conflicts.add(current.id);
+      }
+    }
+  }
+  return conflicts;
+};
+
+export interface FrequencyGap {
+  personaId: string;
+  from: Date; // day after the last post
+  to: Date; // day before the next post
+}
+
+/**
+ * Stretches of more than MAX_POST_GAP_DAYS without a post, per persona, from today onwards:
+ * between consecutive scheduled posts, and between today and a persona's first upcoming post.
+ */
+export const findFrequencyGaps = (posts: ScheduledPost[], now: Date = new Date()): FrequencyGap[] => {
+  const gaps: FrequencyGap[] = [];
+  const today = startOfDay(now);
+
+  for (const [personaId, personaPosts] of groupByPersona(posts)) {
+    const days = personaPosts.map(p => startOfDay(new Date(p.scheduledAt!)));
+    const upcoming = days.filter(day => day >= today);
+    if (upcoming.length === 0) continue;
+
+    const lastPast = days.filter(day => day < today).pop();
+    let previous = lastPast || addDays(today, -1);
+
+    for (const day of upcoming) {
+      const emptyDays = Math.round((day.getTime() - previous.getTime()) / DAY_MS) - 1;
+      if (emptyDays > MAX_POST_GAP_DAYS) {
+        const from = addDays(previous, 1);
+        gaps.push({ personaId, from: from < today ? today : from, to: addDays(day, -1) });
+      }
+      previous = day;
+    }
+  }
+
+  return gaps;
+};
+
+export const isInGap = (day: Date, gap: FrequencyGap) => day >= gap.from && day <= gap.to;
@@ -0,0 +1,161 @@
+import { WorkflowState, Persona, GeneratedIdea, GeneratedImage, ScheduledPost, Brand } from '../types';
+import { createZip, ZipEntry } from './zip';
+import { getVersions, getCurrentVersion, getVersionLabel } from './imageVersions';
+import { getFormat } from './formats';
+
+// Builds the "Export campaign" ZIP from the workflow state: every version of every final image,
+// plus captions.csv and manifest.json describing the posts.
+
+export interface CampaignExportOptions {
+  perPersonaFolders: boolean; // <persona>/<idea>/… instead of images/<persona>-<idea>/…
+}
+
+export interface CampaignExportInput {
+  state: WorkflowState;
+  personas: Persona[];
+  brand?: Brand | null;
+  scheduledPosts: ScheduledPost[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// Safe, readable file/folder name
+const slugify = (text: string, fallback: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || fallback;
+
+const loadImage = async (url: string): Promise<{ data: Uint8Array; extension: string }> => {
+  const response = await fetch(url); // handles data: URIs and storage URLs alike
+  if (!response.ok) throw new Error(`Could not download ${url} (HTTP ${response.status})`);
+  const blob = await response.blob();
+  return { data: new Uint8Array(await blob.arrayBuffer()), extension: EXTENSIONS[blob.type] || 'png' };
+};
+
+const toCsvField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (rows: string[][]) => rows.map(row => row.map(toCsvField).join(',')).join('\r\n');
+
+// Selected posts in persona order, like the captions step shows them
+const getExportedPosts = (state: WorkflowState, personas: Persona[]) => {
+  const posts: { persona: Persona; idea: GeneratedIdea }[] = [];
+  for (const pid of state.selectedPersonaIds) {
+    const persona = personas.find(p => p.id === pid);
+    if (!persona) continue;
+    for (const ideaId of state.selectedIdeaIds[pid] || []) {
+      const idea = (state.generatedIdeas[pid] || []).find(i => i.id === ideaId);
+      if (idea) posts.push({ persona, idea });
+    }
+  }
+  return posts;
+};
+
+/**
+ * Builds the campaign ZIP. `onProgress` reports downloaded images.
+ */
+export const buildCampaignExport = async (
+  { state, personas, brand, scheduledPosts }: CampaignExportInput,
+  options: CampaignExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const posts = getExportedPosts(state, personas);
+  const total = posts.reduce((sum, { idea }) =>
+    sum + (state.generatedImages[idea.id] || []).reduce((n, img) => n + getVersions(img).length, 0), 0);
+  let done = 0;
+  // Two ideas with the same title would otherwise share a folder and overwrite each other's files
+  const usedFolders = new Set<string>();
+
+  const manifestPosts = [];
+  const csvRows: string[][] = [
+    ['persona', 'idea_title', 'idea_description', 'prompt', 'caption', 'hashtags', 'scheduled_at', 'images'],
+  ];
+
+  for (const { persona, idea } of posts) {
+    const personaSlug = slugify(persona.name, persona.id);
+    const ideaSlug = slugify(idea.title, idea.id);
+    const baseFolder = options.perPersonaFolders ? `${personaSlug}/${ideaSlug}` : `images/${personaSlug}-${ideaSlug}`;
+    let folder = baseFolder;
+    for (let n = 2; usedFolders.has(folder); n++) folder = `${baseFolder}-${n}`;
+    usedFolders.add(folder);
+    const caption = state.captions[idea.id];
+    const scheduled = scheduledPosts.find(p => p.campaignId === state.campaignId && p.ideaId === idea.id);
+    const images: GeneratedImage[] = state.generatedImages[idea.id] || [];
+
+    const manifestImages = [];
+    const currentPaths: string[] = [];
+    for (const [index, image] of images.entries()) {
+      const format = getFormat(image.formatId);
+      const current = getCurrentVersion(image);
+      const baseName = `${format.id}-${String(index + 1).padStart(2, '0')}`;
+
+      const versions = [];
+      for (const version of getVersions(image)) {
+        const { data, extension } = await loadImage(version.imageUrl);
+        const label = getVersionLabel(image, version.id);
+        const path = `${folder}/${baseName}-${label}.${extension}`;
+        entries.push({ name: path, data, modified: new Date(version.createdAt) });
+        versions.push({
+          id: version.id, label, instruction: version.instruction, createdAt: version.createdAt, path, provenance: version.provenance || null,
+        });
+        if (version.id === current.id) currentPaths.push(path);
+        onProgress?.(++done, total);
+      }
+
+      manifestImages.push({
+        id: image.id,
+        format: format.id,
+        aspectRatio: format.aspectRatio,
+        slideId: image.slideId,
+        prompt: image.prompt,
+        current: versions.find(v => v.id === current.id)?.path,
+        versions,
+      });
+    }
+
+    const prompts = [...new Set(images.map(img => img.prompt).filter(Boolean))];
+    const scheduledAt = scheduled?.scheduledAt || null;
+
+    manifestPosts.push({
+      persona: { id: persona.id, name: persona.name, location: persona.location },
+      idea: { id: idea.id, title: idea.title, description: idea.description, slides: idea.slides },
+      caption: caption?.caption || '',
+      hashtags: caption?.hashtags || [],
+      // How the idea, its requirements and its caption were made; image versions carry their own
+      provenance: {
+        idea: idea.provenance || null,
+        requirements: (state.refinementData[idea.id] || []).map(req => ({ id: req.id, question: req.question, provenance: req.provenance || null })),
+        caption: caption?.provenance || null,
+      },
+      scheduledAt,
+      folder,
+      images: manifestImages,
+    });
+    csvRows.push([
+      persona.name,
+      idea.title,
+      idea.description,
+      prompts.join('\n'),
+      caption?.caption || '',
+      (caption?.hashtags || []).map(tag => `#${tag}`).join(' '),
+      scheduledAt || '',
+      currentPaths.join(';'),
+    ]);
+  }
+
+  const encoder = new TextEncoder();
+  const manifest = {
+    campaignId: state.campaignId,
+    exportedAt: new Date().toISOString(),
+    postType: state.postType,
+    brand: brand ? { id: brand.id, name: brand.name } : null,
+    posts: manifestPosts,
+  };
+  // BOM so spreadsheet apps read the captions as UTF-8
+  entries.push({ name: 'captions.csv', data: encoder.encode(`\uFEFF${toCsv(csvRows)}\r\n`) });
+  entries.push({ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+
+  return createZip(entries);
+};
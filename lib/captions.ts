@@ -0,0 +1,94 @@
+import { CaptionLength, CaptionOptions, CaptionTone, CaptionVariant, EmojiDensity } from '../types';
+
+// Caption settings offered in Final Review and the prompt wording each one maps to
+
+export const CAPTION_TONES: { id: CaptionTone; label: string; instruction: string }[] = [
+  { id: 'playful', label: 'Playful', instruction: 'Playful and light-hearted: jokes, wordplay, a wink at the reader.' },
+  { id: 'luxury', label: 'Luxury', instruction: 'Luxurious and understated: refined vocabulary, calm confidence, never loud.' },
+  { id: 'educational', label: 'Educational', instruction: 'Educational: share a concrete tip or insight the reader can use, clear and friendly.' },
+  { id: 'controversial', label: 'Controversial', instruction: 'Controversial: open with a bold, debatable take that invites comments, without being offensive.' },
+];
+
+export const CAPTION_LENGTHS: { id: CaptionLength; label: string; instruction: string }[] = [
+  { id: 'short', label: 'Short', instruction: 'One or two punchy sentences, under 150 characters.' },
+  { id: 'medium', label: 'Medium', instruction: 'A short paragraph, roughly 300-600 characters.' },
+  { id: 'long', label: 'Long', instruction: 'A mini story in a few short paragraphs, roughly 800-1500 characters.' },
+];
+
+export const EMOJI_DENSITIES: { id: EmojiDensity; label: string; instruction: string }[] = [
+  { id: 'none', label: 'No emoji', instruction: 'Do not use any emoji.' },
+  { id: 'light', label: 'Some emoji', instruction: 'Use 1-3 emoji where they add meaning.' },
+  { id: 'heavy', label: 'Lots of emoji', instruction: 'Use emoji generously, as many creators do (roughly one per sentence).' },
+];
+
+export const MAX_CAPTION_VARIANTS = 5;
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  variantCount: 3,
+  tone: 'playful',
+  length: 'medium',
+  callToAction: '',
+  emojiDensity: 'light',
+};
+
+// ------------------------------------------------------------------
+// PLATFORM LIMITS
+// ------------------------------------------------------------------
+
+export interface CaptionLimits {
+  maxLength: number; // characters, hashtags included
+  maxHashtags?: number;
+}
+
+// Keyed by OutputFormat.platform
+export const CAPTION_LIMITS: Record<string, CaptionLimits> = {
+  Instagram: { maxLength: 2200, maxHashtags: 30 },
+  TikTok: { maxLength: 4000 },
+  Pinterest: { maxLength: 500, maxHashtags: 20 },
+};
+
+// Caption as it is posted: text, blank line, hashtags
+export const formatCaptionText = (caption: CaptionVariant) => {
+  const tags = caption.hashtags.map(tag => `#${tag}`).join(' ');
+  return tags ? `${caption.caption.trim()}\n\n${tags}` : caption.caption.trim();
+};
+
+// Hashtags written into the caption text count towards the limit too
+const countHashtags = (caption: CaptionVariant) => {
+  const inText = caption.caption.match(/#[\p{L}\p{N}_]+/gu) || [];
+  return new Set([...inText.map(tag => tag.slice(1).toLowerCase()), ...caption.hashtags.map(tag => tag.toLowerCase())]).size;
+};
+
+/**
+ * The tightest limits across `platforms`, so one caption fits everywhere the post goes.
+ */
+export const getCaptionLimits = (platforms: string[]): CaptionLimits | null => {
+  const limits = [...new Set(platforms)].map(p => CAPTION_LIMITS[p]).filter(Boolean);
+  if (limits.length === 0) return null;
+  const hashtagLimits = limits.map(l => l.maxHashtags).filter((n): n is number => n !== undefined);
+  return {
+    maxLength: Math.min(...limits.map(l => l.maxLength)),
+    maxHashtags: hashtagLimits.length ? Math.min(...hashtagLimits) : undefined,
+  };
+};
+
+/**
+ * Warnings for every platform in `platforms` whose limits the caption breaks.
+ */
+export const getCaptionWarnings = (caption: CaptionVariant, platforms: string[]): string[] => {
+  const length = [...formatCaptionText(caption)].length;
+  const hashtags = countHashtags(caption);
+  const warnings: string[] = [];
+
+  for (const platform of new Set(platforms)) {
+    const limits = CAPTION_LIMITS[platform];
+    if (!limits) continue;
+    if (length > limits.maxLength) {
+      warnings.push(`${platform}: ${length.toLocaleString()} / ${limits.maxLength.toLocaleString()} characters`);
+    }
+    if (limits.maxHashtags !== undefined && hashtags > limits.maxHashtags) {
+      warnings.push(`${platform}: ${hashtags} / ${limits.maxHashtags} hashtags`);
+    }
+  }
+  return warnings;
+};
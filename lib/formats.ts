@@ -0,0 +1,55 @@
+import { OutputFormat } from '../types';
+
+// Target formats a campaign can be rendered in. The same prompt and references are used for each.
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  {
+    id: 'ig-feed',
+    platform: 'Instagram',
+    label: 'Feed Portrait',
+    aspectRatio: '4:5',
+    framing: 'Instagram feed portrait. Classic editorial framing with the subject filling most of the frame.',
+  },
+  {
+    id: 'ig-square',
+    platform: 'Instagram',
+    label: 'Feed Square',
+    aspectRatio: '1:1',
+    framing: 'Square feed post. Centered composition, subject clearly readable as a small grid thumbnail.',
+  },
+  {
+    id: 'ig-story',
+    platform: 'Instagram',
+    label: 'Stories',
+    aspectRatio: '9:16',
+    framing: 'Full-screen vertical story. Keep the top and bottom 15% free of faces and key details (UI overlays).',
+  },
+  {
+    id: 'ig-reels-cover',
+    platform: 'Instagram',
+    label: 'Reels Cover',
+    aspectRatio: '9:16',
+    framing: 'Vertical Reels cover. Subject centered so it still reads when cropped to a 4:5 grid tile.',
+  },
+  {
+    id: 'tiktok',
+    platform: 'TikTok',
+    label: 'TikTok',
+    aspectRatio: '9:16',
+    framing: 'Vertical TikTok frame, casual phone-shot feel. Keep the right edge and bottom 20% free of key details.',
+  },
+  {
+    id: 'pinterest',
+    platform: 'Pinterest',
+    label: 'Pin',
+    aspectRatio: '2:3',
+    framing: 'Tall Pinterest pin. Aspirational, well lit, with some calm space at the top.',
+  },
+];
+
+export const DEFAULT_FORMAT_ID = 'ig-feed';
+
+export const getFormat = (id?: string): OutputFormat =>
+  OUTPUT_FORMATS.find(f => f.id === id) || OUTPUT_FORMATS.find(f => f.id === DEFAULT_FORMAT_ID)!;
+
+// CSS aspect-ratio value ("9 / 16") for an image card
+export const toCssAspectRatio = (ratio: string = '4:5'): string => ratio.replace(':', ' / ');
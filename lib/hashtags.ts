@@ -0,0 +1,129 @@
+import { CaptionVariant, HashtagGroup, HashtagTier, TieredHashtag } from '../types';
+import { normalizeHashtag } from './brands';
+import { startOfWeek, toDayKey } from './calendar';
+
+export const HASHTAG_TIERS: { id: HashtagTier; label: string; description: string }[] = [
+  { id: 'low', label: 'Niche', description: 'Under ~100k posts: small feed, easy to rank in' },
+  { id: 'mid', label: 'Mid', description: '~100k-1M posts: engaged community, reachable' },
+  { id: 'high', label: 'Broad', description: 'Over ~1M posts: big reach, posts drop out of the feed fast' },
+];
+
+export const getHashtagTierLabel = (tier: HashtagTier) =>
+  HASHTAG_TIERS.find(t => t.id === tier)?.label || tier;
+
+// ------------------------------------------------------------------
+// BANNED HASHTAGS
+// ------------------------------------------------------------------
+
+// Tags Instagram has banned or hides ("shadowbans") at some point, plus follow/like-bait tags that get
+// accounts flagged as spam. Compiled from public creator lists; platforms don't publish theirs, so extend it as needed.
+export const BANNED_HASHTAGS = new Set([
+  'adulting', 'alone', 'always', 'armparty', 'asiangirl', 'assday', 'beautyblogger', 'bikinibody',
+  'boho', 'brain', 'costumes', 'curvygirls', 'date', 'dating', 'desk', 'direct', 'dm', 'elevator',
+  'eggplant', 'followback', 'followforfollow', 'follow4follow', 'f4f', 'girlsonly', 'gloves',
+  'hardworkpaysoff', 'hawks', 'hotweather', 'humpday', 'hustler', 'ice', 'instasport', 'iphonegraphy',
+  'italiano', 'kansas', 'kickoff', 'killingit', 'kissing', 'l4l', 'like4like', 'likeforlike',
+  'likeforlikes', 'master', 'mirrorphoto', 'models', 'mustfollow', 'nasty', 'newyearsday', 'petite',
+  'pushups', 'rate', 'saltwater', 'selfharm', 'shower', 'single', 'singlelife', 'skype', 'snap',
+  'snapchat', 'stranger', 'sunbathing', 'swole', 'tag4like', 'tagsforlikes', 'teens', 'thought',
+  'todayimwearing', 'twerk', 'undies', 'valentinesday', 'workflow', 'youngmodel',
+]);
+
+export const isBannedHashtag = (tag: string) => BANNED_HASHTAGS.has(normalizeHashtag(tag).toLowerCase());
+
+export const findBannedHashtags = (tags: string[]): string[] => tags.filter(isBannedHashtag);
+
+// ------------------------------------------------------------------
+// TIERS
+// ------------------------------------------------------------------
+
+export const getTieredHashtag = (caption: CaptionVariant, tag: string): TieredHashtag | undefined => {
+  const key = tag.toLowerCase();
+  return caption.tieredHashtags?.find(t => t.tag.toLowerCase() === key);
+};
+
+/**
+ * Flat hashtag list for a generated variant, ordered niche first, so the tags most likely to rank
+ * survive when a platform cuts the list short.
+ */
+export const orderByTier = (tags: TieredHashtag[]): string[] => {
+  const rank = (tier: HashtagTier) => HASHTAG_TIERS.findIndex(t => t.id === tier);
+  return [...tags].sort((a, b) => rank(a.tier) - rank(b.tier)).map(t => t.tag);
+};
+
+// ------------------------------------------------------------------
+// SETS
+// ------------------------------------------------------------------
+
+// Normalised, without empty entries and case-insensitive duplicates (first spelling wins)
+export const uniqueHashtags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.map(normalizeHashtag).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const createHashtagGroup = (name = '', hashtags: string[] = []): HashtagGroup => ({
+  id: `tags-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+  name,
+  hashtags: uniqueHashtags(hashtags),
+});
+
+// ------------------------------------------------------------------
+// WEEKLY REPEATS
+// ------------------------------------------------------------------
+
+// A post as far as hashtag repetition is concerned; unscheduled posts count towards the current week
+export interface HashtagUse {
+  id: string;
+  personaId: string;
+  hashtags: string[];
+  scheduledAt?: string | null;
+}
+
+const getWeekKey = (post: Pick<HashtagUse, 'scheduledAt'>, now: Date) =>
+  toDayKey(startOfWeek(post.scheduledAt ? new Date(post.scheduledAt) : now));
+
+// Lower-cased tag -> number of the persona's other posts using it in the week of `post`
+const countWeekHashtags = (post: Omit<HashtagUse, 'hashtags'>, others: HashtagUse[], now: Date) => {
+  const week = getWeekKey(post, now);
+  const counts = new Map<string, number>();
+  for (const other of others) {
+    if (other.id === post.id || other.personaId !== post.personaId || getWeekKey(other, now) !== week) continue;
+    for (const tag of new Set(other.hashtags.map(t => normalizeHashtag(t).toLowerCase()))) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+  return counts;
+};
+
+/**
+ * Hashtags the persona's other posts already use in the week `post` goes out.
+ */
+export const getWeekHashtags = (post: Omit<HashtagUse, 'hashtags'>, others: HashtagUse[], now = new Date()): string[] =>
+  [...countWeekHashtags(post, others, now).keys()];
+
+/**
+ * Hashtags of `post` that other posts of the same persona already use in the same week, with how many
+ * of them use each. `ignore` lists tags that are meant to repeat, like required brand hashtags.
+ */
+export const findRepeatedHashtags = (
+  post: HashtagUse,
+  others: HashtagUse[],
+  ignore: string[] = [],
+  now = new Date()
+): Map<string, number> => {
+  const counts = countWeekHashtags(post, others, now);
+  const ignored = new Set(ignore.map(tag => normalizeHashtag(tag).toLowerCase()));
+
+  const repeated = new Map<string, number>();
+  for (const tag of post.hashtags) {
+    const key = normalizeHashtag(tag).toLowerCase();
+    const count = counts.get(key);
+    if (count && !ignored.has(key)) repeated.set(tag, count);
+  }
+  return repeated;
+};
@@ -0,0 +1,74 @@
+// Helper to compress images and return a Blob for uploading
+export const compressImageToBlob = (file: File): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = (event) => {
+      const img = new Image();
+      img.src = event.target?.result as string;
+      img.onload = () => {
+        const canvas = document.createElement('canvas');
+        const MAX_WIDTH = 1200; // Increased slightly as we are using storage buckets now
+        const scaleSize = MAX_WIDTH / img.width;
+        
+        const finalScale = scaleSize < 1 ? scaleSize : 1;
+        
+        canvas.width = img.width * finalScale;
+        canvas.height = img.height * finalScale;
+        
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            reject(new Error("Canvas context failed"));
+            return;
+        }
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        
+        // Export as Blob (JPEG 0.8)
+        canvas.toBlob((blob) => {
+          if (blob) resolve(blob);
+          else reject(new Error("Blob creation failed"));
+        }, 'image/jpeg', 0.85);
+      };
+      img.onerror = (err) => reject(err);
+    };
+    reader.onerror = (err) => reject(err);
+  });
+};
+
+// Instagram only accepts JPEG; the path decides, since that is all the publishing server can check without downloading
+export const isJpegUrl = (url: string): boolean => {
+  try {
+    return /\.jpe?g$/i.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+};
+
+// Re-encodes a stored image (e.g. a generated PNG) as JPEG. Transparent areas become white instead of black.
+export const imageUrlToJpegBlob = (url: string): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas context failed"));
+        return;
+      }
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+
+      canvas.toBlob((blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error("Blob creation failed"));
+      }, 'image/jpeg', 0.92);
+    };
+    img.onerror = () => reject(new Error(`Could not load ${url}`));
+    img.src = url;
+  });
+};
@@ -0,0 +1,94 @@
+import { GeneratedImage, ImageVersion, IdentityScore, Provenance } from '../types';
+
+// Helpers for the non-destructive edit tree stored on each GeneratedImage.
+// `imageUrl` always mirrors the current version so the rest of the app can ignore versions.
+
+export const withVersionHistory = (image: GeneratedImage): GeneratedImage => {
+  if (image.versions && image.versions.length > 0) return image;
+
+  const original: ImageVersion = {
+    id: `${image.id}-v0`,
+    parentId: null,
+    instruction: null,
+    imageUrl: image.imageUrl,
+    createdAt: new Date().toISOString(),
+    provenance: image.provenance,
+  };
+  return { ...image, versions: [original], currentVersionId: original.id };
+};
+
+export const getVersions = (image: GeneratedImage): ImageVersion[] =>
+  withVersionHistory(image).versions!;
+
+export const getCurrentVersion = (image: GeneratedImage): ImageVersion => {
+  const versioned = withVersionHistory(image);
+  return versioned.versions!.find(v => v.id === versioned.currentVersionId) || versioned.versions![0];
+};
+
+export const getVersionLabel = (image: GeneratedImage, versionId: string): string =>
+  `v${getVersions(image).findIndex(v => v.id === versionId) + 1}`;
+
+/**
+ * Records the result of an edit as a child of `parentVersionId` and makes it current.
+ * Editing from an older version therefore starts a new branch instead of overwriting anything.
+ */
+export const addEditVersion = (
+  image: GeneratedImage,
+  parentVersionId: string,
+  instruction: string,
+  imageUrl: string,
+  provenance?: Provenance
+): GeneratedImage => {
+  const versioned = withVersionHistory(image);
+  const version: ImageVersion = {
+    id: `${image.id}-v${Date.now()}`,
+    parentId: parentVersionId,
+    instruction,
+    imageUrl,
+    createdAt: new Date().toISOString(),
+    provenance,
+  };
+  return {
+    ...versioned,
+    versions: [...versioned.versions!, version],
+    currentVersionId: version.id,
+    imageUrl,
+  };
+};
+
+export const checkoutVersion = (image: GeneratedImage, versionId: string): GeneratedImage => {
+  const versioned = withVersionHistory(image);
+  const version = versioned.versions!.find(v => v.id === versionId);
+  if (!version) return versioned;
+  return { ...versioned, currentVersionId: version.id, imageUrl: version.imageUrl };
+};
+
+export const canUndo = (image: GeneratedImage): boolean => !!getCurrentVersion(image).parentId;
+
+export const undoVersion = (image: GeneratedImage): GeneratedImage => {
+  const parentId = getCurrentVersion(image).parentId;
+  return parentId ? checkoutVersion(image, parentId) : image;
+};
+
+// Redo follows the most recently created child of the current version
+const getRedoTarget = (image: GeneratedImage): ImageVersion | undefined => {
+  const current = getCurrentVersion(image);
+  const children = getVersions(image).filter(v => v.parentId === current.id);
+  return children[children.length - 1];
+};
+
+export const canRedo = (image: GeneratedImage): boolean => !!getRedoTarget(image);
+
+export const redoVersion = (image: GeneratedImage): GeneratedImage => {
+  const target = getRedoTarget(image);
+  return target ? checkoutVersion(image, target.id) : image;
+};
+
+export const setCurrentIdentity = (image: GeneratedImage, identity: IdentityScore): GeneratedImage => {
+  const versioned = withVersionHistory(image);
+  const currentId = getCurrentVersion(versioned).id;
+  return {
+    ...versioned,
+    versions: versioned.versions!.map(v => v.id === currentId ? { ...v, identity } : v),
+  };
+};
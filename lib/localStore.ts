@@ -0,0 +1,66 @@
+// Minimal promise wrapper around IndexedDB.
+// Every record is keyed by its `id` field; the local store always works, even when Supabase is unreachable.
+
+const DB_NAME = 'ugc-flow';
+// Bump when adding a store; onupgradeneeded creates the missing ones
+const DB_VERSION = 6;
+
+export type LocalStoreName =
+  'personas' | 'campaigns' | 'brands' | 'scheduled_posts' | 'prompt_templates' | 'prompt_template_pins' | 'audit_log' | 'usage_events' | 'syncQueue';
+
+const STORES: LocalStoreName[] = [
+  'personas', 'campaigns', 'brands', 'scheduled_posts', 'prompt_templates', 'prompt_template_pins', 'audit_log', 'usage_events', 'syncQueue'
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of STORES) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const localGetAll = <T>(store: LocalStoreName): Promise<T[]> =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const localGet = <T>(store: LocalStoreName, id: string): Promise<T | undefined> =>
+  run<T | undefined>(store, 'readonly', s => s.get(id));
+
+export const localPut = async <T extends { id: string }>(store: LocalStoreName, value: T): Promise<void> => {
+  await run(store, 'readwrite', s => s.put(value));
+};
+
+export const localDelete = async (store: LocalStoreName, id: string): Promise<void> => {
+  await run(store, 'readwrite', s => s.delete(id));
+};
@@ -0,0 +1,69 @@
+import { PersonaStyle } from '../types';
+
+// Persona style guide: edited in the persona editor, suggested by the profile enhancement and sent with every image prompt.
+
+export const EMPTY_PERSONA_STYLE: PersonaStyle = {
+  ageRange: '',
+  bodyType: '',
+  hair: '',
+  wardrobe: [],
+  colorPalette: [],
+  photographyStyle: '',
+  cameraLook: '',
+  forbidden: [],
+};
+
+type TextField = 'ageRange' | 'bodyType' | 'hair' | 'photographyStyle' | 'cameraLook';
+type ListField = 'wardrobe' | 'colorPalette' | 'forbidden';
+
+export const PERSONA_STYLE_TEXT_FIELDS: { key: TextField; label: string; placeholder: string }[] = [
+  { key: 'ageRange', label: 'Age range', placeholder: 'e.g. 25-30' },
+  { key: 'bodyType', label: 'Body type', placeholder: 'e.g. Slim, athletic' },
+  { key: 'hair', label: 'Hair', placeholder: 'e.g. Shoulder-length wavy auburn' },
+  { key: 'photographyStyle', label: 'Photography style', placeholder: 'e.g. Candid, warm natural light, film grain' },
+  { key: 'cameraLook', label: 'Camera / lens look', placeholder: 'e.g. iPhone back camera, 26mm, shallow depth' },
+];
+
+export const PERSONA_STYLE_LIST_FIELDS: { key: ListField; label: string; placeholder: string }[] = [
+  { key: 'wardrobe', label: 'Signature wardrobe', placeholder: 'e.g. Oversized linen shirt, gold hoops, white sneakers' },
+  { key: 'colorPalette', label: 'Color palette', placeholder: 'e.g. Sand, olive, terracotta' },
+  { key: 'forbidden', label: "Don'ts", placeholder: 'e.g. Logos, sunglasses indoors, heavy makeup' },
+];
+
+export const getPersonaStyle = (style?: Partial<PersonaStyle>): PersonaStyle => ({ ...EMPTY_PERSONA_STYLE, ...style });
+
+// Fills the empty fields of `current` from `suggested`; what the user already wrote is kept
+export const mergePersonaStyle = (current: Partial<PersonaStyle> | undefined, suggested: Partial<PersonaStyle> | undefined): PersonaStyle => {
+  const base = getPersonaStyle(current);
+  const next = getPersonaStyle(suggested);
+  return Object.fromEntries(
+    (Object.keys(EMPTY_PERSONA_STYLE) as (keyof PersonaStyle)[]).map(key => [key, base[key].length > 0 ? base[key] : next[key]])
+  ) as unknown as PersonaStyle;
+};
+
+// Comma separated input; empty entries are dropped
+export const parseStyleList = (text: string): string[] => text.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * The style guide as prompt text, or '' when nothing is filled in.
+ */
+export const describePersonaStyle = (style?: Partial<PersonaStyle>): string => {
+  const { ageRange, bodyType, hair, wardrobe, colorPalette, photographyStyle, cameraLook, forbidden } = getPersonaStyle(style);
+  const look = [
+    ageRange && `age ${ageRange}`,
+    bodyType && `${bodyType} build`,
+    hair && `hair: ${hair}`,
+    wardrobe.length > 0 && `signature wardrobe: ${wardrobe.join(', ')}`,
+    colorPalette.length > 0 && `color palette: ${colorPalette.join(', ')}`,
+  ].filter(Boolean);
+  const shot = [
+    photographyStyle && `photography style: ${photographyStyle}`,
+    cameraLook && `camera and lens: ${cameraLook}`,
+  ].filter(Boolean);
+
+  let text = '';
+  if (look.length > 0) text += ` Persona look (keep identical in every photo): ${look.join('; ')}.`;
+  if (shot.length > 0) text += ` Shot: ${shot.join('; ')}.`;
+  if (forbidden.length > 0) text += ` Never show: ${forbidden.join(', ')}.`;
+  return text.trim();
+};
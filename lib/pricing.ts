@@ -0,0 +1,91 @@
+import { ModelUsage } from '../types';
+
+// Estimated AI cost. Prices are USD per million tokens; the defaults are Gemini's list prices and can be
+// overridden per model with AI_PRICES in .env.local (JSON, e.g. {"gemini-3-pro-image-preview":{"imageOutputPerMillion":100}}).
+
+export interface ModelPrice {
+  inputPerMillion: number; // text, reference images and tool results
+  outputPerMillion: number; // text and thinking
+  imageOutputPerMillion: number; // generated images
+}
+
+export const GEMINI_TEXT_MODEL = 'gemini-3-pro-preview';
+export const GEMINI_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  [GEMINI_TEXT_MODEL]: { inputPerMillion: 2, outputPerMillion: 12, imageOutputPerMillion: 0 },
+  [GEMINI_IMAGE_MODEL]: { inputPerMillion: 2, outputPerMillion: 12, imageOutputPerMillion: 120 },
+  mock: { inputPerMillion: 0, outputPerMillion: 0, imageOutputPerMillion: 0 },
+};
+
+// Unknown models are priced like the image model so usage is never counted as free by accident
+const FALLBACK_PRICE = DEFAULT_PRICES[GEMINI_IMAGE_MODEL];
+
+const readPriceOverrides = (): Record<string, Partial<ModelPrice>> => {
+  try {
+    return process.env.AI_PRICES ? JSON.parse(process.env.AI_PRICES) : {};
+  } catch (e) {
+    console.error("AI_PRICES is not valid JSON, using the default prices", e);
+    return {};
+  }
+};
+
+const overrides = readPriceOverrides();
+
+export const getModelPrice = (model: string): ModelPrice => ({
+  ...(DEFAULT_PRICES[model] || FALLBACK_PRICE),
+  ...overrides[model],
+});
+
+export const getUsageCost = (usage: ModelUsage[]): number =>
+  usage.reduce((total, record) => {
+    const price = getModelPrice(record.model);
+    return total +
+      (record.inputTokens * price.inputPerMillion +
+        record.outputTokens * price.outputPerMillion +
+        record.imageTokens * price.imageOutputPerMillion) / 1_000_000;
+  }, 0);
+
+export const formatCost = (usd: number): string =>
+  `$${usd < 10 ? usd.toFixed(2) : Math.round(usd).toLocaleString()}`;
+
+// ------------------------------------------------------------------
+// ESTIMATES
+// ------------------------------------------------------------------
+
+// Approximate token counts for estimates before anything is generated
+const IMAGE_OUTPUT_TOKENS: Record<'1K' | '2K' | '4K', number> = { '1K': 1120, '2K': 1120, '4K': 2000 };
+const REFERENCE_IMAGE_TOKENS = 1120;
+const PROMPT_TOKENS = 600;
+const IDENTITY_CHECK_OUTPUT_TOKENS = 300;
+
+/**
+ * Estimated cost of rendering `images` images at `quality` with `referenceImages` references each, plus the
+ * persona identity check of each image against its `identityReferences` photos (none: no check).
+ * Automatic regenerations are not included.
+ */
+export const estimateImageCost = (
+  models: { text: string; image: string },
+  images: number,
+  quality: '1K' | '2K' | '4K',
+  referenceImages: number,
+  identityReferences: number
+): number => {
+  const render = getUsageCost([{
+    model: models.image,
+    inputTokens: PROMPT_TOKENS + referenceImages * REFERENCE_IMAGE_TOKENS,
+    outputTokens: 0,
+    imageTokens: IMAGE_OUTPUT_TOKENS[quality],
+    images: 1,
+  }]);
+  const check = identityReferences > 0
+    ? getUsageCost([{
+        model: models.text,
+        inputTokens: PROMPT_TOKENS + (identityReferences + 1) * REFERENCE_IMAGE_TOKENS,
+        outputTokens: IDENTITY_CHECK_OUTPUT_TOKENS,
+        imageTokens: 0,
+        images: 0,
+      }])
+    : 0;
+  return images * (render + check);
+};
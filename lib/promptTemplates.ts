@@ -0,0 +1,331 @@
+import { PromptTemplate, PromptTemplateKey, PromptTemplatePin, PromptTemplateRef } from '../types';
+
+// Text prompts as editable templates. The built-in bodies below are version 1 of every template, and `updates`
+// ship later built-in versions without changing the ones workspaces may have pinned; workspaces save newer versions
+// and may pin one. Shared by the browser (editor, preview) and the AI server (rendering).
+
+export interface PromptVariable {
+  name: string; // used as {{name}}
+  description: string;
+  sample: string; // shown in the editor preview
+}
+
+export interface PromptTemplateDefinition {
+  key: PromptTemplateKey;
+  label: string;
+  description: string;
+  variables: PromptVariable[];
+  body: string; // built-in version 1
+  updates?: { body: string; note: string }[]; // built-in versions 2, 3, ... once released, never edited
+}
+
+const PERSONA_VARIABLES: Record<string, PromptVariable> = {
+  name: { name: 'persona.name', description: "Persona's name", sample: 'Ana Horvat' },
+  location: { name: 'persona.location', description: 'City', sample: 'Split' },
+  country: { name: 'persona.country', description: 'Country', sample: 'Croatia' },
+  niche: { name: 'persona.niche', description: 'Niches, comma separated', sample: 'Travel, Coffee, Slow living' },
+  bio: { name: 'persona.bio', description: 'Bio and personality', sample: 'Coffee-obsessed travel creator chasing slow mornings on the Adriatic.' },
+  voice: {
+    name: 'persona.voice',
+    description: 'Voice profile learned from sample captions, with the voice match instruction. Empty when none is learned.',
+    sample: 'Write in the persona\'s own voice: Dry humour, short punchy lines, Croatian slang mixed into English. Rate how closely each variant matches this voice (voiceMatch: score 0-100 and a one-line note).',
+  },
+  style: {
+    name: 'persona.style',
+    description: 'Style guide: look, wardrobe, palette, photography and don\'ts. Empty when none is set.',
+    sample: 'Persona look (keep identical in every photo): age 25-30; hair: wavy auburn; signature wardrobe: linen shirt, gold hoops. Never show: logos.',
+  },
+};
+
+const BRAND_VARIABLE: PromptVariable = {
+  name: 'brand',
+  description: 'Brand briefing: tone of voice, products, banned words. Empty without a brand.',
+  sample: 'BRAND: This post is sponsored content for Adriatic Coffee Co.\nBrand tone of voice: Warm, witty, never salesy.',
+};
+
+export const PROMPT_TEMPLATE_DEFINITIONS: PromptTemplateDefinition[] = [
+  {
+    key: 'casting-director',
+    label: 'Casting Director',
+    description: 'Creates or refines a persona profile from its photos and the fields filled in so far.',
+    variables: [PERSONA_VARIABLES.name, PERSONA_VARIABLES.location, PERSONA_VARIABLES.niche, PERSONA_VARIABLES.bio, PERSONA_VARIABLES.style],
+    body: `You are an expert Casting Director and Social Media Strategist.
+
+Task: Create or refine a realistic influencer persona profile based on the provided images and any existing text.
+
+INSTRUCTIONS:
+1. VISUAL ANALYSIS: Analyze the uploaded images (Avatar and Reference images) to determine visual style, ethnicity, age, vibe, and likely location.
+2. TEXT ANALYSIS (CRITICAL):
+   - Read the "Current Inputs" below carefully.
+   - If the user has typed ANYTHING (e.g., specific descriptors like "gay", "minimalist", "goth", "tech founder"), YOU MUST RESPECT THIS CONTEXT.
+   - Use these existing keywords to shape the entire persona.
+   - Example: If 'Bio' mentions "Gay lifestyle", ensure the generated Niche, Location, and Name align perfectly with that specific demographic and culture.
+   - If inputs are empty, invent suitable details based solely on the images.
+
+3. GENERATION GOALS:
+   - Name: Realistic, matching the ethnicity/vibe/identity.
+   - Location: A specific City and Country. If one is provided, keep it or refine the formatting.
+   - Niche: List 3-5 specific niches (e.g. 'Streetwear', 'Interior Design').
+   - Bio: A compelling, short bio (max 2 sentences). Preserve the core meaning of any existing bio text, just make it punchier and more professional.
+
+Current Inputs:
+Name: {{persona.name}}
+Location: {{persona.location}}
+Niche: {{persona.niche}}
+Bio: {{persona.bio}}`,
+    updates: [{
+      note: 'Built-in · style guide',
+      body: `You are an expert Casting Director and Social Media Strategist.
+
+Task: Create or refine a realistic influencer persona profile based on the provided images and any existing text.
+
+INSTRUCTIONS:
+1. VISUAL ANALYSIS: Analyze the uploaded images (Avatar and Reference images) to determine visual style, ethnicity, age, vibe, and likely location.
+2. TEXT ANALYSIS (CRITICAL):
+   - Read the "Current Inputs" below carefully.
+   - If the user has typed ANYTHING (e.g., specific descriptors like "gay", "minimalist", "goth", "tech founder"), YOU MUST RESPECT THIS CONTEXT.
+   - Use these existing keywords to shape the entire persona.
+   - Example: If 'Bio' mentions "Gay lifestyle", ensure the generated Niche, Location, and Name align perfectly with that specific demographic and culture.
+   - If inputs are empty, invent suitable details based solely on the images.
+
+3. GENERATION GOALS:
+   - Name: Realistic, matching the ethnicity/vibe/identity.
+   - Location: A specific City and Country. If one is provided, keep it or refine the formatting.
+   - Niche: List 3-5 specific niches (e.g. 'Streetwear', 'Interior Design').
+   - Bio: A compelling, short bio (max 2 sentences). Preserve the core meaning of any existing bio text, just make it punchier and more professional.
+   - Style guide, read from the images: age range, body type, hair, 3-5 signature wardrobe items, a 3-5 color palette,
+     photography style, camera/lens look and 2-4 things that never fit this persona (forbidden elements).
+     Keep any style guide given below and only fill in what is missing.
+
+Current Inputs:
+Name: {{persona.name}}
+Location: {{persona.location}}
+Niche: {{persona.niche}}
+Bio: {{persona.bio}}
+Style guide: {{persona.style}}`,
+    }],
+  },
+  {
+    key: 'creative-director',
+    label: 'Creative Director',
+    description: 'Turns an activity into post ideas (manual ideation).',
+    variables: [
+      PERSONA_VARIABLES.name, PERSONA_VARIABLES.location, PERSONA_VARIABLES.country, PERSONA_VARIABLES.bio,
+      { name: 'activity', description: 'What the persona is doing', sample: 'Morning coffee at the harbour' },
+      BRAND_VARIABLE,
+      { name: 'productPlacement', description: 'Product placement brief. Empty unless a product is featured.', sample: '' },
+      { name: 'feedback', description: 'Refinement request when ideas are regenerated. Empty otherwise.', sample: 'Refine based on this feedback: Try different angles or locations.' },
+    ],
+    body: `You are a creative director for an Instagram influencer.
+Persona: {{persona.name}}
+Location: {{persona.location}}, {{persona.country}}
+Bio: {{persona.bio}}
+
+Task: Generate 3 distinct Instagram post variants for the activity: "{{activity}}".
+
+CRITICAL CONSTRAINT: Every variant MUST be explicitly bound to a specific, real-world location, street, landmark, or venue within {{persona.location}}, {{persona.country}}.
+
+{{brand}}
+{{productPlacement}}
+{{feedback}}`,
+  },
+  {
+    key: 'trend-scout',
+    label: 'Trend Scout',
+    description: 'Searches current trends in the persona\'s niche and turns them into post ideas (auto ideation).',
+    variables: [
+      PERSONA_VARIABLES.name, PERSONA_VARIABLES.location, PERSONA_VARIABLES.country, PERSONA_VARIABLES.niche,
+      BRAND_VARIABLE,
+      { name: 'productPlacement', description: 'Product placement brief. Empty unless a product is featured.', sample: '' },
+    ],
+    body: `Task: Find REAL-TIME Instagram trends and generate post ideas.
+
+1. Use Google Search to find the latest trending topics, aesthetics, and viral challenges specifically for the niche: "{{persona.niche}}".
+2. Based on the search results, create 3 high-engagement post ideas for: {{persona.name}}.
+3. Location context: {{persona.location}}, {{persona.country}}.
+
+OUTPUT FORMAT:
+You must return a valid JSON array. Do not include markdown formatting like \`\`\`json.
+Example: [{"title": "...", "description": "..."}]
+
+CRITICAL: Every idea must be tied to a real location in {{persona.location}} found via search or known geography.
+{{brand}}
+{{productPlacement}}`,
+  },
+  {
+    key: 'requirement-analyzer',
+    label: 'Requirement Analyzer',
+    description: 'Asks for the visual details an idea needs before its image is generated.',
+    variables: [
+      { name: 'idea.title', description: 'Idea title', sample: 'Harbour espresso at sunrise' },
+      { name: 'idea.description', description: 'Idea description', sample: 'Ana sips an espresso on the Riva promenade as the first ferries leave.' },
+      PERSONA_VARIABLES.name, PERSONA_VARIABLES.location,
+    ],
+    body: `Analyze this Instagram post idea to determine what specific visual details are needed to generate a high-quality, accurate image.
+Idea: {{idea.title}} - {{idea.description}}
+Persona: {{persona.name}} in {{persona.location}}.
+
+Identify 2-3 missing details, specifically asking for reference images of locations mentioned or specific styling details.
+For each requirement, provide a helpful suggestion/default value that the AI would make up if the user doesn't provide it.`,
+  },
+  {
+    key: 'caption-writer',
+    label: 'Caption Writer',
+    description: 'Writes the caption variants and tiered hashtags of a post.',
+    variables: [
+      { name: 'count', description: 'Number of variants', sample: '3' },
+      { name: 'platforms', description: 'Platforms the post goes to', sample: 'Instagram' },
+      { name: 'idea.title', description: 'Idea title', sample: 'Harbour espresso at sunrise' },
+      { name: 'idea.description', description: 'Idea description', sample: 'Ana sips an espresso on the Riva promenade as the first ferries leave.' },
+      { name: 'carousel', description: 'Slide order of a carousel. Empty for single images.', sample: '' },
+      PERSONA_VARIABLES.name, PERSONA_VARIABLES.bio, PERSONA_VARIABLES.niche, PERSONA_VARIABLES.location, PERSONA_VARIABLES.voice,
+      { name: 'tone', description: 'Tone instruction', sample: 'Playful and light-hearted: jokes, wordplay, a wink at the reader.' },
+      { name: 'length', description: 'Length instruction', sample: 'A short paragraph, roughly 300-600 characters.' },
+      { name: 'emoji', description: 'Emoji instruction', sample: 'Use 1-3 emoji where they add meaning.' },
+      { name: 'callToAction', description: 'Call to action instruction', sample: 'No explicit call to action.' },
+      { name: 'hashtagTiers', description: 'Definition of the hashtag tiers', sample: '"low": Under ~100k posts; "mid": ~100k-1M posts; "high": Over ~1M posts' },
+      { name: 'avoidHashtags', description: 'Tags already used this week. Empty when there are none.', sample: '' },
+      { name: 'limits', description: 'Platform character and hashtag limits', sample: 'Hard limits: caption plus hashtags under 2200 characters, at most 30 hashtags.' },
+      BRAND_VARIABLE,
+      { name: 'requiredHashtags', description: 'Brand hashtags to include. Empty without a brand.', sample: 'Always include these brand hashtags: #adriaticcoffee.' },
+      { name: 'product', description: 'Featured product instruction. Empty unless a product is featured.', sample: '' },
+    ],
+    body: `Step 3: Caption Writer. Write {{count}} distinct, scroll-stopping caption variants for a {{platforms}} post about: {{idea.title}} - {{idea.description}}.
+{{carousel}}
+Voice: Human, organic, matching persona: {{persona.name}} ({{persona.bio}}).
+Tone: {{tone}}
+Length: {{length}}
+Emoji: {{emoji}}
+{{callToAction}}
+Make the variants genuinely different (different hooks and angles), not rewordings of each other.
+
+Step 4: Hashtag Booster. For each variant, create a mix of low, mid, and high-competition tags specifically for {{persona.niche}} and location {{persona.location}}.
+Tier every tag ({{hashtagTiers}}) and give a one-line rationale for why it fits this post.
+Never use banned or shadowbanned tags, or follow/like-bait tags (e.g. #followforfollow, #like4like).
+{{avoidHashtags}}
+{{limits}}
+{{brand}}
+{{requiredHashtags}}
+{{product}}`,
+    updates: [{
+      note: 'Built-in · persona voice',
+      body: `Step 3: Caption Writer. Write {{count}} distinct, scroll-stopping caption variants for a {{platforms}} post about: {{idea.title}} - {{idea.description}}.
+{{carousel}}
+Voice: Human, organic, matching persona: {{persona.name}} ({{persona.bio}}).
+{{persona.voice}}
+Tone: {{tone}}
+Length: {{length}}
+Emoji: {{emoji}}
+{{callToAction}}
+Make the variants genuinely different (different hooks and angles), not rewordings of each other.
+
+Step 4: Hashtag Booster. For each variant, create a mix of low, mid, and high-competition tags specifically for {{persona.niche}} and location {{persona.location}}.
+Tier every tag ({{hashtagTiers}}) and give a one-line rationale for why it fits this post.
+Never use banned or shadowbanned tags, or follow/like-bait tags (e.g. #followforfollow, #like4like).
+{{avoidHashtags}}
+{{limits}}
+{{brand}}
+{{requiredHashtags}}
+{{product}}`,
+    }],
+  },
+  {
+    key: 'voice-analyst',
+    label: 'Voice Analyst',
+    description: "Learns a persona's writing voice from its sample captions.",
+    variables: [
+      PERSONA_VARIABLES.name, PERSONA_VARIABLES.bio,
+      { name: 'samples', description: 'Sample captions, numbered', sample: '1. ok but who decided ferries should leave this early ☕️\n2. Split, you did it again. Nema šanse I\'m leaving.' },
+    ],
+    body: `You are a social media copy editor studying how one creator writes.
+
+Creator: {{persona.name}} ({{persona.bio}}).
+
+Below are captions and posts this creator wrote. Describe their voice so another writer can imitate it:
+- Summary: 2-3 sentences on their personality on the page.
+- Vocabulary: 5-10 characteristic words, slang or spellings.
+- Emoji usage: how many, which ones and where they go.
+- Sentence length: typical length and rhythm, punctuation and capitalisation habits.
+- Language mix: the languages used and how they are mixed.
+- Recurring phrases: openers, sign-offs and phrases they repeat. Only include phrases that actually appear.
+
+Describe only what the samples show; do not invent traits.
+
+SAMPLES:
+{{samples}}`,
+  },
+];
+
+export const getPromptTemplateDefinition = (key: PromptTemplateKey): PromptTemplateDefinition =>
+  PROMPT_TEMPLATE_DEFINITIONS.find(d => d.key === key)!;
+
+// Built-in versions of `key`, oldest first. Version 1 keeps its original id so recorded refs still match.
+export const getBuiltInTemplates = (key: PromptTemplateKey): PromptTemplate[] => {
+  const definition = getPromptTemplateDefinition(key);
+  return [
+    { id: `built-in:${key}`, key, version: 1, body: definition.body, note: 'Built-in' },
+    ...(definition.updates || []).map((update, i) => ({ id: `built-in:${key}:${i + 2}`, key, version: i + 2, ...update })),
+  ];
+};
+
+// The newest built-in version of `key`
+export const getBuiltInTemplate = (key: PromptTemplateKey): PromptTemplate => getBuiltInTemplates(key).slice(-1)[0];
+
+export const isBuiltInTemplate = (template: PromptTemplate) => !template.workspaceId;
+
+export const toPromptTemplateRef = (template: PromptTemplate): PromptTemplateRef =>
+  ({ id: template.id, key: template.key, version: template.version });
+
+// ------------------------------------------------------------------
+// VERSIONS
+// ------------------------------------------------------------------
+
+/**
+ * Every version of `key`, newest first, built-in ones included. A workspace version saved before a built-in
+ * version with the same number was released takes its place.
+ */
+export const getTemplateVersions = (key: PromptTemplateKey, templates: PromptTemplate[]): PromptTemplate[] => {
+  const own = templates.filter(t => t.key === key);
+  const builtIn = getBuiltInTemplates(key).filter(b => !own.some(t => t.version === b.version));
+  return [...own, ...builtIn].sort((a, b) => b.version - a.version);
+};
+
+/**
+ * The template the workspace uses for `key`: the pinned version if there is one, otherwise the newest.
+ * A pin pointing at a version that no longer exists falls back to the newest.
+ */
+export const resolvePromptTemplate = (
+  key: PromptTemplateKey,
+  templates: PromptTemplate[],
+  pins: PromptTemplatePin[]
+): PromptTemplate => {
+  const versions = getTemplateVersions(key, templates);
+  const pin = pins.find(p => p.key === key);
+  return (pin && versions.find(t => t.version === pin.version)) || versions[0];
+};
+
+// ------------------------------------------------------------------
+// RENDERING
+// ------------------------------------------------------------------
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Fills the {{variables}} of `body`. Unknown variables render empty, and the blank lines left by
+ * empty optional sections are collapsed.
+ */
+export const renderPromptTemplate = (body: string, variables: Record<string, string>): string =>
+  body
+    .replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '')
+    .replace(/\n[ \t]*(\n[ \t]*){2,}/g, '\n\n')
+    .trim();
+
+// Variables used in `body` that the template does not provide
+export const findUnknownVariables = (key: PromptTemplateKey, body: string): string[] => {
+  const known = new Set(getPromptTemplateDefinition(key).variables.map(v => v.name));
+  const used = [...body.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+  return [...new Set(used)].filter(name => !known.has(name));
+};
+
+export const getSampleVariables = (key: PromptTemplateKey): Record<string, string> =>
+  Object.fromEntries(getPromptTemplateDefinition(key).variables.map(v => [v.name, v.sample]));
@@ -0,0 +1,48 @@
+import { AppUser, AuditAction, Provenance, PromptTemplateRef } from '../types';
+
+// Provenance is created by the AI providers, completed with the acting user by the app and shown in the Inspect panel.
+
+type ProvenanceParameters = Record<string, string | number | boolean | null | undefined>;
+
+export const createProvenance = (
+  provider: string,
+  model: string,
+  prompt: string,
+  details: { template?: PromptTemplateRef; referenceImages?: string[]; parameters?: ProvenanceParameters } = {}
+): Provenance => ({
+  provider,
+  model,
+  template: details.template,
+  prompt,
+  referenceImages: details.referenceImages || [],
+  // Unset options are left out rather than stored as empty values
+  parameters: Object.fromEntries(
+    Object.entries(details.parameters || {}).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  ) as Provenance['parameters'],
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Identifies a reference image without copying its data: storage URLs are kept, images that only
+ * exist in the browser (base64) are recorded as `fallback`, e.g. `requirement:<id>`.
+ */
+export const describeReferenceImage = (image: string, fallback: string): string =>
+  image.startsWith('http') ? image : fallback;
+
+export const isReferenceUrl = (reference: string) => reference.startsWith('http');
+
+export const withActor = (provenance: Provenance | undefined, user?: AppUser | null): Provenance | undefined =>
+  provenance && user ? { ...provenance, userId: user.id, userEmail: user.email || undefined } : provenance;
+
+// Adds the acting user to the provenance of a generated artifact
+export const stampActor = <T extends { provenance?: Provenance }>(artifact: T, user?: AppUser | null): T =>
+  artifact.provenance ? { ...artifact, provenance: withActor(artifact.provenance, user) } : artifact;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'idea.generated': 'Idea generated',
+  'requirement.generated': 'Requirement generated',
+  'image.generated': 'Image generated',
+  'image.regenerated': 'Image regenerated',
+  'image.edited': 'Image edited',
+  'caption.generated': 'Caption generated',
+};
@@ -0,0 +1,30 @@
+import { VoiceProfile } from '../types';
+
+// Persona voice: sample captions are kept on the persona, the profile learned from them goes into every caption prompt.
+
+export const MIN_VOICE_SAMPLES = 3;
+export const MAX_VOICE_SAMPLES = 20;
+
+// Scores at or above this count as "sounds like the persona"
+export const GOOD_VOICE_MATCH = 70;
+
+// One sample per blank-line separated block, so a sample can span several lines
+export const parseVoiceSamples = (text: string): string[] =>
+  text.split(/\n\s*\n/).map(sample => sample.trim()).filter(Boolean).slice(0, MAX_VOICE_SAMPLES);
+
+export const formatVoiceSamples = (samples: string[]): string => samples.join('\n\n');
+
+/**
+ * The voice profile as prompt text, or '' without one.
+ */
+export const describeVoiceProfile = (profile?: VoiceProfile): string => {
+  if (!profile) return '';
+  return [
+    profile.summary,
+    profile.vocabulary.length > 0 && `Vocabulary: ${profile.vocabulary.join(', ')}.`,
+    profile.emojiUsage && `Emoji: ${profile.emojiUsage}`,
+    profile.sentenceLength && `Sentences: ${profile.sentenceLength}`,
+    profile.languageMix && `Languages: ${profile.languageMix}`,
+    profile.recurringPhrases.length > 0 && `Recurring phrases: ${profile.recurringPhrases.map(p => `"${p}"`).join(', ')}.`,
+  ].filter(Boolean).join(' ');
+};
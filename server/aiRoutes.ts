@@ -0,0 +1,137 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ModelUsage } from '../types';
+import { geminiProvider } from '../services/geminiService';
+import { measureUsage } from '../services/geminiClient';
+import { AIError } from '../services/aiErrors';
+import { createRateLimiter } from './rateLimit';
+import { sendJson, readJson, identifyCaller, RequestTooLargeError } from './http';
+import { UsageContext, openUsageContext, recordUsage } from './usage';
+
+// Image edits send the full image (plus mask/reference) as base64, so allow generous bodies
+const MAX_BODY_BYTES = 40 * 1024 * 1024;
+
+const rateLimiter = createRateLimiter(Number(process.env.AI_RATE_LIMIT_PER_MINUTE) || 60);
+
+type Operation = (args: any[], signal: AbortSignal, onProgress: (done: number, total: number) => void) => Promise<any>;
+
+// Whitelist of proxied operations; argument order mirrors the AIProvider interface
+const OPERATIONS: Record<string, Operation> = {
+  enhancePersonaProfile: ([profile, template]) => geminiProvider.enhancePersonaProfile(profile, template),
+  analyzePersonaVoice: ([persona, samples, template], signal) => geminiProvider.analyzePersonaVoice(persona, samples || [], template, signal),
+  generateManualVariants: ([persona, activity, feedback, brand, product, template]) =>
+    geminiProvider.generateManualVariants(persona, activity, feedback, brand, product, template),
+  generateAutoTrends: ([persona, brand, product, template]) => geminiProvider.generateAutoTrends(persona, brand, product, template),
+  analyzeIdeaRequirements: ([idea, persona, template]) => geminiProvider.analyzeIdeaRequirements(idea, persona, template),
+  planCarouselSlides: ([idea, persona, slideCount]) => geminiProvider.planCarouselSlides(idea, persona, slideCount),
+  generateUGCImage: ([persona, idea, requirements, brand, quality, format], signal) =>
+    geminiProvider.generateUGCImage(persona, idea, requirements, brand, quality, format, signal),
+  generateCarouselImages: ([persona, idea, requirements, brand, quality, format], signal, onProgress) =>
+    geminiProvider.generateCarouselImages(persona, idea, requirements, brand, quality, format, signal, onProgress),
+  regenerateImage: ([persona, idea, requirements, brand, image, quality], signal) =>
+    geminiProvider.regenerateImage(persona, idea, requirements, brand, image, quality, signal),
+  editImageWithChat: ([image, instruction, referenceImage, mask], signal) =>
+    geminiProvider.editImageWithChat(image, instruction, referenceImage, mask, signal),
+  scoreIdentityConsistency: ([persona, image], signal) => geminiProvider.scoreIdentityConsistency(persona, image, signal),
+  generateCaptionStrategy: ([persona, idea, brand, options, platforms, avoidHashtags, template], signal) =>
+    geminiProvider.generateCaptionStrategy(persona, idea, brand, options, platforms, avoidHashtags || [], template, signal),
+};
+
+const toErrorBody = (err: unknown) => {
+  if (err instanceof AIError) return { kind: err.kind, message: err.message };
+  return { kind: 'unknown', message: "The AI server hit an unexpected error. Please try again." };
+};
+
+/**
+ * Handles POST /api/ai/<operation>. Responds with newline-delimited JSON events
+ * (`progress`, then `result` or `error`) so long operations can report progress.
+ * `result` and `error` carry the operation's token and image `usage`, so failed work is accounted for too, and
+ * with Supabase sign-in the `usageEvent` the server stored for it (body `{ args, charge }`, see server/usage.ts).
+ * Works as plain node:http handler and as connect middleware (Vite dev server).
+ */
+export const handleAIRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'POST') {
+    return sendJson(res, 405, { error: { kind: 'unknown', message: "Method not allowed" } });
+  }
+
+  const operationName = new URL(req.url || '', 'http://localhost').pathname.split('/').filter(Boolean).pop() || '';
+  const operation = OPERATIONS[operationName];
+  if (!operation) {
+    return sendJson(res, 404, { error: { kind: 'unknown', message: `Unknown AI operation: ${operationName}` } });
+  }
+
+  const userId = await identifyCaller(req);
+  if (!userId) {
+    return sendJson(res, 401, { error: { kind: 'auth', message: "Your session has expired. Sign in again to use the AI tools." } });
+  }
+
+  const retryAfterMs = rateLimiter.take(userId);
+  if (retryAfterMs > 0) {
+    const seconds = Math.ceil(retryAfterMs / 1000);
+    return sendJson(
+      res,
+      429,
+      { error: { kind: 'quota', message: `Too many AI requests. Try again in ${seconds}s.` } },
+      { 'Retry-After': String(seconds) }
+    );
+  }
+
+  let body: any;
+  try {
+    body = await readJson(req, MAX_BODY_BYTES);
+  } catch (err) {
+    const error = err instanceof RequestTooLargeError
+      ? new AIError('unknown', "The request is too large. Try a smaller reference image.")
+      : err;
+    return sendJson(res, 400, { error: toErrorBody(error) });
+  }
+  if (!Array.isArray(body.args)) {
+    return sendJson(res, 400, { error: { kind: 'unknown', message: "Expected a JSON body with an `args` array" } });
+  }
+
+  let usageContext: UsageContext | null;
+  try {
+    usageContext = await openUsageContext(req, userId, body.charge);
+  } catch (err) {
+    console.error("Failed to check the workspace budget", err);
+    const status = !(err instanceof AIError) ? 500 : err.kind === 'quota' ? 402 : err.kind === 'auth' ? 403 : 500;
+    return sendJson(res, status, { error: toErrorBody(err) });
+  }
+
+  // Stop paying for work nobody is waiting for
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+  const send = (event: any) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  const usage: ModelUsage[] = [];
+  // Also stored when the operation failed or the caller went away, since the work was still billed
+  const storeUsage = async () => {
+    if (!usageContext) return undefined;
+    try {
+      return (await recordUsage(usageContext, operationName, 'gemini', usage)) || undefined;
+    } catch (err) {
+      console.error("Failed to record usage", err);
+      return undefined;
+    }
+  };
+
+  try {
+    const result = await measureUsage(usage, () =>
+      operation(body.args, controller.signal, (done, total) => send({ type: 'progress', done, total }))
+    );
+    send({ type: 'result', result, usage, usageEvent: await storeUsage() });
+  } catch (err) {
+    const usageEvent = await storeUsage();
+    if (!controller.signal.aborted) {
+      console.error(`AI operation ${operationName} failed`, err);
+      send({ type: 'error', error: toErrorBody(err), usage, usageEvent });
+    }
+  } finally {
+    res.end();
+  }
+};
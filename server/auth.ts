@@ -0,0 +1,86 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { IncomingMessage } from 'node:http';
+
+// Read through `env` so the client-side `define`s in vite.config.ts don't inline build-time values here
+const env = process.env;
+
+// Verified tokens are remembered briefly so every AI call doesn't cost an extra round-trip to Supabase
+const TOKEN_CACHE_MS = 60_000;
+
+const verified = new Map<string, { userId: string; email: string; expiresAt: number }>();
+let client: SupabaseClient | null = null;
+let serviceClient: SupabaseClient | null = null;
+
+// Sign-in is only enforced when the proxy knows the Supabase project the app signs in with
+export const authRequired = () => !!(env.SUPABASE_URL && env.SUPABASE_ANON_KEY);
+
+const getClient = () => {
+  if (!client) {
+    client = createClient(env.SUPABASE_URL!, env.SUPABASE_ANON_KEY!, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return client;
+};
+
+const getBearerToken = (req: IncomingMessage): string | null => {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+};
+
+/**
+ * Returns the id of the signed-in Supabase user making the request, or null when the
+ * request has no valid access token.
+ */
+export const getSignedInUserId = async (req: IncomingMessage): Promise<string | null> => {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const now = Date.now();
+  const cached = verified.get(token);
+  if (cached && cached.expiresAt > now) return cached.userId;
+
+  const { data, error } = await getClient().auth.getUser(token);
+  if (error || !data.user) {
+    verified.delete(token);
+    return null;
+  }
+
+  for (const [key, entry] of verified) {
+    if (entry.expiresAt <= now) verified.delete(key);
+  }
+  verified.set(token, { userId: data.user.id, email: data.user.email || '', expiresAt: now + TOKEN_CACHE_MS });
+  return data.user.id;
+};
+
+// Email of the user whose token getSignedInUserId verified for this request, '' if none
+export const getSignedInUserEmail = (req: IncomingMessage): string => {
+  const token = getBearerToken(req);
+  return (token && verified.get(token)?.email) || '';
+};
+
+/**
+ * Supabase client with the service role key, for data the browser must never read directly
+ * (publishing credentials). It bypasses row level security, so check membership before using it.
+ * Null when SUPABASE_SERVICE_ROLE_KEY is not set.
+ */
+export const getServiceClient = (): SupabaseClient | null => {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  if (!serviceClient) {
+    serviceClient = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return serviceClient;
+};
+
+export const isWorkspaceMember = async (service: SupabaseClient, userId: string, workspaceId: string): Promise<boolean> => {
+  const { data, error } = await service
+    .from('workspace_members')
+    .select('user_id')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+};
@@ -0,0 +1,58 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { authRequired, getSignedInUserId } from './auth';
+
+// Helpers shared by the API routes (AI proxy, publishing)
+
+export class RequestTooLargeError extends Error {
+  constructor() {
+    super("Request body too large");
+    this.name = 'RequestTooLargeError';
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: any, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const readJson = (req: IncomingMessage, maxBytes: number): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new RequestTooLargeError());
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Without Supabase sign-in the caller's address identifies them; a client-chosen id would let them dodge the rate limit
+const getAnonymousId = (req: IncomingMessage): string => req.socket.remoteAddress || 'anonymous';
+
+/**
+ * Who is calling: the verified Supabase user id when sign-in is enforced (null if the token is missing
+ * or invalid), otherwise an anonymous id that is only good for rate limiting.
+ */
+export const identifyCaller = async (req: IncomingMessage): Promise<string | null> => {
+  if (!authRequired()) return getAnonymousId(req);
+  return getSignedInUserId(req).catch(err => {
+    console.error("Failed to verify access token", err);
+    return null;
+  });
+};
+
+// Last path segment(s) of the request URL, e.g. ['instagram', 'status'] for /api/publish/instagram/status
+export const getPathSegments = (req: IncomingMessage, prefix: string): string[] =>
+  new URL(req.url || '', 'http://localhost').pathname.replace(prefix, '').split('/').filter(Boolean);
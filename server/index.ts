@@ -0,0 +1,61 @@
+import { createServer } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { handleAIRequest } from './aiRoutes';
+import { handlePublishRequest } from './publishRoutes';
+
+// Production entry point: serves the built app from dist/, the AI proxy under /api/ai and publishing under /api/publish.
+// Build with `npm run build && npm run build:server`, run with `npm start`.
+
+const PORT = Number(process.env.PORT) || 3000;
+const STATIC_DIR = path.resolve(process.env.STATIC_DIR || 'dist');
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+};
+
+const serveStatic = async (urlPath: string): Promise<{ body: Buffer; type: string }> => {
+  const filePath = path.join(STATIC_DIR, path.normalize(decodeURIComponent(urlPath)).replace(/^(\.\.[/\\])+/, ''));
+  const isFile = filePath.startsWith(STATIC_DIR) && (await stat(filePath).catch(() => null))?.isFile();
+
+  // Anything that isn't a built asset is a client-side route
+  const target = isFile ? filePath : path.join(STATIC_DIR, 'index.html');
+  return {
+    body: await readFile(target),
+    type: MIME_TYPES[path.extname(target)] || 'application/octet-stream',
+  };
+};
+
+if (!process.env.GEMINI_API_KEY) {
+  console.warn("GEMINI_API_KEY is not set; AI requests will fail until it is configured.");
+}
+
+createServer(async (req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  if (pathname.startsWith('/api/ai/')) {
+    return handleAIRequest(req, res);
+  }
+  if (pathname.startsWith('/api/publish/')) {
+    return handlePublishRequest(req, res);
+  }
+
+  try {
+    const { body, type } = await serveStatic(pathname);
+    res.writeHead(200, { 'Content-Type': type });
+    res.end(body);
+  } catch (err) {
+    console.error("Failed to serve", pathname, err);
+    res.writeHead(404);
+    res.end();
+  }
+}).listen(PORT, () => {
+  console.log(`UGC Flow listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,123 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { PublishAccount, PublishPlatform } from '../types';
+import { PublishError } from '../services/publisher';
+import { authRequired, getServiceClient, isWorkspaceMember } from './auth';
+
+// Publishing credentials never reach the browser. With Supabase they live in the `publish_accounts` table, which
+// has no client policies and is only read here with the service role; without Supabase (a single local user) they
+// are kept in a JSON file next to the server. The browser only learns which platforms a persona is connected to.
+
+const env = process.env;
+const getAccountsFile = () => path.resolve(env.PUBLISH_ACCOUNTS_FILE || 'publish-accounts.json');
+
+// Local file: persona id -> accounts
+type LocalAccounts = Record<string, PublishAccount[]>;
+
+const readLocalAccounts = async (): Promise<LocalAccounts> => {
+  try {
+    return JSON.parse(await readFile(getAccountsFile(), 'utf8'));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return {};
+    throw err;
+  }
+};
+
+const writeLocalAccounts = (accounts: LocalAccounts) =>
+  writeFile(getAccountsFile(), JSON.stringify(accounts, null, 2), { mode: 0o600 });
+
+const requireServiceClient = () => {
+  const service = getServiceClient();
+  if (!service) {
+    throw new PublishError('config', "Publishing accounts need SUPABASE_SERVICE_ROLE_KEY on the server.");
+  }
+  return service;
+};
+
+const mapAccountFromDb = (row: any): PublishAccount => ({
+  platform: row.platform,
+  accountId: row.account_id || undefined,
+  accessToken: row.access_token || undefined,
+  webhookUrl: row.webhook_url || undefined,
+});
+
+/**
+ * Whether `userId` may connect and publish with the accounts of `personaId`, i.e. is a member of the persona's
+ * workspace. Without Supabase sign-in there is only the local user.
+ */
+export const canUsePersona = async (userId: string, personaId: string): Promise<boolean> => {
+  if (!authRequired()) return true;
+
+  const service = requireServiceClient();
+  const { data, error } = await service.from('personas').select('workspace_id').eq('id', personaId).maybeSingle();
+  if (error) throw error;
+  return !!data?.workspace_id && isWorkspaceMember(service, userId, data.workspace_id);
+};
+
+export const getPublishAccount = async (personaId: string, platform: PublishPlatform): Promise<PublishAccount | null> => {
+  if (!authRequired()) {
+    return (await readLocalAccounts())[personaId]?.find(a => a.platform === platform) || null;
+  }
+
+  const { data, error } = await requireServiceClient()
+    .from('publish_accounts')
+    .select('*')
+    .eq('persona_id', personaId)
+    .eq('platform', platform)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapAccountFromDb(data) : null;
+};
+
+// Connected platforms of each of `personaIds`
+export const getConnectedPlatforms = async (personaIds: string[]): Promise<Record<string, PublishPlatform[]>> => {
+  const connected: Record<string, PublishPlatform[]> = Object.fromEntries(personaIds.map(id => [id, []]));
+  if (personaIds.length === 0) return connected;
+
+  if (!authRequired()) {
+    const accounts = await readLocalAccounts();
+    for (const id of personaIds) connected[id] = (accounts[id] || []).map(a => a.platform);
+    return connected;
+  }
+
+  const { data, error } = await requireServiceClient()
+    .from('publish_accounts')
+    .select('persona_id, platform')
+    .in('persona_id', personaIds);
+  if (error) throw error;
+  for (const row of data || []) connected[row.persona_id].push(row.platform);
+  return connected;
+};
+
+export const savePublishAccount = async (personaId: string, account: PublishAccount): Promise<void> => {
+  if (!authRequired()) {
+    const accounts = await readLocalAccounts();
+    accounts[personaId] = [...(accounts[personaId] || []).filter(a => a.platform !== account.platform), account];
+    return writeLocalAccounts(accounts);
+  }
+
+  const { error } = await requireServiceClient().from('publish_accounts').upsert({
+    persona_id: personaId,
+    platform: account.platform,
+    account_id: account.accountId?.trim() || null,
+    access_token: account.accessToken?.trim() || null,
+    webhook_url: account.webhookUrl?.trim() || null,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+};
+
+export const deletePublishAccount = async (personaId: string, platform: PublishPlatform): Promise<void> => {
+  if (!authRequired()) {
+    const accounts = await readLocalAccounts();
+    accounts[personaId] = (accounts[personaId] || []).filter(a => a.platform !== platform);
+    return writeLocalAccounts(accounts);
+  }
+
+  const { error } = await requireServiceClient()
+    .from('publish_accounts')
+    .delete()
+    .eq('persona_id', personaId)
+    .eq('platform', platform);
+  if (error) throw error;
+};
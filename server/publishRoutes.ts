@@ -0,0 +1,127 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { PublishAccount, PublishPlatform } from '../types';
+import { PublishError, PublishablePost, getMissingCredentials } from '../services/publisher';
+import { PUBLISHERS } from './publishers';
+import { canUsePersona, deletePublishAccount, getConnectedPlatforms, getPublishAccount, savePublishAccount } from './publishAccounts';
+import { createRateLimiter } from './rateLimit';
+import { sendJson, readJson, identifyCaller, getPathSegments, RequestTooLargeError } from './http';
+
+// Posts travel as image URLs, not image data, so bodies stay small
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const rateLimiter = createRateLimiter(Number(process.env.PUBLISH_RATE_LIMIT_PER_MINUTE) || 20);
+
+// Personas whose connected platforms one request can ask for
+const MAX_PERSONAS_PER_LOOKUP = 200;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Publishers read these fields as-is, so a malformed post is refused here rather than failing inside one
+const isPublishablePost = (post: any): post is PublishablePost =>
+  !!post && typeof post === 'object' &&
+  typeof post.id === 'string' && typeof post.personaId === 'string' &&
+  typeof post.title === 'string' && typeof post.caption === 'string' &&
+  isStringArray(post.imageUrls) && isStringArray(post.hashtags);
+
+const toErrorBody = (err: unknown) => {
+  if (err instanceof PublishError) return { kind: err.kind, message: err.message };
+  return { kind: 'unknown', message: "Publishing failed unexpectedly. Please try again." };
+};
+
+/**
+ * Handles
+ * - POST /api/publish/<platform> (body `{ post }`) and POST /api/publish/<platform>/status (body `{ remoteId, personaId }`),
+ *   answered with a PublishResult. The account is looked up by the post's persona.
+ * - POST /api/publish/<platform>/account (body `{ personaId, account }`, `account: null` disconnects) and
+ *   POST /api/publish/accounts (body `{ personaIds }`), answered with the connected platforms, never the credentials.
+ * Errors come back as `{ error }` with a PublishError kind and message.
+ * Works as plain node:http handler and as connect middleware (Vite dev server).
+ */
+export const handlePublishRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'POST') {
+    return sendJson(res, 405, { error: { kind: 'unknown', message: "Method not allowed" } });
+  }
+
+  const [platform, action] = getPathSegments(req, '/api/publish');
+  const publisher = PUBLISHERS[platform as PublishPlatform];
+  if (platform !== 'accounts' && (!publisher || (action && action !== 'status' && action !== 'account'))) {
+    return sendJson(res, 404, { error: { kind: 'config', message: `Unknown publishing platform: ${platform}` } });
+  }
+
+  const userId = await identifyCaller(req);
+  if (!userId) {
+    return sendJson(res, 401, { error: { kind: 'auth', message: "Your session has expired. Sign in again to publish." } });
+  }
+
+  const retryAfterMs = rateLimiter.take(userId);
+  if (retryAfterMs > 0) {
+    const seconds = Math.ceil(retryAfterMs / 1000);
+    return sendJson(
+      res,
+      429,
+      { error: { kind: 'rejected', message: `Too many publish requests. Try again in ${seconds}s.` } },
+      { 'Retry-After': String(seconds) }
+    );
+  }
+
+  let body: any;
+  try {
+    body = await readJson(req, MAX_BODY_BYTES);
+  } catch (err) {
+    const message = err instanceof RequestTooLargeError
+      ? "The post is too large. Upload the images before publishing."
+      : "Expected a JSON body.";
+    return sendJson(res, 400, { error: { kind: 'unknown', message } });
+  }
+
+  try {
+    if (platform === 'accounts') {
+      const personaIds: string[] = Array.isArray(body.personaIds) ? body.personaIds.slice(0, MAX_PERSONAS_PER_LOOKUP).map(String) : [];
+      const allowed: string[] = [];
+      for (const id of personaIds) {
+        if (await canUsePersona(userId, id)) allowed.push(id);
+      }
+      return sendJson(res, 200, { connected: await getConnectedPlatforms(allowed) });
+    }
+
+    if (!action && !isPublishablePost(body.post)) {
+      return sendJson(res, 400, { error: { kind: 'unknown', message: "Expected a JSON body with a `post` (id, personaId, title, caption, imageUrls and hashtags)" } });
+    }
+
+    const personaId = String((action ? body.personaId : body.post.personaId) || '');
+    if (!personaId || !(await canUsePersona(userId, personaId))) {
+      return sendJson(res, 403, { error: { kind: 'auth', message: "This persona isn't in your workspace, or it hasn't been saved yet." } });
+    }
+
+    if (action === 'account') {
+      if (body.account) {
+        const account: PublishAccount = { ...body.account, platform: platform as PublishPlatform };
+        const missing = getMissingCredentials(account);
+        if (missing) return sendJson(res, 400, { error: { kind: 'config', message: missing } });
+        await savePublishAccount(personaId, account);
+      } else {
+        await deletePublishAccount(personaId, platform as PublishPlatform);
+      }
+      const connected = await getConnectedPlatforms([personaId]);
+      return sendJson(res, 200, { connected: connected[personaId] });
+    }
+
+    const account = await getPublishAccount(personaId, platform as PublishPlatform);
+    if (!account) {
+      return sendJson(res, 400, { error: { kind: 'config', message: "No account is connected for this persona. Connect one in the persona editor." } });
+    }
+
+    if (action === 'status') {
+      if (!publisher.checkStatus) {
+        return sendJson(res, 400, { error: { kind: 'config', message: "This platform publishes immediately; there is no status to check." } });
+      }
+      return sendJson(res, 200, await publisher.checkStatus(String(body.remoteId || ''), account));
+    }
+
+    return sendJson(res, 200, await publisher.publish(body.post, account));
+  } catch (err) {
+    console.error(`Publishing to ${platform} failed`, err);
+    return sendJson(res, 502, { error: toErrorBody(err) });
+  }
+};
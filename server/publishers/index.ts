@@ -0,0 +1,12 @@
+import { PublishPlatform } from '../../types';
+import { Publisher } from '../../services/publisher';
+import { instagramPublisher } from './instagram';
+import { tiktokPublisher } from './tiktok';
+import { localPublisher } from './local';
+
+// Every platform the app can publish to; add a Publisher here to support a new one
+export const PUBLISHERS: Record<PublishPlatform, Publisher> = {
+  instagram: instagramPublisher,
+  tiktok: tiktokPublisher,
+  local: localPublisher,
+};
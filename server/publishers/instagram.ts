@@ -0,0 +1,106 @@
+import { Publisher, PublishError } from '../../services/publisher';
+import { formatCaptionText } from '../../lib/captions';
+import { isJpegUrl } from '../../lib/imageFiles';
+
+// Instagram Graph API content publishing: https://developers.facebook.com/docs/instagram-platform/content-publishing
+// Media is pulled by Instagram from public URLs, so images must already be in public storage, and must be JPEG
+// (the browser converts generated PNGs before publishing, see services/publishService.ts).
+
+const GRAPH_URL = 'https://graph.facebook.com/v21.0';
+const MAX_CAROUSEL_ITEMS = 10;
+// Containers are usually ready immediately for images; give slow ones a little time before publishing
+const CONTAINER_POLL_MS = 2000;
+const CONTAINER_POLL_ATTEMPTS = 10;
+
+// Graph API error codes for expired/invalid tokens and missing permissions
+const AUTH_ERROR_CODES = new Set([10, 102, 190, 200]);
+
+const graphRequest = async (
+  method: 'GET' | 'POST',
+  path: string,
+  params: Record<string, string>,
+  signal?: AbortSignal
+): Promise<any> => {
+  const query = new URLSearchParams(params);
+  let response: Response;
+  try {
+    response = method === 'GET'
+      ? await fetch(`${GRAPH_URL}/${path}?${query}`, { signal })
+      : await fetch(`${GRAPH_URL}/${path}`, { method, body: query, signal });
+  } catch (err) {
+    throw new PublishError('network', "Could not reach Instagram. Please try again.", { cause: err });
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || body?.error) {
+    const error = body?.error;
+    const kind = AUTH_ERROR_CODES.has(error?.code) ? 'auth' : 'rejected';
+    throw new PublishError(
+      kind,
+      kind === 'auth'
+        ? "Instagram rejected the access token. Reconnect the account in the persona's publishing settings."
+        : `Instagram rejected the post: ${error?.error_user_msg || error?.message || `HTTP ${response.status}`}`,
+      { cause: error }
+    );
+  }
+  return body;
+};
+
+const waitUntilReady = async (containerId: string, accessToken: string, signal?: AbortSignal) => {
+  for (let attempt = 0; attempt < CONTAINER_POLL_ATTEMPTS; attempt++) {
+    const { status_code } = await graphRequest('GET', containerId, { fields: 'status_code', access_token: accessToken }, signal);
+    if (status_code === 'FINISHED') return;
+    if (status_code === 'ERROR' || status_code === 'EXPIRED') {
+      throw new PublishError('rejected', "Instagram could not process the image. Check that it is a JPEG within Instagram's size limits.");
+    }
+    await new Promise(resolve => setTimeout(resolve, CONTAINER_POLL_MS));
+  }
+  throw new PublishError('network', "Instagram is taking too long to process the media. Please try again.");
+};
+
+export const instagramPublisher: Publisher = {
+  platform: 'instagram',
+
+  async publish(post, account, signal) {
+    const userId = account.accountId!.trim();
+    const accessToken = account.accessToken!.trim();
+    const images = post.imageUrls.slice(0, MAX_CAROUSEL_ITEMS);
+    if (images.length === 0) throw new PublishError('config', "The post has no images.");
+    if (!images.every(isJpegUrl)) throw new PublishError('config', "Instagram only accepts JPEG images.");
+
+    let containerId: string;
+    if (images.length === 1) {
+      ({ id: containerId } = await graphRequest('POST', `${userId}/media`, {
+        image_url: images[0],
+        caption: formatCaptionText(post),
+        access_token: accessToken,
+      }, signal));
+    } else {
+      const children: string[] = [];
+      for (const url of images) {
+        const { id } = await graphRequest('POST', `${userId}/media`, {
+          image_url: url,
+          is_carousel_item: 'true',
+          access_token: accessToken,
+        }, signal);
+        children.push(id);
+      }
+      ({ id: containerId } = await graphRequest('POST', `${userId}/media`, {
+        media_type: 'CAROUSEL',
+        children: children.join(','),
+        caption: formatCaptionText(post),
+        access_token: accessToken,
+      }, signal));
+    }
+
+    await waitUntilReady(containerId, accessToken, signal);
+    const { id: mediaId } = await graphRequest('POST', `${userId}/media_publish`, {
+      creation_id: containerId,
+      access_token: accessToken,
+    }, signal);
+
+    // The permalink is a nice-to-have; the post is live either way
+    const media = await graphRequest('GET', mediaId, { fields: 'permalink', access_token: accessToken }, signal).catch(() => null);
+    return { status: 'published', remoteId: mediaId, remoteUrl: media?.permalink };
+  },
+};
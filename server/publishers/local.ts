@@ -0,0 +1,88 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Publisher, PublishError } from '../../services/publisher';
+import { formatCaptionText } from '../../lib/captions';
+
+// Test publisher: POSTs the post to the account's webhook URL, or writes it (images + post.json) into a
+// folder under PUBLISH_DIR. It lets the server write files and call arbitrary URLs, so it is only available
+// when ENABLE_LOCAL_PUBLISHER=true, also under `npm run dev` (the dev server listens on every interface).
+
+const env = process.env;
+const isEnabled = () => env.ENABLE_LOCAL_PUBLISHER === 'true';
+const getPublishDir = () => path.resolve(env.PUBLISH_DIR || 'published');
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const loadImage = async (url: string, signal?: AbortSignal): Promise<{ data: Buffer; extension: string }> => {
+  const dataUri = url.match(/^data:([^;]+);base64,(.*)$/);
+  if (dataUri) {
+    return { data: Buffer.from(dataUri[2], 'base64'), extension: EXTENSIONS[dataUri[1]] || 'bin' };
+  }
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+  const type = (response.headers.get('content-type') || '').split(';')[0];
+  return { data: Buffer.from(await response.arrayBuffer()), extension: EXTENSIONS[type] || 'jpg' };
+};
+
+const postToWebhook = async (webhookUrl: string, body: any, signal?: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    throw new PublishError('network', `Could not reach the webhook at ${webhookUrl}.`, { cause: err });
+  }
+  if (!response.ok) {
+    throw new PublishError('rejected', `The webhook answered with HTTP ${response.status}.`);
+  }
+  return response.json().catch(() => null);
+};
+
+export const localPublisher: Publisher = {
+  platform: 'local',
+
+  async publish(post, account, signal) {
+    if (!isEnabled()) {
+      throw new PublishError('config', "The local publisher is disabled on this server. Set ENABLE_LOCAL_PUBLISHER=true to use it.");
+    }
+
+    const publishedAt = new Date().toISOString();
+    const payload = { ...post, formattedCaption: formatCaptionText(post), publishedAt };
+
+    if (account.webhookUrl?.trim()) {
+      const reply = await postToWebhook(account.webhookUrl.trim(), payload, signal);
+      return {
+        status: 'published',
+        remoteId: reply?.id ? String(reply.id) : `webhook-${Date.now()}`,
+        remoteUrl: typeof reply?.url === 'string' ? reply.url : undefined,
+      };
+    }
+
+    const folderName = `${publishedAt.replace(/[:.]/g, '-')}-${post.id.replace(/[^\w-]/g, '_')}`;
+    const folder = path.join(getPublishDir(), folderName);
+    try {
+      await mkdir(folder, { recursive: true });
+      const images: string[] = [];
+      for (const [index, url] of post.imageUrls.entries()) {
+        const { data, extension } = await loadImage(url, signal);
+        const fileName = `${String(index + 1).padStart(2, '0')}.${extension}`;
+        await writeFile(path.join(folder, fileName), data);
+        images.push(fileName);
+      }
+      await writeFile(path.join(folder, 'post.json'), JSON.stringify({ ...payload, images }, null, 2));
+    } catch (err) {
+      throw new PublishError('unknown', "Could not write the post to the publish folder.", { cause: err });
+    }
+
+    return { status: 'published', remoteId: folderName };
+  },
+};
@@ -0,0 +1,87 @@
+import { Publisher, PublishError, PublishResult } from '../../services/publisher';
+import { formatCaptionText } from '../../lib/captions';
+
+// TikTok Content Posting API, photo mode: https://developers.tiktok.com/doc/content-posting-api-reference-photo-post
+// TikTok pulls the photos from their URLs, which must be on a domain verified for the TikTok app.
+// Posting finishes asynchronously, so publish() returns `processing` and checkStatus() reports the outcome.
+
+const API_URL = 'https://open.tiktokapis.com/v2/post/publish';
+const MAX_PHOTOS = 35;
+const MAX_TITLE_LENGTH = 90;
+const MAX_DESCRIPTION_LENGTH = 4000;
+
+// Unaudited TikTok apps may only post privately; set TIKTOK_PRIVACY_LEVEL once the app is approved
+const env = process.env;
+const getPrivacyLevel = () => env.TIKTOK_PRIVACY_LEVEL || 'SELF_ONLY';
+
+const AUTH_ERROR_CODES = new Set(['access_token_invalid', 'scope_not_authorized', 'unaudited_client_can_only_post_to_private_accounts']);
+
+const tiktokRequest = async (path: string, accessToken: string, body: any, signal?: AbortSignal): Promise<any> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_URL}/${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json; charset=UTF-8' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    throw new PublishError('network', "Could not reach TikTok. Please try again.", { cause: err });
+  }
+
+  const json = await response.json().catch(() => null);
+  const error = json?.error;
+  if (!response.ok || (error && error.code !== 'ok')) {
+    const kind = AUTH_ERROR_CODES.has(error?.code) ? 'auth' : 'rejected';
+    throw new PublishError(
+      kind,
+      kind === 'auth'
+        ? `TikTok refused the account: ${error?.message || error?.code}. Reconnect it in the persona's publishing settings.`
+        : `TikTok rejected the post: ${error?.message || error?.code || `HTTP ${response.status}`}`,
+      { cause: error }
+    );
+  }
+  return json.data;
+};
+
+export const tiktokPublisher: Publisher = {
+  platform: 'tiktok',
+
+  async publish(post, account, signal) {
+    const photos = post.imageUrls.slice(0, MAX_PHOTOS);
+    if (photos.length === 0) throw new PublishError('config', "The post has no images.");
+
+    const { publish_id } = await tiktokRequest('content/init/', account.accessToken!.trim(), {
+      post_info: {
+        title: post.title.slice(0, MAX_TITLE_LENGTH),
+        description: formatCaptionText(post).slice(0, MAX_DESCRIPTION_LENGTH),
+        privacy_level: getPrivacyLevel(),
+        auto_add_music: true,
+      },
+      source_info: {
+        source: 'PULL_FROM_URL',
+        photo_cover_index: 0,
+        photo_images: photos,
+      },
+      post_mode: 'DIRECT_POST',
+      media_type: 'PHOTO',
+    }, signal);
+
+    return { status: 'processing', remoteId: publish_id };
+  },
+
+  async checkStatus(remoteId, account, signal): Promise<PublishResult> {
+    const data = await tiktokRequest('status/fetch/', account.accessToken!.trim(), { publish_id: remoteId }, signal);
+
+    if (data.status === 'FAILED') {
+      throw new PublishError('rejected', `TikTok could not publish the post: ${data.fail_reason || 'unknown reason'}`);
+    }
+    if (data.status !== 'PUBLISH_COMPLETE') {
+      return { status: 'processing', remoteId };
+    }
+
+    // Private posts have no public id; keep the publish id so the record still points somewhere
+    const postId = data.publicaly_available_post_id?.[0];
+    return { status: 'published', remoteId: postId ? String(postId) : remoteId };
+  },
+};
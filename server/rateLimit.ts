@@ -0,0 +1,29 @@
+// In-memory sliding-window rate limiter keyed by user. Good enough for a single proxy instance;
+// a multi-instance deployment would need a shared store instead.
+
+const WINDOW_MS = 60_000;
+
+export interface RateLimiter {
+  // Records one request and returns how long to wait (ms) when the user is over the limit, or 0
+  take(userId: string): number;
+}
+
+export const createRateLimiter = (limitPerMinute: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  return {
+    take(userId: string) {
+      const now = Date.now();
+      const recent = (hits.get(userId) || []).filter(t => now - t < WINDOW_MS);
+
+      if (recent.length >= limitPerMinute) {
+        hits.set(userId, recent);
+        return WINDOW_MS - (now - recent[0]);
+      }
+
+      recent.push(now);
+      hits.set(userId, recent);
+      return 0;
+    },
+  };
+};
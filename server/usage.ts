@@ -0,0 +1,105 @@
+import type { IncomingMessage } from 'node:http';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ModelUsage, UsageCharge } from '../types';
+import { AIError } from '../services/aiErrors';
+import { formatCost, getUsageCost } from '../lib/pricing';
+import { authRequired, getServiceClient, getSignedInUserEmail, isWorkspaceMember } from './auth';
+
+// Usage accounting of the AI proxy. With Supabase sign-in the server is the only writer of `usage_events` and
+// refuses work once a workspace has spent its monthly budget; without it the browser keeps its own local record.
+
+export interface UsageContext {
+  service: SupabaseClient;
+  userId: string;
+  userEmail: string;
+  charge: UsageCharge & { workspaceId: string };
+}
+
+// Budgets are per calendar month; the server counts months in UTC
+const startOfMonth = (): string => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+};
+
+// Keeps `id` only if it is a row of `table` in the charged workspace, so usage can't be attributed to other ids
+const verifyWorkspaceRecord = async (service: SupabaseClient, table: 'personas' | 'campaigns', id: unknown, workspaceId: string) => {
+  if (typeof id !== 'string' || !id) return undefined;
+  const { data, error } = await service.from(table).select('id').eq('id', id).eq('workspace_id', workspaceId).maybeSingle();
+  if (error) throw error;
+  return data ? id : undefined;
+};
+
+/**
+ * Checks that the caller may spend on the workspace they charge, and that its monthly budget is not used up.
+ * Returns where to record the usage, or null when the server does not track usage (no Supabase sign-in).
+ * Throws an AIError the caller can show.
+ */
+export const openUsageContext = async (req: IncomingMessage, userId: string, charge: UsageCharge = {}): Promise<UsageContext | null> => {
+  if (!authRequired()) return null;
+
+  const service = getServiceClient();
+  if (!service) {
+    throw new AIError('unknown', "The AI server needs SUPABASE_SERVICE_ROLE_KEY to track usage against workspace budgets.");
+  }
+
+  const workspaceId = charge.workspaceId;
+  if (!workspaceId || !(await isWorkspaceMember(service, userId, workspaceId))) {
+    throw new AIError('auth', "You are not a member of this workspace. Switch workspaces and try again.");
+  }
+
+  const { data: workspace, error } = await service.from('workspaces').select('monthly_budget').eq('id', workspaceId).maybeSingle();
+  if (error) throw error;
+
+  const budget = workspace?.monthly_budget ? Number(workspace.monthly_budget) : null;
+  if (budget) {
+    const { data: events, error: usageError } = await service
+      .from('usage_events')
+      .select('cost')
+      .eq('workspace_id', workspaceId)
+      .gte('created_at', startOfMonth());
+    if (usageError) throw usageError;
+
+    const spent = (events || []).reduce((sum, e) => sum + Number(e.cost), 0);
+    if (spent >= budget) {
+      throw new AIError('quota', `This workspace has used its ${formatCost(budget)} monthly AI budget. A workspace owner can raise it in Usage.`);
+    }
+  }
+
+  return {
+    service,
+    userId,
+    userEmail: getSignedInUserEmail(req),
+    charge: {
+      workspaceId,
+      personaId: await verifyWorkspaceRecord(service, 'personas', charge.personaId, workspaceId),
+      campaignId: await verifyWorkspaceRecord(service, 'campaigns', charge.campaignId, workspaceId),
+    },
+  };
+};
+
+/**
+ * Appends what one operation used to `usage_events` and returns the stored row, or null when nothing was billed.
+ */
+export const recordUsage = async (context: UsageContext, operation: string, provider: string, usage: ModelUsage[]): Promise<any | null> => {
+  if (usage.length === 0) return null;
+
+  const now = new Date().toISOString();
+  const row = {
+    id: `usage-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    operation,
+    provider,
+    usage,
+    cost: getUsageCost(usage),
+    persona_id: context.charge.personaId || null,
+    campaign_id: context.charge.campaignId || null,
+    user_email: context.userEmail,
+    workspace_id: context.charge.workspaceId,
+    user_id: context.userId,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const { error } = await context.service.from('usage_events').insert(row);
+  if (error) throw error;
+  return row;
+};
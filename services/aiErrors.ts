@@ -0,0 +1,36 @@
+// Error taxonomy shared by the AI providers, the API proxy and the UI
+
+export type AIErrorKind = 'quota' | 'safety' | 'invalid-output' | 'network' | 'auth' | 'unknown';
+
+/**
+ * Error thrown by every AI call. `message` is written for the end user;
+ * the original SDK/network error is kept in `cause` for logging.
+ */
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  cause?: unknown;
+
+  constructor(kind: AIErrorKind, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'quota' || this.kind === 'network';
+  }
+}
+
+export const isAbortError = (err: unknown): boolean => (err as any)?.name === 'AbortError';
+
+/**
+ * Maps any error from the AI layer to a message that tells the user what to do next.
+ */
+export const getErrorMessage = (err: unknown, fallback: string): string => {
+  if (err instanceof AIError) return err.message;
+  if (isAbortError(err)) return "The request was cancelled.";
+  return fallback;
+};
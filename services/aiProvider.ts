@@ -0,0 +1,99 @@
+import { Persona, VoiceProfile, GeneratedIdea, RefinementRequirement, GeneratedImage, CaptionVariant, CaptionOptions, OutputFormat, CarouselSlide, IdentityScore, Brand, Product, PromptTemplate } from "../types";
+import { proxyProvider } from "./proxyProvider";
+import { mockProvider } from "./mockProvider";
+
+/**
+ * Everything the workflow asks of an AI backend. Providers are plain objects so the app
+ * can swap between the real Gemini backend and the offline mock without code changes.
+ * `brand` is the campaign's brand, or null for campaigns without one. `product` (product placement mode)
+ * makes ideation build every idea around that product; the ideas carry its id into image and caption generation.
+ * `template` is the workspace's version of the text prompt (see lib/promptTemplates); without one the built-in prompt is used.
+ * Generated ideas, requirements, images and captions carry a `provenance` (lib/provenance) without the acting user.
+ * Every operation reports the tokens and images it used to services/usageService, which prices them with lib/pricing.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  models: { text: string; image: string }; // for cost estimates
+
+  // Persona
+  enhancePersonaProfile(currentProfile: Partial<Persona>, template?: PromptTemplate): Promise<Partial<Persona>>;
+  analyzePersonaVoice(persona: Persona, samples: string[], template?: PromptTemplate, signal?: AbortSignal): Promise<VoiceProfile>;
+
+  // Ideation
+  generateManualVariants(
+    persona: Persona,
+    activity: string,
+    feedback?: string,
+    brand?: Brand | null,
+    product?: Product | null,
+    template?: PromptTemplate
+  ): Promise<GeneratedIdea[]>;
+  generateAutoTrends(persona: Persona, brand?: Brand | null, product?: Product | null, template?: PromptTemplate): Promise<GeneratedIdea[]>;
+
+  // Refinement
+  analyzeIdeaRequirements(idea: GeneratedIdea, persona: Persona, template?: PromptTemplate): Promise<RefinementRequirement[]>;
+  planCarouselSlides(idea: GeneratedIdea, persona: Persona, slideCount?: number): Promise<CarouselSlide[]>;
+
+  // Images
+  generateUGCImage(
+    persona: Persona,
+    idea: GeneratedIdea,
+    requirements: RefinementRequirement[],
+    brand: Brand | null,
+    quality: '1K' | '2K' | '4K',
+    format?: OutputFormat,
+    signal?: AbortSignal
+  ): Promise<GeneratedImage>;
+  generateCarouselImages(
+    persona: Persona,
+    idea: GeneratedIdea,
+    requirements: RefinementRequirement[],
+    brand: Brand | null,
+    quality: '1K' | '2K' | '4K',
+    format?: OutputFormat,
+    signal?: AbortSignal,
+    onSlide?: (done: number, total: number) => void
+  ): Promise<GeneratedImage[]>;
+  regenerateImage(
+    persona: Persona,
+    idea: GeneratedIdea,
+    requirements: RefinementRequirement[],
+    brand: Brand | null,
+    image: GeneratedImage,
+    quality: '1K' | '2K' | '4K',
+    signal?: AbortSignal
+  ): Promise<GeneratedImage>;
+  editImageWithChat(
+    image: GeneratedImage,
+    instruction: string,
+    referenceImage?: string,
+    mask?: string,
+    signal?: AbortSignal
+  ): Promise<GeneratedImage>;
+  scoreIdentityConsistency(persona: Persona, image: GeneratedImage, signal?: AbortSignal): Promise<IdentityScore | null>;
+
+  // Captions: `options.variantCount` alternatives that fit every platform in `platforms` (OutputFormat.platform).
+  // `avoidHashtags` are tags the persona already uses elsewhere this week.
+  // With a persona voice profile every variant is written in that voice and carries a `voiceMatch` rating.
+  generateCaptionStrategy(
+    persona: Persona,
+    idea: GeneratedIdea,
+    brand: Brand | null,
+    options: CaptionOptions,
+    platforms: string[],
+    avoidHashtags: string[],
+    template?: PromptTemplate,
+    signal?: AbortSignal
+  ): Promise<CaptionVariant[]>;
+}
+
+export type AIProviderId = 'gemini' | 'mock';
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: proxyProvider, // Gemini runs behind the API proxy so the key never reaches the browser
+  mock: mockProvider,
+};
+
+// AI_PROVIDER in .env.local picks the backend; vite.config.ts falls back to the mock when no API key is configured
+export const aiProvider: AIProvider = PROVIDERS[process.env.AI_PROVIDER as AIProviderId] || proxyProvider;
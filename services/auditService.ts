@@ -0,0 +1,104 @@
+import { AuditEntry } from "../types";
+import { supabase, mapAuditEntryFromDb, mapAuditEntryToDb } from "../lib/supabase";
+import { localGetAll, localPut, localDelete } from "../lib/localStore";
+import * as SyncService from "./syncService";
+import * as WorkspaceService from "./workspaceService";
+
+// The audit log shows the newest entries; narrow it down with a search instead of paging
+export const AUDIT_LOG_LIMIT = 200;
+
+const byNewest = (a: AuditEntry, b: AuditEntry) => b.createdAt.localeCompare(a.createdAt);
+
+const matchesSearch = (entry: AuditEntry, search: string): boolean => {
+  const needle = search.toLowerCase();
+  return [entry.action, entry.summary, entry.artifactId, entry.userEmail, entry.provenance.model, entry.provenance.prompt]
+    .some(value => value?.toLowerCase().includes(needle));
+};
+
+// PostgREST filter values can't contain its own separators
+const toFilterValue = (search: string) => search.replace(/[,()*%\\]/g, ' ').trim();
+
+// ------------------------------------------------------------------
+// LOAD
+// ------------------------------------------------------------------
+
+/**
+ * Newest audit entries of the active workspace matching `search` (action, summary, artifact id, user, model or prompt).
+ * Entries written on this device wait in the local store until they are synced, so they show up right away
+ * and while offline; once Supabase has them the local copies are dropped.
+ */
+export const loadAuditLog = async (search: string = ''): Promise<AuditEntry[]> => {
+  const workspace = WorkspaceService.requireActiveWorkspace();
+  const query = toFilterValue(search);
+
+  let local: AuditEntry[] = [];
+  try {
+    local = (await localGetAll<AuditEntry>('audit_log'))
+      .filter(e => e.workspaceId === workspace.id && (!query || matchesSearch(e, query)));
+  } catch (e) {
+    console.error("Local store unavailable", e);
+  }
+
+  try {
+    let request = supabase
+      .from('audit_log')
+      .select('*')
+      .eq('workspace_id', workspace.id);
+
+    if (query) {
+      const pattern = `%${query}%`;
+      request = request.or(
+        ['action', 'summary', 'artifact_id', 'user_email', 'provenance->>model', 'provenance->>prompt']
+          .map(column => `${column}.ilike.${pattern}`)
+          .join(',')
+      );
+    }
+
+    const { data, error } = await request.order('created_at', { ascending: false }).limit(AUDIT_LOG_LIMIT);
+    if (error) throw error;
+
+    const remote: AuditEntry[] = (data || []).map(mapAuditEntryFromDb);
+    const unsynced: AuditEntry[] = [];
+    for (const entry of local) {
+      if (await SyncService.hasPendingOperation('audit_log', entry.id)) unsynced.push(entry);
+      else await localDelete('audit_log', entry.id);
+    }
+
+    const remoteIds = new Set(remote.map(e => e.id));
+    return [...unsynced.filter(e => !remoteIds.has(e.id)), ...remote].sort(byNewest).slice(0, AUDIT_LOG_LIMIT);
+  } catch (err) {
+    console.error("Failed to load remote audit log, showing local entries:", err);
+    return local.sort(byNewest).slice(0, AUDIT_LOG_LIMIT);
+  }
+};
+
+// ------------------------------------------------------------------
+// WRITE
+// ------------------------------------------------------------------
+
+/**
+ * Appends an entry to the active workspace's audit log. Entries are never changed afterwards.
+ */
+export const recordAudit = async (
+  entry: Omit<AuditEntry, 'id' | 'createdAt' | 'updatedAt' | 'workspaceId' | 'userId'>
+): Promise<AuditEntry> => {
+  const now = new Date().toISOString();
+  const stamped: AuditEntry = {
+    ...entry,
+    id: `audit-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    createdAt: now,
+    updatedAt: now,
+    workspaceId: WorkspaceService.requireActiveWorkspace().id,
+  };
+
+  await localPut('audit_log', stamped);
+  await SyncService.enqueueSync({
+    table: 'audit_log',
+    action: 'upsert',
+    recordId: stamped.id,
+    payload: mapAuditEntryToDb(stamped),
+    updatedAt: now,
+  });
+
+  return stamped;
+};
@@ -0,0 +1,72 @@
+import type { User } from "@supabase/supabase-js";
+import { AppUser } from "../types";
+import { supabase, isSupabaseConfigured } from "../lib/supabase";
+
+// Sign-in needs a Supabase project; without one the app runs as this single local user
+export const authEnabled = isSupabaseConfigured;
+
+export const LOCAL_USER: AppUser = { id: 'local', email: '' };
+
+const toAppUser = (user?: User | null): AppUser | null =>
+  user ? { id: user.id, email: user.email || '' } : null;
+
+// ------------------------------------------------------------------
+// SESSION
+// ------------------------------------------------------------------
+
+/**
+ * Calls `listener` with the current user right away and again on every sign-in / sign-out.
+ * Token refreshes are reported too, so compare user ids before reacting.
+ */
+export const subscribeAuth = (listener: (user: AppUser | null) => void): (() => void) => {
+  if (!authEnabled) {
+    listener(LOCAL_USER);
+    return () => {};
+  }
+
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => listener(toAppUser(session?.user)));
+  return () => data.subscription.unsubscribe();
+};
+
+// Bearer token for the API proxy; null when signed out or running without Supabase
+export const getAccessToken = async (): Promise<string | null> => {
+  if (!authEnabled) return null;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token || null;
+};
+
+// Headers for JSON requests to the app's own API (/api/ai, /api/publish)
+export const getApiHeaders = async (): Promise<Record<string, string>> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = await getAccessToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+  return headers;
+};
+
+// ------------------------------------------------------------------
+// SIGN IN / OUT
+// ------------------------------------------------------------------
+
+export const signIn = async (email: string, password: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+};
+
+/**
+ * Creates an account. Returns `true` when the project requires email confirmation
+ * before the first sign-in (no session is returned in that case).
+ */
+export const signUp = async (email: string, password: string): Promise<boolean> => {
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw error;
+  return !data.session;
+};
+
+export const signOut = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+};
@@ -0,0 +1,52 @@
+import { Brand } from "../types";
+import { mapBrandFromDb, mapBrandToDb } from "../lib/supabase";
+import { localPut, localDelete } from "../lib/localStore";
+import * as SyncService from "./syncService";
+import * as WorkspaceService from "./workspaceService";
+
+export const BRAND_BUCKET = 'brands';
+
+const byName = (a: Brand, b: Brand) => a.name.localeCompare(b.name);
+
+// ------------------------------------------------------------------
+// LOAD
+// ------------------------------------------------------------------
+
+// The active workspace's brands, merged from the local store and Supabase
+export const loadBrands = async (): Promise<Brand[]> => {
+  const records = await SyncService.loadWorkspaceRecords('brands', WorkspaceService.requireActiveWorkspace().id, mapBrandFromDb);
+  return records.sort(byName);
+};
+
+// ------------------------------------------------------------------
+// WRITE
+// ------------------------------------------------------------------
+
+export const saveBrand = async (brand: Brand): Promise<Brand> => {
+  const stamped = {
+    ...brand,
+    workspaceId: brand.workspaceId || WorkspaceService.requireActiveWorkspace().id,
+    updatedAt: new Date().toISOString()
+  };
+
+  await localPut('brands', stamped);
+  await SyncService.enqueueSync({
+    table: 'brands',
+    action: 'upsert',
+    recordId: stamped.id,
+    payload: mapBrandToDb(stamped),
+    updatedAt: stamped.updatedAt,
+  });
+
+  return stamped;
+};
+
+export const deleteBrand = async (id: string): Promise<void> => {
+  await localDelete('brands', id);
+  await SyncService.enqueueSync({
+    table: 'brands',
+    action: 'delete',
+    recordId: id,
+    updatedAt: new Date().toISOString(),
+  });
+};
@@ -0,0 +1,68 @@
+import { ScheduledPost } from "../types";
+import { mapScheduledPostFromDb, mapScheduledPostToDb } from "../lib/supabase";
+import { localPut, localDelete } from "../lib/localStore";
+import * as SyncService from "./syncService";
+import * as WorkspaceService from "./workspaceService";
+
+// Scheduled posts first (by date), then the unscheduled tray (newest first)
+const byScheduleDate = (a: ScheduledPost, b: ScheduledPost) => {
+  if (a.scheduledAt && b.scheduledAt) return Date.parse(a.scheduledAt) - Date.parse(b.scheduledAt);
+  if (a.scheduledAt) return -1;
+  if (b.scheduledAt) return 1;
+  return (b.updatedAt || '').localeCompare(a.updatedAt || '');
+};
+
+export const getScheduledPostId = (campaignId: string, ideaId: string) => `${campaignId}:${ideaId}`;
+
+// ------------------------------------------------------------------
+// LOAD
+// ------------------------------------------------------------------
+
+// Earlier builds saved a 'publishing' attempt before the request finished; one left behind never completed
+const settleInterruptedPublications = (post: ScheduledPost): ScheduledPost => ({
+  ...post,
+  publications: post.publications?.map(p => (p.status as string) === 'publishing'
+    ? { ...p, status: 'failed', error: "Publishing was interrupted. Check the platform before retrying." }
+    : p),
+});
+
+// The active workspace's calendar, merged from the local store and Supabase
+export const loadScheduledPosts = async (): Promise<ScheduledPost[]> => {
+  const records = await SyncService.loadWorkspaceRecords('scheduled_posts', WorkspaceService.requireActiveWorkspace().id, mapScheduledPostFromDb);
+  return records.map(settleInterruptedPublications).sort(byScheduleDate);
+};
+
+// ------------------------------------------------------------------
+// WRITE
+// ------------------------------------------------------------------
+
+export const saveScheduledPost = async (post: ScheduledPost): Promise<ScheduledPost> => {
+  const stamped = {
+    ...post,
+    workspaceId: post.workspaceId || WorkspaceService.requireActiveWorkspace().id,
+    updatedAt: new Date().toISOString()
+  };
+
+  await localPut('scheduled_posts', stamped);
+  await SyncService.enqueueSync({
+    table: 'scheduled_posts',
+    action: 'upsert',
+    recordId: stamped.id,
+    payload: mapScheduledPostToDb(stamped),
+    updatedAt: stamped.updatedAt,
+  });
+
+  return stamped;
+};
+
+export const deleteScheduledPost = async (id: string): Promise<void> => {
+  await localDelete('scheduled_posts', id);
+  await SyncService.enqueueSync({
+    table: 'scheduled_posts',
+    action: 'delete',
+    recordId: id,
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+export const sortScheduledPosts = (posts: ScheduledPost[]) => [...posts].sort(byScheduleDate);
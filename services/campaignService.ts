@@ -0,0 +1,228 @@
+import { WorkflowState, GeneratedImage, CampaignSummary } from "../types";
+import { supabase, isSupabaseConfigured, mapCampaignSummaryFromDb, mapCampaignToDb, uploadImage } from "../lib/supabase";
+import { localGetAll, localGet, localPut, localDelete } from "../lib/localStore";
+import * as SyncService from "./syncService";
+import * as WorkspaceService from "./workspaceService";
+import { DEFAULT_FORMAT_ID } from "../lib/formats";
+import { DEFAULT_CAPTION_OPTIONS } from "../lib/captions";
+
+export const CAMPAIGN_BUCKET = 'campaigns';
+
+// Helper to turn a base64 data URI (as returned by the image model) into an uploadable Blob
+const dataUriToBlob = (dataUri: string): Blob => {
+  const [header, base64] = dataUri.split(',');
+  const mimeType = header.match(/data:(.*?);/)?.[1] || 'image/png';
+  const bytes = atob(base64);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    buffer[i] = bytes.charCodeAt(i);
+  }
+  return new Blob([buffer], { type: mimeType });
+};
+
+// Builds a human readable title for the "Recent campaigns" list
+export const getCampaignTitle = (state: WorkflowState): string => {
+  const titles: string[] = [];
+  for (const pid of state.selectedPersonaIds) {
+    const selected = state.selectedIdeaIds[pid] || [];
+    for (const idea of state.generatedIdeas[pid] || []) {
+      if (selected.includes(idea.id)) titles.push(idea.title);
+    }
+  }
+  if (titles.length > 0) return titles.join(' · ');
+  if (state.manualActivityInput) return state.manualActivityInput;
+  return state.mode === 'auto' ? 'Trend campaign' : 'Untitled campaign';
+};
+
+// ------------------------------------------------------------------
+// IMAGE PERSISTENCE
+// ------------------------------------------------------------------
+
+/**
+ * Uploads every generated image (and every edit version) that is still a base64 data URI to the 'campaigns' bucket.
+ * Returns a map of versionId (or imageId for unversioned images) -> public URL for what was uploaded.
+ */
+export const uploadGeneratedImages = async (
+  workspaceId: string,
+  campaignId: string,
+  generatedImages: Record<string, GeneratedImage[]>
+): Promise<Record<string, string>> => {
+  const uploaded: Record<string, string> = {};
+  // Local mode has no storage; the data URIs are what gets kept
+  if (!isSupabaseConfigured) return uploaded;
+
+  const upload = async (key: string, dataUri: string) => {
+    try {
+      const fileName = `${campaignId}/${key}-${Date.now()}.png`;
+      uploaded[key] = await uploadImage(dataUriToBlob(dataUri), workspaceId, fileName, CAMPAIGN_BUCKET);
+    } catch (e) {
+      // Keep the data URI in state; the next save will retry the upload
+      console.error("Failed to upload generated image", key, e);
+    }
+  };
+
+  for (const images of Object.values(generatedImages)) {
+    for (const img of images) {
+      if (img.versions && img.versions.length > 0) {
+        for (const version of img.versions) {
+          if (version.imageUrl.startsWith('data:')) await upload(version.id, version.imageUrl);
+        }
+      } else if (img.imageUrl.startsWith('data:')) {
+        await upload(img.id, img.imageUrl);
+      }
+    }
+  }
+
+  return uploaded;
+};
+
+// Swaps uploaded storage URLs into the images; version ids are immutable, so this is safe to apply to newer state
+export const applyUploadedUrls = (
+  generatedImages: Record<string, GeneratedImage[]>,
+  uploaded: Record<string, string>
+): Record<string, GeneratedImage[]> => {
+  const next: Record<string, GeneratedImage[]> = {};
+  for (const [ideaId, images] of Object.entries(generatedImages)) {
+    next[ideaId] = images.map(img => {
+      if (!img.versions || img.versions.length === 0) {
+        return uploaded[img.id] && img.imageUrl.startsWith('data:') ? { ...img, imageUrl: uploaded[img.id] } : img;
+      }
+      const versions = img.versions.map(v => uploaded[v.id] ? { ...v, imageUrl: uploaded[v.id] } : v);
+      const current = versions.find(v => v.id === img.currentVersionId);
+      return { ...img, versions, imageUrl: current?.imageUrl || img.imageUrl };
+    });
+  }
+  return next;
+};
+
+// ------------------------------------------------------------------
+// CAMPAIGN CRUD
+// ------------------------------------------------------------------
+
+// Local copy of a campaign: the dashboard summary plus the full workflow snapshot
+interface LocalCampaign extends CampaignSummary {
+  state: WorkflowState;
+}
+
+// Images that could not be uploaded while offline are uploaded when the queued save is replayed
+SyncService.registerUpsertPreparer('campaigns', async (row) => {
+  const uploaded = await uploadGeneratedImages(row.workspace_id, row.id, row.state.generatedImages || {});
+  if (Object.keys(uploaded).length === 0) return row;
+
+  return { ...row, state: { ...row.state, generatedImages: applyUploadedUrls(row.state.generatedImages, uploaded) } };
+});
+
+export const saveCampaign = async (state: WorkflowState): Promise<void> => {
+  if (!state.campaignId) throw new Error("Campaign has no id");
+
+  const workspaceId = state.workspaceId || WorkspaceService.requireActiveWorkspace().id;
+  const row = mapCampaignToDb({ ...state, workspaceId }, getCampaignTitle(state), workspaceId);
+  await localPut<LocalCampaign>('campaigns', {
+    ...mapCampaignSummaryFromDb(row),
+    state: row.state,
+  });
+  await SyncService.enqueueSync({
+    table: 'campaigns',
+    action: 'upsert',
+    recordId: row.id,
+    payload: row,
+    updatedAt: row.updated_at,
+  });
+};
+
+// Campaigns stored locally before workspaces existed join the first workspace that loads them
+const loadLocalCampaigns = async (workspaceId: string): Promise<LocalCampaign[]> => {
+  const campaigns: LocalCampaign[] = [];
+  for (const campaign of await localGetAll<LocalCampaign>('campaigns')) {
+    if (!campaign.workspaceId) {
+      const adopted = { ...campaign, workspaceId, state: { ...campaign.state, workspaceId } };
+      await localPut<LocalCampaign>('campaigns', adopted);
+      campaigns.push(adopted);
+    } else if (campaign.workspaceId === workspaceId) {
+      campaigns.push(campaign);
+    }
+  }
+  return campaigns;
+};
+
+export const fetchRecentCampaigns = async (limit: number = 6): Promise<CampaignSummary[]> => {
+  const workspace = WorkspaceService.requireActiveWorkspace();
+  const byId = new Map<string, CampaignSummary>();
+
+  for (const { state, ...summary } of await loadLocalCampaigns(workspace.id)) {
+    byId.set(summary.id, summary);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('id, title, step, persona_ids, updated_at, workspace_id, owner_id')
+      .eq('workspace_id', workspace.id)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    for (const remote of (data || []).map(mapCampaignSummaryFromDb)) {
+      const local = byId.get(remote.id);
+      if (!local || SyncService.isNewer(remote.updatedAt, local.updatedAt)) byId.set(remote.id, remote);
+    }
+  } catch (err) {
+    console.error("Failed to load remote campaigns, showing local copies:", err);
+  }
+
+  return [...byId.values()]
+    .sort((a, b) => (SyncService.isNewer(b.updatedAt, a.updatedAt) ? 1 : -1))
+    .slice(0, limit);
+};
+
+export const loadCampaign = async (id: string): Promise<WorkflowState> => {
+  const local = await localGet<LocalCampaign>('campaigns', id);
+  let saved = local?.state;
+
+  try {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('state, updated_at, workspace_id')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    if (!local || SyncService.isNewer(data.updated_at, local.updatedAt)) {
+      saved = { ...data.state, workspaceId: data.workspace_id } as WorkflowState;
+    }
+  } catch (err) {
+    if (!saved) throw err;
+    console.error("Failed to load remote campaign, using local copy:", err);
+  }
+
+  if (!saved) throw new Error("Campaign not found");
+
+  return {
+    ...saved,
+    campaignId: id,
+    brandId: saved.brandId || null,
+    featuredProductId: saved.featuredProductId || null,
+    captionOptions: { ...DEFAULT_CAPTION_OPTIONS, ...saved.captionOptions },
+    postType: saved.postType || 'single',
+    // Campaigns saved before multi-format support only had the 4:5 feed format
+    targetFormats: saved.targetFormats || [DEFAULT_FORMAT_ID],
+    ideaFormats: saved.ideaFormats || {},
+    // Older campaigns stored a single selected idea per persona
+    selectedIdeaIds: Object.fromEntries(
+      Object.entries(saved.selectedIdeaIds || {}).map(([pid, ids]) => [pid, typeof ids === 'string' ? [ids] : ids])
+    ),
+    // A campaign saved mid-generation has no images yet, so resume it from the settings screen
+    step: saved.step === 'generation' ? 'refinement' : saved.step,
+  };
+};
+
+export const deleteCampaign = async (id: string): Promise<void> => {
+  await localDelete('campaigns', id);
+  await SyncService.enqueueSync({
+    table: 'campaigns',
+    action: 'delete',
+    recordId: id,
+    updatedAt: new Date().toISOString(),
+  });
+};
@@ -0,0 +1,292 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { GoogleGenAI, ApiError, GenerateContentParameters, GenerateContentResponse, FinishReason, MediaModality, Schema, Type } from "@google/genai";
+import { ModelUsage } from "../types";
+import { AIError } from "./aiErrors";
+
+// Server-side only: the key is read from the environment of the API proxy, never from the client bundle
+const getClient = () => {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new AIError('auth', "The AI server has no Gemini API key. Set GEMINI_API_KEY in .env.local and restart it.");
+  }
+  return new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+};
+
+export const TEXT_TIMEOUT_MS = 90_000;
+export const IMAGE_TIMEOUT_MS = 240_000;
+
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 16_000;
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+// Maps SDK and network failures onto the shared error taxonomy
+const toAIError = (err: unknown): AIError => {
+  if (err instanceof AIError) return err;
+
+  if (err instanceof ApiError) {
+    if (err.status === 429) {
+      return new AIError('quota', "The AI rate limit or quota was reached. Wait a minute and try again, or check your plan's quota.", { status: err.status, cause: err });
+    }
+    if (err.status === 401 || err.status === 403 || /api key/i.test(err.message)) {
+      return new AIError('auth', "The Gemini API key is missing or invalid. Check GEMINI_API_KEY in .env.local.", { status: err.status, cause: err });
+    }
+    if (err.status >= 500) {
+      return new AIError('network', "The AI service is temporarily unavailable. Please try again shortly.", { status: err.status, cause: err });
+    }
+    return new AIError('unknown', `The AI request was rejected: ${err.message}`, { status: err.status, cause: err });
+  }
+
+  // fetch() rejects with a TypeError when the network is down or the request is blocked
+  if (err instanceof TypeError) {
+    return new AIError('network', "Could not reach the AI service. Check your internet connection.", { cause: err });
+  }
+
+  return new AIError('unknown', (err as any)?.message || "Unexpected AI error.", { cause: err });
+};
+
+// ------------------------------------------------------------------
+// USAGE
+// ------------------------------------------------------------------
+
+// Usage of the operation the current request belongs to (see measureUsage)
+const usageMeter = new AsyncLocalStorage<ModelUsage[]>();
+
+/**
+ * Runs `operation` and adds the tokens and images of every response it receives to `usage`, per model.
+ * `usage` is filled in as responses arrive, so it is complete even when the operation fails halfway.
+ */
+export const measureUsage = <T>(usage: ModelUsage[], operation: () => Promise<T>): Promise<T> =>
+  usageMeter.run(usage, operation);
+
+const recordUsage = (model: string, response: GenerateContentResponse) => {
+  const usage = usageMeter.getStore();
+  if (!usage) return;
+
+  const metadata = response.usageMetadata;
+  const imageTokens = (metadata?.candidatesTokensDetails || [])
+    .filter(detail => detail.modality === MediaModality.IMAGE)
+    .reduce((sum, detail) => sum + (detail.tokenCount || 0), 0);
+  const images = (response.candidates?.[0]?.content?.parts || []).filter(part => part.inlineData?.data).length;
+
+  let record = usage.find(r => r.model === model);
+  if (!record) {
+    record = { model, inputTokens: 0, outputTokens: 0, imageTokens: 0, images: 0 };
+    usage.push(record);
+  }
+  record.inputTokens += (metadata?.promptTokenCount || 0) + (metadata?.toolUsePromptTokenCount || 0);
+  record.outputTokens += (metadata?.candidatesTokenCount || 0) - imageTokens + (metadata?.thoughtsTokenCount || 0);
+  record.imageTokens += imageTokens;
+  record.images += images;
+};
+
+// ------------------------------------------------------------------
+// REQUESTS
+// ------------------------------------------------------------------
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with jitter so parallel jobs don't retry in lockstep
+const backoffDelay = (attempt: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+const checkSafety = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    throw new AIError(
+      'safety',
+      "The request was blocked by the AI safety filters. Rephrase the idea or edit instruction and try again.",
+      { cause: blockReason || finishReason }
+    );
+  }
+};
+
+const requestOnce = async (params: GenerateContentParameters, timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await getClient().models.generateContent({
+      ...params,
+      config: { ...params.config, abortSignal: controller.signal },
+    });
+  } catch (err) {
+    if (timedOut) {
+      throw new AIError('network', "The AI request timed out. Please try again.", { cause: err });
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * `generateContent` with a timeout, retries with exponential backoff on rate limits, 5xx and network
+ * failures, and safety blocks surfaced as an `AIError`. Cancelling via `signal` rejects with the abort error.
+ * Every response's usage is added to the operation's meter.
+ */
+export const generate = async (
+  params: GenerateContentParameters,
+  options: RequestOptions = {}
+): Promise<GenerateContentResponse> => {
+  const { signal, timeoutMs = TEXT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await requestOnce(params, timeoutMs, signal);
+      // Blocked responses are billed too
+      recordUsage(params.model, response);
+      checkSafety(response);
+      return response;
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason ?? err;
+
+      const error = toAIError(err);
+      if (!error.retryable || attempt >= retries) throw error;
+
+      console.warn(`Gemini request failed (${error.kind}), retrying`, attempt + 1, err);
+      await wait(backoffDelay(attempt), signal);
+    }
+  }
+};
+
+/**
+ * Returns the first inline image of a response as base64, or throws an `invalid-output` error.
+ */
+export const getInlineImage = (response: GenerateContentResponse): string => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) return part.inlineData.data;
+  }
+  throw new AIError('invalid-output', "The AI did not return an image. Please try again.");
+};
+
+// ------------------------------------------------------------------
+// JSON OUTPUT
+// ------------------------------------------------------------------
+
+// Returns a description of the first mismatch, or null when `value` fits the schema
+const validateSchema = (value: any, schema: Schema, path = 'root'): string | null => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${path} should be an object`;
+      for (const key of schema.required || []) {
+        if (value[key] === undefined || value[key] === null) return `${path}.${key} is missing`;
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        if (value[key] === undefined || value[key] === null) continue;
+        const problem = validateSchema(value[key], propSchema, `${path}.${key}`);
+        if (problem) return problem;
+      }
+      return null;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return `${path} should be an array`;
+      if (!schema.items) return null;
+      for (let i = 0; i < value.length; i++) {
+        const problem = validateSchema(value[i], schema.items, `${path}[${i}]`);
+        if (problem) return problem;
+      }
+      return null;
+    }
+    case Type.STRING:
+      return typeof value === 'string' ? null : `${path} should be a string`;
+    case Type.INTEGER:
+    case Type.NUMBER:
+      return typeof value === 'number' && !isNaN(value) ? null : `${path} should be a number`;
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? null : `${path} should be a boolean`;
+    default:
+      return null;
+  }
+};
+
+// Accepts bare JSON as well as JSON wrapped in prose or ```json fences (search-grounded answers)
+const parseJson = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const match = text.match(/[\[{][\s\S]*[\]}]/);
+    if (!match) throw new Error("No JSON found in the response");
+    return JSON.parse(match[0]);
+  }
+};
+
+const parseAndValidate = <T>(text: string, schema?: Schema): { value?: T; problem?: string } => {
+  try {
+    const value = parseJson(text);
+    const problem = schema ? validateSchema(value, schema) : null;
+    return problem ? { problem } : { value };
+  } catch (e: any) {
+    return { problem: e?.message || "Invalid JSON" };
+  }
+};
+
+/**
+ * Runs a request that should answer with JSON, parses it and validates it against `schema`
+ * (defaults to the request's `responseSchema`). A malformed answer gets one repair round-trip
+ * before failing with an `invalid-output` error.
+ */
+export const generateJson = async <T>(
+  params: GenerateContentParameters,
+  options: RequestOptions & { schema?: Schema } = {}
+): Promise<T> => {
+  const schema = options.schema || (params.config?.responseSchema as Schema | undefined);
+
+  const response = await generate(params, options);
+  const text = response.text || "";
+  const first = parseAndValidate<T>(text, schema);
+  if (!first.problem) return first.value!;
+
+  console.warn("Gemini returned invalid JSON, attempting repair:", first.problem);
+
+  const repaired = await generate({
+    model: params.model,
+    contents: `The JSON below is invalid (${first.problem}). Return ONLY the corrected JSON with the same content, no commentary or markdown.
+
+${text}`,
+    config: {
+      responseMimeType: 'application/json',
+      ...(schema ? { responseSchema: schema } : {}),
+    },
+  }, options);
+
+  const second = parseAndValidate<T>(repaired.text || "", schema);
+  if (second.problem) {
+    throw new AIError('invalid-output', "The AI returned an unexpected response format. Please try again.", { cause: second.problem });
+  }
+  return second.value!;
+};
@@ -1,77 +1,178 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Persona, GeneratedIdea, RefinementRequirement, GeneratedImage, CaptionData } from "../types";
-
-const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type } from "@google/genai";
+import { Persona, VoiceProfile, VoiceMatch, GeneratedIdea, RefinementRequirement, GeneratedImage, CaptionVariant, CaptionOptions, OutputFormat, CarouselSlide, IdentityScore, Brand, Product, TieredHashtag, PromptTemplate, PromptTemplateKey, PromptTemplateRef } from "../types";
+import { getFormat } from "../lib/formats";
+import { CAPTION_TONES, CAPTION_LENGTHS, EMOJI_DENSITIES, MAX_CAPTION_VARIANTS, getCaptionLimits } from "../lib/captions";
+import { HASHTAG_TIERS, isBannedHashtag, orderByTier } from "../lib/hashtags";
+import { MAX_FEATURED_PRODUCT_PHOTOS, MAX_PRODUCT_REFERENCES, normalizeHashtag } from "../lib/brands";
+import { getBuiltInTemplate, renderPromptTemplate, toPromptTemplateRef } from "../lib/promptTemplates";
+import { createProvenance, describeReferenceImage } from "../lib/provenance";
+import { describePersonaStyle } from "../lib/personaStyle";
+import { describeVoiceProfile } from "../lib/voice";
+import { GEMINI_IMAGE_MODEL, GEMINI_TEXT_MODEL } from "../lib/pricing";
+import { generate, generateJson, getInlineImage, IMAGE_TIMEOUT_MS } from "./geminiClient";
+import { AIError } from "./aiErrors";
+import { AIProvider } from "./aiProvider";
+
+const TEXT_MODEL = GEMINI_TEXT_MODEL;
+const IMAGE_MODEL = GEMINI_IMAGE_MODEL;
+const PROVIDER_ID = 'gemini';
+
+// Only objects in the configured Supabase project's storage are downloaded; anything else has to be sent as base64.
+// The proxy fetches these URLs on the caller's behalf, so an open fetch would let them reach internal hosts.
+const isStorageUrl = (url: string): boolean => {
+  if (!process.env.SUPABASE_URL) return false;
+  try {
+    const target = new URL(url);
+    return target.origin === new URL(process.env.SUPABASE_URL).origin && target.pathname.startsWith('/storage/v1/object/');
+  } catch {
+    return false;
+  }
+};
 
 // Helper to download an image from a URL (e.g., Supabase) and convert to base64
 // This is necessary because the Gemini API `inlineData` expects base64 strings.
+// Runs inside the API proxy, so it sticks to fetch/btoa which exist in both Node and the browser.
 const urlToBase64 = async (url: string): Promise<string | null> => {
+  if (!isStorageUrl(url)) {
+    throw new AIError('unknown', "An image linked from outside the app can't be sent to the AI. Upload it again from your device and try again.");
+  }
   try {
-    const response = await fetch(url);
-    const blob = await response.blob();
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        // Remove the "data:image/jpeg;base64," prefix
-        resolve(base64String.split(',')[1]);
-      };
-      reader.readAsDataURL(blob);
-    });
+    const response = await fetch(url, { redirect: 'error' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
   } catch (e) {
     console.error("Failed to fetch image for AI generation:", url, e);
     return null;
   }
 };
 
+// Persisted images live in storage; fresh ones, and everything in local mode, are data URIs.
+// Older persona rows can still hold bare base64.
+const imageToBase64 = async (imageUrl: string): Promise<string | null> => {
+  if (imageUrl.startsWith('http')) return urlToBase64(imageUrl);
+  if (imageUrl.startsWith('data:')) return imageUrl.split(',')[1] || null;
+  return imageUrl || null;
+};
+
+const findProduct = (brand?: Brand | null, productId?: string): Product | undefined =>
+  productId ? brand?.products.find(p => p.id === productId) : undefined;
+
+// Fills the workspace's version of a prompt template, or the built-in one when none was sent
+const renderPrompt = (
+  key: PromptTemplateKey,
+  template: PromptTemplate | undefined,
+  variables: Record<string, string>
+): { prompt: string; template: PromptTemplateRef } => {
+  const used = template?.key === key ? template : getBuiltInTemplate(key);
+  return { prompt: renderPromptTemplate(used.body, variables), template: toPromptTemplateRef(used) };
+};
+
+// Product placement brief for ideation prompts
+const describeProductPlacement = (persona: Persona, product?: Product | null): string => {
+  if (!product) return '';
+  return `PRODUCT PLACEMENT: Every idea MUST be built around ${persona.name} holding, using or showing ${product.name}${product.description ? ` (${product.description})` : ''}.\n` +
+    `The product must be clearly visible and central to the concept, while the post still feels like authentic UGC rather than an ad.`;
+};
+
+// Brand briefing appended to the text prompts of a brand campaign
+const describeBrand = (brand?: Brand | null): string => {
+  if (!brand) return '';
+
+  const lines = [`BRAND: This post is sponsored content for ${brand.name}.`];
+  if (brand.toneOfVoice) lines.push(`Brand tone of voice: ${brand.toneOfVoice}.`);
+  if (brand.products.length > 0) {
+    lines.push(`Brand products: ${brand.products.map(p => (p.description ? `${p.name} (${p.description})` : p.name)).join('; ')}.`);
+  }
+  if (brand.bannedWords.length > 0) {
+    lines.push(`NEVER use these words or close variants: ${brand.bannedWords.join(', ')}.`);
+  }
+  return lines.join('\n');
+};
+
+// Visual rules and product references added to image prompts of a brand campaign.
+// An idea built around a product gets all of that product's photos instead of one photo per catalogue product.
+const buildBrandImageContext = async (
+  brand?: Brand | null,
+  productId?: string
+): Promise<{ text: string; parts: any[]; urls: string[] }> => {
+  if (!brand) return { text: '', parts: [], urls: [] };
+
+  const featured = findProduct(brand, productId);
+  if (featured) {
+    const parts: any[] = [];
+    const urls: string[] = [];
+    for (const url of featured.imageUrls.slice(0, MAX_FEATURED_PRODUCT_PHOTOS)) {
+      const b64 = await imageToBase64(url);
+      if (!b64) continue;
+      parts.push({ inlineData: { mimeType: 'image/jpeg', data: b64 } });
+      urls.push(url);
+    }
+
+    let text = ` Brand: ${brand.name}.`;
+    if (brand.visualGuidelines) text += ` Brand visual guidelines: ${brand.visualGuidelines}.`;
+    text += ` The photo MUST clearly show ${featured.name}${featured.description ? ` (${featured.description})` : ''} held or used by the person.`;
+    if (parts.length > 0) {
+      text += ` The final ${parts.length} reference image(s) show this product. Reproduce its shape, colours, label text, logo and packaging EXACTLY as in the references;` +
+        ` do not invent, mirror or blur any lettering.`;
+    }
+    return { text, parts, urls };
+  }
+
+  const parts: any[] = [];
+  const urls: string[] = [];
+  const shown: string[] = [];
+  for (const product of brand.products) {
+    if (parts.length >= MAX_PRODUCT_REFERENCES) break;
+    const url = product.imageUrls[0];
+    const b64 = url && (await imageToBase64(url));
+    if (!b64) continue;
+    parts.push({ inlineData: { mimeType: 'image/jpeg', data: b64 } });
+    urls.push(url);
+    shown.push(product.name);
+  }
+
+  let text = ` Brand: ${brand.name}.`;
+  if (brand.visualGuidelines) text += ` Brand visual guidelines: ${brand.visualGuidelines}.`;
+  if (shown.length > 0) {
+    text += ` The final ${shown.length} reference image(s) show the brand's products (${shown.join(', ')}).` +
+      ` Where it fits the scene, feature one of them naturally and reproduce its packaging and label exactly as in the reference.`;
+  }
+  return { text, parts, urls };
+};
+
 // ------------------------------------------------------------------
 // PERSONA ENHANCEMENT
 // ------------------------------------------------------------------
 
 export const enhancePersonaProfile = async (
-  currentProfile: Partial<Persona>
+  currentProfile: Partial<Persona>,
+  template?: PromptTemplate
 ): Promise<Partial<Persona>> => {
-  const ai = getClient();
-  
-  const prompt = `
-    You are an expert Casting Director and Social Media Strategist.
-    
-    Task: Create or refine a realistic influencer persona profile based on the provided images and any existing text.
-    
-    INSTRUCTIONS:
-    1. VISUAL ANALYSIS: Analyze the uploaded images (Avatar and Reference images) to determine visual style, ethnicity, age, vibe, and likely location.
-    2. TEXT ANALYSIS (CRITICAL):
-       - Read the "Current Inputs" below carefully.
-       - If the user has typed ANYTHING (e.g., specific descriptors like "gay", "minimalist", "goth", "tech founder"), YOU MUST RESPECT THIS CONTEXT.
-       - Use these existing keywords to shape the entire persona.
-       - Example: If 'Bio' mentions "Gay lifestyle", ensure the generated Niche, Location, and Name align perfectly with that specific demographic and culture.
-       - If inputs are empty, invent suitable details based solely on the images.
-       
-    3. GENERATION GOALS:
-       - Name: Realistic, matching the ethnicity/vibe/identity.
-       - Location: A specific City and Country. If one is provided, keep it or refine the formatting.
-       - Niche: List 3-5 specific niches (e.g. 'Streetwear', 'Interior Design').
-       - Bio: A compelling, short bio (max 2 sentences). Preserve the core meaning of any existing bio text, just make it punchier and more professional.
-
-    Current Inputs:
-    Name: ${currentProfile.name || "Unknown"}
-    Location: ${currentProfile.location || "Unknown"}
-    Niche: ${currentProfile.niche?.join(', ') || "Unknown"}
-    Bio: ${currentProfile.bio || "Unknown"}
-  `;
+  const { prompt } = renderPrompt('casting-director', template, {
+    'persona.name': currentProfile.name || "Unknown",
+    'persona.location': currentProfile.location || "Unknown",
+    'persona.niche': currentProfile.niche?.join(', ') || "Unknown",
+    'persona.bio': currentProfile.bio || "Unknown",
+    'persona.style': describePersonaStyle(currentProfile.style) || "Unknown",
+  });
 
   const parts: any[] = [{ text: prompt }];
 
   // Add Avatar
   if (currentProfile.avatarUrl) {
-    const b64 = await urlToBase64(currentProfile.avatarUrl);
+    const b64 = await imageToBase64(currentProfile.avatarUrl);
     if (b64) parts.push({ inlineData: { mimeType: 'image/jpeg', data: b64 } });
   }
 
   // Add Reference Images
   if (currentProfile.refImages) {
     for (const imgUrl of currentProfile.refImages) {
-      const b64 = await urlToBase64(imgUrl);
+      const b64 = await imageToBase64(imgUrl);
       if (b64) parts.push({ inlineData: { mimeType: 'image/jpeg', data: b64 } });
     }
   }
@@ -84,12 +185,26 @@ export const enhancePersonaProfile = async (
       country: { type: Type.STRING },
       niche: { type: Type.ARRAY, items: { type: Type.STRING } },
       bio: { type: Type.STRING },
+      style: {
+        type: Type.OBJECT,
+        properties: {
+          ageRange: { type: Type.STRING },
+          bodyType: { type: Type.STRING },
+          hair: { type: Type.STRING },
+          wardrobe: { type: Type.ARRAY, items: { type: Type.STRING } },
+          colorPalette: { type: Type.ARRAY, items: { type: Type.STRING } },
+          photographyStyle: { type: Type.STRING },
+          cameraLook: { type: Type.STRING },
+          forbidden: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["ageRange", "bodyType", "hair", "wardrobe", "colorPalette", "photographyStyle", "cameraLook", "forbidden"],
+      },
     },
-    required: ["name", "location", "country", "niche", "bio"],
+    required: ["name", "location", "country", "niche", "bio", "style"],
   };
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
+  return generateJson<Partial<Persona>>({
+    model: TEXT_MODEL,
     contents: { parts },
     config: {
       responseMimeType: 'application/json',
@@ -97,13 +212,6 @@ export const enhancePersonaProfile = async (
       systemInstruction: "You are a creative AI assistant. Analyze visual cues to build personas.",
     },
   });
-
-  try {
-    return JSON.parse(response.text || "{}");
-  } catch (e) {
-    console.error("Failed to parse persona enhancement", e);
-    return currentProfile;
-  }
 };
 
 // ------------------------------------------------------------------
@@ -113,21 +221,21 @@ export const enhancePersonaProfile = async (
 export const generateManualVariants = async (
   persona: Persona,
   activity: string,
-  feedback?: string
+  feedback?: string,
+  brand?: Brand | null,
+  product?: Product | null,
+  template?: PromptTemplate
 ): Promise<GeneratedIdea[]> => {
-  const ai = getClient();
-  const prompt = `
-    You are a creative director for an Instagram influencer.
-    Persona: ${persona.name}
-    Location: ${persona.location}, ${persona.country}
-    Bio: ${persona.bio}
-    
-    Task: Generate 3 distinct Instagram post variants for the activity: "${activity}".
-    
-    CRITICAL CONSTRAINT: Every variant MUST be explicitly bound to a specific, real-world location, street, landmark, or venue within ${persona.location}, ${persona.country}.
-    
-    ${feedback ? `Refine based on this feedback: ${feedback}` : ''}
-  `;
+  const { prompt, template: templateRef } = renderPrompt('creative-director', template, {
+    'persona.name': persona.name,
+    'persona.location': persona.location,
+    'persona.country': persona.country,
+    'persona.bio': persona.bio,
+    activity,
+    brand: describeBrand(brand),
+    productPlacement: describeProductPlacement(persona, product),
+    feedback: feedback ? `Refine based on this feedback: ${feedback}` : '',
+  });
 
   const schema = {
     type: Type.ARRAY,
@@ -141,8 +249,8 @@ export const generateManualVariants = async (
     },
   };
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
+  const raw = await generateJson<any[]>({
+    model: TEXT_MODEL,
     contents: prompt,
     config: {
       responseMimeType: 'application/json',
@@ -151,59 +259,64 @@ export const generateManualVariants = async (
     },
   });
 
-  const raw = JSON.parse(response.text || "[]");
+  const provenance = createProvenance(PROVIDER_ID, TEXT_MODEL, prompt, {
+    template: templateRef,
+    parameters: { mode: 'manual', activity, feedback, brandId: brand?.id, productId: product?.id },
+  });
+
   return raw.map((r: any, i: number) => ({
     id: `${persona.id}-idea-${Date.now()}-${i}`,
     personaId: persona.id,
     title: r.title,
     description: r.description,
     selected: false,
+    productId: product?.id,
+    provenance,
   }));
 };
 
-export const generateAutoTrends = async (persona: Persona): Promise<GeneratedIdea[]> => {
-  const ai = getClient();
-  
-  // Updated Prompt to enforce Google Search usage
-  const prompt = `
-    Task: Find REAL-TIME Instagram trends and generate post ideas.
-    
-    1. Use Google Search to find the latest trending topics, aesthetics, and viral challenges specifically for the niche: "${persona.niche.join(', ')}".
-    2. Based on the search results, create 3 high-engagement post ideas for: ${persona.name}.
-    3. Location context: ${persona.location}, ${persona.country}.
-    
-    OUTPUT FORMAT:
-    You must return a valid JSON array. Do not include markdown formatting like \`\`\`json.
-    Example: [{"title": "...", "description": "..."}]
-    
-    CRITICAL: Every idea must be tied to a real location in ${persona.location} found via search or known geography.
-  `;
+export const generateAutoTrends = async (
+  persona: Persona,
+  brand?: Brand | null,
+  product?: Product | null,
+  template?: PromptTemplate
+): Promise<GeneratedIdea[]> => {
+  // The template tells the model to use Google Search, which is enabled below
+  const { prompt, template: templateRef } = renderPrompt('trend-scout', template, {
+    'persona.name': persona.name,
+    'persona.location': persona.location,
+    'persona.country': persona.country,
+    'persona.niche': persona.niche.join(', '),
+    brand: describeBrand(brand),
+    productPlacement: describeProductPlacement(persona, product),
+  });
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview', // Using 3-pro for complex reasoning + search
+  const schema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        description: { type: Type.STRING },
+      },
+      required: ["title", "description"],
+    },
+  };
+
+  // responseSchema is NOT supported with googleSearch, so the schema is only used to validate
+  // (and, if needed, repair) the JSON extracted from the mixed search output
+  const raw = await generateJson<any[]>({
+    model: TEXT_MODEL, // Using 3-pro for complex reasoning + search
     contents: prompt,
     config: {
       tools: [{ googleSearch: {} }], // Enable Real-Time Search
-      // Note: responseMimeType: 'application/json' is NOT supported with googleSearch
     },
-  });
+  }, { schema });
 
-  // Manual JSON extraction because search tool output can be mixed
-  let raw: any[] = [];
-  try {
-    const text = response.text || "";
-    const jsonMatch = text.match(/\[[\s\S]*\]/); // Find the JSON array in the text
-    if (jsonMatch) {
-      raw = JSON.parse(jsonMatch[0]);
-    } else {
-      // Fallback if model returns just text
-      console.warn("Could not parse JSON from trend response, using fallback.");
-      raw = []; 
-    }
-  } catch (e) {
-    console.error("Failed to parse trend JSON", e);
-    raw = [];
-  }
+  const provenance = createProvenance(PROVIDER_ID, TEXT_MODEL, prompt, {
+    template: templateRef,
+    parameters: { mode: 'auto', googleSearch: true, brandId: brand?.id, productId: product?.id },
+  });
 
   return raw.map((r: any, i: number) => ({
     id: `${persona.id}-trend-${Date.now()}-${i}`,
@@ -211,6 +324,8 @@ export const generateAutoTrends = async (persona: Persona): Promise<GeneratedIde
     title: r.title || "Trending Idea",
     description: r.description || "Description unavailable",
     selected: false,
+    productId: product?.id,
+    provenance,
   }));
 };
 
@@ -220,17 +335,15 @@ export const generateAutoTrends = async (persona: Persona): Promise<GeneratedIde
 
 export const analyzeIdeaRequirements = async (
   idea: GeneratedIdea,
-  persona: Persona
+  persona: Persona,
+  template?: PromptTemplate
 ): Promise<RefinementRequirement[]> => {
-  const ai = getClient();
-  const prompt = `
-    Analyze this Instagram post idea to determine what specific visual details are needed to generate a high-quality, accurate image.
-    Idea: ${idea.title} - ${idea.description}
-    Persona: ${persona.name} in ${persona.location}.
-    
-    Identify 2-3 missing details, specifically asking for reference images of locations mentioned or specific styling details.
-    For each requirement, provide a helpful suggestion/default value that the AI would make up if the user doesn't provide it.
-  `;
+  const { prompt, template: templateRef } = renderPrompt('requirement-analyzer', template, {
+    'idea.title': idea.title,
+    'idea.description': idea.description,
+    'persona.name': persona.name,
+    'persona.location': persona.location,
+  });
 
   const schema = {
     type: Type.ARRAY,
@@ -244,8 +357,8 @@ export const analyzeIdeaRequirements = async (
     },
   };
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
+  const raw = await generateJson<any[]>({
+    model: TEXT_MODEL,
     contents: prompt,
     config: {
       responseMimeType: 'application/json',
@@ -253,12 +366,60 @@ export const analyzeIdeaRequirements = async (
     },
   });
 
-  const raw = JSON.parse(response.text || "[]");
+  const provenance = createProvenance(PROVIDER_ID, TEXT_MODEL, prompt, {
+    template: templateRef,
+    parameters: { ideaId: idea.id },
+  });
+
   return raw.map((r: any, i: number) => ({
     id: `${idea.id}-req-${i}`,
     question: r.question,
     suggestion: r.suggestion,
     userResponse: "",
+    provenance,
+  }));
+};
+
+export const planCarouselSlides = async (
+  idea: GeneratedIdea,
+  persona: Persona,
+  slideCount: number = 5
+): Promise<CarouselSlide[]> => {
+  const prompt = `
+    Plan an Instagram carousel of exactly ${slideCount} slides for this post idea.
+    Idea: ${idea.title} - ${idea.description}
+    Persona: ${persona.name} in ${persona.location}, ${persona.country}.
+
+    Each slide must be a distinct shot (e.g. arrival, detail, outfit, food, sunset) and together they should tell one story in order.
+    The first slide is the hook, the last slide is the payoff.
+    For each slide give a short title and a one-sentence shot description (framing, subject, action).
+  `;
+
+  const schema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        shot: { type: Type.STRING },
+      },
+      required: ["title", "shot"],
+    },
+  };
+
+  const raw = await generateJson<any[]>({
+    model: TEXT_MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: schema,
+    },
+  });
+
+  return raw.map((r: any, i: number) => ({
+    id: `${idea.id}-slide-${i}`,
+    title: r.title,
+    shot: r.shot,
   }));
 };
 
@@ -266,39 +427,40 @@ export const analyzeIdeaRequirements = async (
 // GENERATION PHASE
 // ------------------------------------------------------------------
 
-export const generateUGCImages = async (
+// Shared by single-image and carousel generation: the base prompt plus every reference image part,
+// and what those references were for the provenance
+const buildGenerationContext = async (
   persona: Persona,
   idea: GeneratedIdea,
   requirements: RefinementRequirement[],
-  count: number,
-  quality: '1K' | '2K' | '4K'
-): Promise<GeneratedImage[]> => {
-  const ai = getClient();
-  
+  brand?: Brand | null
+): Promise<{ fullPrompt: string; referenceParts: any[]; referenceImages: string[] }> => {
   // Construct a rich prompt based on all collected data
   let fullPrompt = `Photorealistic Instagram photo of ${persona.name}, a ${persona.bio}. 
   Location: ${persona.location}, ${persona.country}.
   Action: ${idea.description}.
   `;
 
+  // The style guide keeps the look the same across campaigns
+  const style = describePersonaStyle(persona.style);
+  if (style) fullPrompt += ` ${style}`;
+
   requirements.forEach(req => {
     fullPrompt += ` Detail: ${req.userResponse || req.suggestion}.`;
   });
 
   // Collect reference images
-  const parts: any[] = [{ text: fullPrompt }];
+  const parts: any[] = [];
+  const referenceImages: string[] = [];
   
   // Add persona reference images (Fetch from URL, convert to Base64)
   if (persona.refImages && persona.refImages.length > 0) {
-    for (const imgUrl of persona.refImages) {
-        if (imgUrl.startsWith('http')) {
-             const base64 = await urlToBase64(imgUrl);
-             if (base64) {
-                 parts.push({ inlineData: { mimeType: 'image/jpeg', data: base64 } });
-             }
-        } else {
-            // Backwards compatibility if user has base64 data still in DB
-             parts.push({ inlineData: { mimeType: 'image/jpeg', data: imgUrl } });
+    for (const [index, imgUrl] of persona.refImages.entries()) {
+        const base64 = await imageToBase64(imgUrl);
+        if (base64) {
+            parts.push({ inlineData: { mimeType: 'image/jpeg', data: base64 } });
+            // Inline images are recorded by position rather than copied into the provenance
+            referenceImages.push(imgUrl.startsWith('http') ? imgUrl : `persona:${persona.id}:${index}`);
         }
     }
   }
@@ -309,83 +471,290 @@ export const generateUGCImages = async (
       parts.push({
         inlineData: { mimeType: 'image/jpeg', data: req.referenceImage }
       });
+      referenceImages.push(describeReferenceImage(req.referenceImage, `requirement:${req.id}`));
     }
   });
 
-  const results: GeneratedImage[] = [];
+  // Brand product photos go last so the prompt can point at "the final N images"
+  const brandContext = await buildBrandImageContext(brand, idea.productId);
+  fullPrompt += brandContext.text;
+  parts.push(...brandContext.parts);
+  referenceImages.push(...brandContext.urls);
 
-  // Generate images one by one or in small batches
-  for (let i = 0; i < count; i++) {
-    try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
-        contents: { parts },
-        config: {
-          imageConfig: {
-              imageSize: quality,
-              aspectRatio: "4:5", // Instagram Portrait
-          }
-        },
-      });
+  return { fullPrompt, referenceParts: parts, referenceImages };
+};
 
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          results.push({
-            id: `${idea.id}-img-${Date.now()}-${i}`,
-            ideaId: idea.id,
-            imageUrl: `data:image/png;base64,${part.inlineData.data}`,
-            prompt: fullPrompt,
-          });
-        }
+export const generateUGCImage = async (
+  persona: Persona,
+  idea: GeneratedIdea,
+  requirements: RefinementRequirement[],
+  brand: Brand | null,
+  quality: '1K' | '2K' | '4K',
+  format: OutputFormat = getFormat(),
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  const { fullPrompt, referenceParts, referenceImages } = await buildGenerationContext(persona, idea, requirements, brand);
+
+  // Every format is rendered from the same prompt and references, only the framing changes
+  const formatParts = [{ text: `${fullPrompt}\n  Format: ${format.framing}` }, ...referenceParts];
+
+  const response = await generate({
+    model: IMAGE_MODEL,
+    contents: { parts: formatParts },
+    config: {
+      imageConfig: {
+          imageSize: quality,
+          aspectRatio: format.aspectRatio,
       }
-    } catch (e) {
-      console.error("Image generation error", e);
+    },
+  }, { signal, timeoutMs: IMAGE_TIMEOUT_MS });
+
+  return {
+    id: `${idea.id}-${format.id}-img-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    ideaId: idea.id,
+    imageUrl: `data:image/png;base64,${getInlineImage(response)}`,
+    prompt: formatParts[0].text,
+    formatId: format.id,
+    aspectRatio: format.aspectRatio,
+    provenance: createProvenance(PROVIDER_ID, IMAGE_MODEL, formatParts[0].text, {
+      referenceImages,
+      parameters: { quality, aspectRatio: format.aspectRatio, formatId: format.id },
+    }),
+  };
+};
+
+/**
+ * Generates one image per carousel slide in a single format. Each slide gets the shared persona/refinement
+ * references plus the previous slide as a continuity reference, so the sequence reads as one shoot.
+ * Slides depend on each other, so a failed slide fails the whole sequence.
+ */
+export const generateCarouselImages = async (
+  persona: Persona,
+  idea: GeneratedIdea,
+  requirements: RefinementRequirement[],
+  brand: Brand | null,
+  quality: '1K' | '2K' | '4K',
+  format: OutputFormat = getFormat(),
+  signal?: AbortSignal,
+  onSlide?: (done: number, total: number) => void
+): Promise<GeneratedImage[]> => {
+  const slides = idea.slides || [];
+  const { fullPrompt, referenceParts, referenceImages } = await buildGenerationContext(persona, idea, requirements, brand);
+
+  const results: GeneratedImage[] = [];
+  let previousSlide: string | null = null;
+  let previousSlideId: string | null = null;
+
+  for (let i = 0; i < slides.length; i++) {
+    const slide = slides[i];
+    let slidePrompt = `${fullPrompt}
+  Format: ${format.framing}
+  This is slide ${i + 1} of ${slides.length} in an Instagram carousel.
+  Slide: ${slide.title}. Shot: ${slide.shot}.`;
+
+    if (previousSlide) {
+      slidePrompt += `
+  The last image is the previous slide. Keep the same person, outfit, lighting and color grade so the carousel feels like one continuous shoot.`;
+    }
+
+    const parts: any[] = [{ text: slidePrompt }, ...referenceParts];
+    if (previousSlide) {
+      parts.push({ inlineData: { mimeType: 'image/png', data: previousSlide } });
     }
+
+    const response = await generate({
+      model: IMAGE_MODEL,
+      contents: { parts },
+      config: {
+        imageConfig: {
+            imageSize: quality,
+            aspectRatio: format.aspectRatio,
+        }
+      },
+    }, { signal, timeoutMs: IMAGE_TIMEOUT_MS });
+
+    const provenance = createProvenance(PROVIDER_ID, IMAGE_MODEL, slidePrompt, {
+      referenceImages: previousSlideId ? [...referenceImages, `image:${previousSlideId}`] : referenceImages,
+      parameters: { quality, aspectRatio: format.aspectRatio, formatId: format.id, slide: `${i + 1}/${slides.length}` },
+    });
+
+    previousSlide = getInlineImage(response);
+    previousSlideId = `${idea.id}-${format.id}-slide-${Date.now()}-${i}`;
+    results.push({
+      id: previousSlideId,
+      ideaId: idea.id,
+      imageUrl: `data:image/png;base64,${previousSlide}`,
+      prompt: slidePrompt,
+      formatId: format.id,
+      aspectRatio: format.aspectRatio,
+      slideId: slide.id,
+      provenance,
+    });
+    onSlide?.(i + 1, slides.length);
   }
 
   return results;
 };
 
+/**
+ * Re-renders an image from its stored prompt with the same persona/refinement references and format.
+ * Returns the image with the new render as `imageUrl` and its provenance; the caller records it as a version.
+ */
+export const regenerateImage = async (
+  persona: Persona,
+  idea: GeneratedIdea,
+  requirements: RefinementRequirement[],
+  brand: Brand | null,
+  image: GeneratedImage,
+  quality: '1K' | '2K' | '4K',
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  const { referenceParts, referenceImages } = await buildGenerationContext(persona, idea, requirements, brand);
+  const aspectRatio = image.aspectRatio || getFormat(image.formatId).aspectRatio;
+
+  const response = await generate({
+    model: IMAGE_MODEL,
+    contents: { parts: [{ text: image.prompt }, ...referenceParts] },
+    config: {
+      imageConfig: {
+          imageSize: quality,
+          aspectRatio,
+      }
+    },
+  }, { signal, timeoutMs: IMAGE_TIMEOUT_MS });
+
+  return {
+    ...image,
+    imageUrl: `data:image/png;base64,${getInlineImage(response)}`,
+    provenance: createProvenance(PROVIDER_ID, IMAGE_MODEL, image.prompt, {
+      referenceImages,
+      parameters: { quality, aspectRatio, formatId: image.formatId },
+    }),
+  };
+};
+
 export const editImageWithChat = async (
   image: GeneratedImage,
   instruction: string,
-  referenceImage?: string
+  referenceImage?: string,
+  mask?: string, // base64 PNG, white = region that may change
+  signal?: AbortSignal
 ): Promise<GeneratedImage> => {
-  const ai = getClient();
-  
-  const base64Data = image.imageUrl.split(',')[1];
-  if (!base64Data) throw new Error("Invalid image data");
+  const base64Data = await imageToBase64(image.imageUrl);
+  if (!base64Data) throw new AIError('network', "Could not download the image. Check your connection and try again.");
+
+  let editPrompt = `Edit this image. Instruction: ${instruction}`;
+  if (mask) {
+    editPrompt += `
+    The next image is a mask. Apply the instruction ONLY inside the white area of the mask.
+    Everything in the black area (faces, background, other clothing) must stay pixel-identical to the original.`;
+  }
+  if (referenceImage) {
+    editPrompt += `
+    The last image is a reference (product, outfit or location). Reproduce it faithfully where the instruction asks for it.`;
+  }
 
   // To edit, we send the image + text prompt.
   const parts: any[] = [
     { inlineData: { mimeType: 'image/png', data: base64Data } },
-    { text: `Edit this image. Instruction: ${instruction}` }
+    { text: editPrompt }
   ];
 
+  if (mask) {
+    parts.push({ inlineData: { mimeType: 'image/png', data: mask } });
+  }
+
   if (referenceImage) {
      parts.push({ inlineData: { mimeType: 'image/png', data: referenceImage } });
   }
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
+  // Keep the ratio the image was generated in
+  const aspectRatio = image.aspectRatio || getFormat(image.formatId).aspectRatio;
+
+  const response = await generate({
+    model: IMAGE_MODEL,
     contents: { parts },
     config: {
         imageConfig: {
-            aspectRatio: "4:5",
+            aspectRatio,
         }
     }
-  });
+  }, { signal, timeoutMs: IMAGE_TIMEOUT_MS });
+
+  // The source is the version on screen; mask and reference are uploads that only exist in the browser
+  const referenceImages = [describeReferenceImage(image.imageUrl, `image:${image.currentVersionId || image.id}`)];
+  if (mask) referenceImages.push(`mask:${image.id}`);
+  if (referenceImage) referenceImages.push(`edit-reference:${image.id}`);
+
+  return {
+    ...image,
+    imageUrl: `data:image/png;base64,${getInlineImage(response)}`,
+    provenance: createProvenance(PROVIDER_ID, IMAGE_MODEL, editPrompt, {
+      referenceImages,
+      parameters: { aspectRatio, masked: !!mask },
+    }),
+  };
+};
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return {
-        ...image,
-        imageUrl: `data:image/png;base64,${part.inlineData.data}`,
-      };
-    }
+// ------------------------------------------------------------------
+// IDENTITY CONSISTENCY
+// ------------------------------------------------------------------
+
+/**
+ * Asks the vision model how closely the person in `image` matches the persona's avatar/reference photos.
+ * Returns null when the persona has no reference photos to compare against.
+ */
+export const scoreIdentityConsistency = async (
+  persona: Persona,
+  image: GeneratedImage,
+  signal?: AbortSignal
+): Promise<IdentityScore | null> => {
+  const referenceUrls = [persona.avatarUrl, ...(persona.refImages || [])].filter(Boolean);
+  const referenceParts: any[] = [];
+  for (const url of referenceUrls) {
+    const b64 = await imageToBase64(url);
+    if (b64) referenceParts.push({ inlineData: { mimeType: 'image/jpeg', data: b64 } });
   }
-  
-  throw new Error("No image returned from edit");
+  if (referenceParts.length === 0) return null;
+
+  const candidate = await imageToBase64(image.imageUrl);
+  if (!candidate) throw new AIError('network', "Could not download the image. Check your connection and try again.");
+
+  const prompt = `
+    You are a strict identity verification reviewer for an influencer agency.
+    The first ${referenceParts.length} image(s) are reference photos of ${persona.name}. The LAST image is a newly generated photo.
+
+    Judge ONLY whether the person in the last image is recognisably the same individual:
+    face shape, facial features, skin tone, hair colour/texture, approximate age and body type.
+    Ignore outfit, location, lighting and pose unless they hide the face.
+
+    Score from 0 (clearly a different person) to 100 (unmistakably the same person).
+    Give 1-3 short, specific reasons (e.g. "jawline narrower than references", "hair colour matches").
+  `;
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      score: { type: Type.INTEGER },
+      reasons: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ["score", "reasons"],
+  };
+
+  const raw = await generateJson<any>({
+    model: TEXT_MODEL,
+    contents: { parts: [{ text: prompt }, ...referenceParts, { inlineData: { mimeType: 'image/png', data: candidate } }] },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: schema,
+    },
+  }, { signal });
+
+  return {
+    score: Math.max(0, Math.min(100, Math.round(Number(raw.score) || 0))),
+    reasons: raw.reasons || [],
+    checkedAt: new Date().toISOString(),
+  };
 };
 
 // ------------------------------------------------------------------
@@ -394,34 +763,201 @@ export const editImageWithChat = async (
 
 export const generateCaptionStrategy = async (
   persona: Persona,
-  idea: GeneratedIdea
-): Promise<CaptionData> => {
-  const ai = getClient();
-  const prompt = `
-    Step 3: Caption Writer. Write a scroll-stopping Instagram caption for a post about: ${idea.title} - ${idea.description}.
-    Tone: Human, organic, matching persona: ${persona.name} (${persona.bio}).
-    Strategy: Use curiosity, controversy, or inspiration.
-    
-    Step 4: Hashtag Booster. Create a mix of low, mid, and high-competition tags specifically for ${persona.niche.join(', ')} and location ${persona.location}.
-  `;
+  idea: GeneratedIdea,
+  brand: Brand | null,
+  options: CaptionOptions,
+  platforms: string[],
+  avoidHashtags: string[],
+  template?: PromptTemplate,
+  signal?: AbortSignal
+): Promise<CaptionVariant[]> => {
+  const product = findProduct(brand, idea.productId);
+  const count = Math.min(Math.max(1, options.variantCount), MAX_CAPTION_VARIANTS);
+  const tone = CAPTION_TONES.find(t => t.id === options.tone) || CAPTION_TONES[0];
+  const length = CAPTION_LENGTHS.find(l => l.id === options.length) || CAPTION_LENGTHS[1];
+  const emoji = EMOJI_DENSITIES.find(e => e.id === options.emojiDensity) || EMOJI_DENSITIES[1];
+  const limits = getCaptionLimits(platforms);
+  const voice = persona.voiceProfile
+    ? `Write in the persona's own voice unless the tone, length or emoji instructions below say otherwise: ${describeVoiceProfile(persona.voiceProfile)}` +
+      ` Rate how closely each variant matches this voice (voiceMatch: score 0-100 and a one-line note).`
+    : '';
+
+  const { prompt, template: templateRef } = renderPrompt('caption-writer', template, {
+    count: String(count),
+    platforms: platforms.join(' / ') || 'Instagram',
+    'idea.title': idea.title,
+    'idea.description': idea.description,
+    carousel: idea.slides?.length
+      ? `This is a carousel. Each variant is ONE caption for the whole sequence that invites people to swipe. Slides in order: ${idea.slides.map((slide, i) => `${i + 1}. ${slide.title}`).join('; ')}.`
+      : '',
+    'persona.name': persona.name,
+    'persona.bio': persona.bio,
+    'persona.niche': persona.niche.join(', '),
+    'persona.location': persona.location,
+    'persona.voice': voice,
+    tone: tone.instruction,
+    length: length.instruction,
+    emoji: emoji.instruction,
+    callToAction: options.callToAction.trim()
+      ? `End every variant with this call to action, in the persona's words: "${options.callToAction.trim()}".`
+      : 'No explicit call to action.',
+    hashtagTiers: HASHTAG_TIERS.map(t => `"${t.id}": ${t.description}`).join('; '),
+    avoidHashtags: avoidHashtags.length
+      ? `The persona already used these tags in other posts this week; do not repeat them: ${avoidHashtags.map(tag => `#${tag}`).join(' ')}.`
+      : '',
+    limits: limits
+      ? `Hard limits: caption plus hashtags under ${limits.maxLength} characters${limits.maxHashtags ? `, at most ${limits.maxHashtags} hashtags` : ''}.`
+      : '',
+    brand: describeBrand(brand),
+    requiredHashtags: brand?.requiredHashtags.length
+      ? `Always include these brand hashtags: ${brand.requiredHashtags.map(tag => `#${tag}`).join(' ')}.`
+      : '',
+    product: product ? `The post features ${product.name}. Mention it naturally, the way a creator would, not like an ad.` : '',
+  });
+  // Templates without {{persona.voice}} (e.g. version 1) never ask for a rating, so none is requested or kept
+  const ratesVoice = !!voice && prompt.includes(voice);
 
   const schema = {
     type: Type.OBJECT,
     properties: {
-      caption: { type: Type.STRING },
-      hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+      variants: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            caption: { type: Type.STRING },
+            hashtags: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  tag: { type: Type.STRING },
+                  tier: { type: Type.STRING, enum: HASHTAG_TIERS.map(t => t.id) },
+                  rationale: { type: Type.STRING },
+                },
+                required: ["tag", "tier", "rationale"],
+              },
+            },
+            ...(ratesVoice && {
+              voiceMatch: {
+                type: Type.OBJECT,
+                properties: {
+                  score: { type: Type.NUMBER },
+                  note: { type: Type.STRING },
+                },
+                required: ["score", "note"],
+              },
+            }),
+          },
+          required: ["caption", "hashtags"],
+        },
+      },
     },
-    required: ["caption", "hashtags"],
+    required: ["variants"],
   };
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
+  const { variants } = await generateJson<{ variants: { caption: string; hashtags: TieredHashtag[]; voiceMatch?: VoiceMatch }[] }>({
+    model: TEXT_MODEL,
     contents: prompt,
     config: {
       responseMimeType: 'application/json',
       responseSchema: schema,
     },
+  }, { signal });
+
+  if (!variants?.length) {
+    throw new AIError('invalid-output', "The AI returned no captions. Please try again.");
+  }
+
+  const provenance = createProvenance(PROVIDER_ID, TEXT_MODEL, prompt, {
+    template: templateRef,
+    parameters: {
+      variants: count,
+      tone: options.tone,
+      length: options.length,
+      emoji: options.emojiDensity,
+      callToAction: options.callToAction.trim(),
+      platforms: platforms.join(', '),
+      voiceProfile: ratesVoice,
+    },
+  });
+
+  // The model sometimes slips banned tags in anyway; drop them before they are suggested
+  return variants.slice(0, count).map(variant => {
+    const tieredHashtags = variant.hashtags
+      .map(t => ({ ...t, tag: normalizeHashtag(t.tag) }))
+      .filter(t => t.tag && !isBannedHashtag(t.tag));
+    // A rating the prompt did not ask for means nothing
+    const voiceMatch = ratesVoice && variant.voiceMatch
+      ? { score: Math.round(Math.min(Math.max(variant.voiceMatch.score, 0), 100)), note: variant.voiceMatch.note }
+      : undefined;
+    return { caption: variant.caption, hashtags: orderByTier(tieredHashtags), tieredHashtags, voiceMatch, provenance };
+  });
+};
+
+// ------------------------------------------------------------------
+// VOICE
+// ------------------------------------------------------------------
+
+export const analyzePersonaVoice = async (
+  persona: Persona,
+  samples: string[],
+  template?: PromptTemplate,
+  signal?: AbortSignal
+): Promise<VoiceProfile> => {
+  const { prompt } = renderPrompt('voice-analyst', template, {
+    'persona.name': persona.name || 'Unknown',
+    'persona.bio': persona.bio || 'Unknown',
+    samples: samples.map((sample, i) => `${i + 1}. ${sample}`).join('\n'),
   });
 
-  return JSON.parse(response.text || "{\"caption\":\"\", \"hashtags\":[]}");
-};
\ No newline at end of file
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING },
+      vocabulary: { type: Type.ARRAY, items: { type: Type.STRING } },
+      emojiUsage: { type: Type.STRING },
+      sentenceLength: { type: Type.STRING },
+      languageMix: { type: Type.STRING },
+      recurringPhrases: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ["summary", "vocabulary", "emojiUsage", "sentenceLength", "languageMix", "recurringPhrases"],
+  };
+
+  const profile = await generateJson<Omit<VoiceProfile, 'sampleCount' | 'learnedAt'>>({
+    model: TEXT_MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: schema,
+    },
+  }, { signal });
+
+  if (!profile?.summary) {
+    throw new AIError('invalid-output', "The AI could not describe this voice. Add more samples and try again.");
+  }
+
+  return { ...profile, sampleCount: samples.length, learnedAt: new Date().toISOString() };
+};
+
+// ------------------------------------------------------------------
+// PROVIDER
+// ------------------------------------------------------------------
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini 3 Pro',
+  models: { text: TEXT_MODEL, image: IMAGE_MODEL },
+  enhancePersonaProfile,
+  analyzePersonaVoice,
+  generateManualVariants,
+  generateAutoTrends,
+  analyzeIdeaRequirements,
+  planCarouselSlides,
+  generateUGCImage,
+  generateCarouselImages,
+  regenerateImage,
+  editImageWithChat,
+  scoreIdentityConsistency,
+  generateCaptionStrategy,
+};
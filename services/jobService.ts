@@ -0,0 +1,135 @@
+import { Job } from "../types";
+
+export interface JobContext {
+  signal: AbortSignal;
+  setProgress: (progress: number) => void;
+}
+
+// Runners apply their own results (e.g. via setState) and must check `signal.aborted` before doing so
+export type JobRunner = (context: JobContext) => Promise<void>;
+
+export const DEFAULT_CONCURRENCY = 3;
+
+let concurrency = DEFAULT_CONCURRENCY;
+let jobs: Job[] = [];
+const runners = new Map<string, JobRunner>();
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<(jobs: Job[]) => void>();
+
+const emit = () => {
+  const snapshot = [...jobs];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const patchJob = (id: string, patch: Partial<Job>) => {
+  jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+  emit();
+};
+
+export const isActiveJob = (job: Job) => job.status === 'queued' || job.status === 'running';
+
+// ------------------------------------------------------------------
+// STATUS
+// ------------------------------------------------------------------
+
+export const getJobs = (): Job[] => [...jobs];
+
+export const subscribeJobs = (listener: (jobs: Job[]) => void): (() => void) => {
+  listeners.add(listener);
+  listener([...jobs]);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getConcurrency = () => concurrency;
+
+export const setConcurrency = (value: number) => {
+  concurrency = Math.max(1, Math.floor(value));
+  pump();
+};
+
+// ------------------------------------------------------------------
+// QUEUE
+// ------------------------------------------------------------------
+
+const runJob = async (job: Job) => {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  patchJob(job.id, { status: 'running', progress: 0, error: undefined });
+
+  try {
+    await runners.get(job.id)!({
+      signal: controller.signal,
+      setProgress: progress => {
+        if (!controller.signal.aborted) patchJob(job.id, { progress: Math.min(1, Math.max(0, progress)) });
+      },
+    });
+    if (!controller.signal.aborted) patchJob(job.id, { status: 'done', progress: 1 });
+  } catch (e: any) {
+    if (!controller.signal.aborted) {
+      console.error("Job failed", job.label, e);
+      patchJob(job.id, { status: 'failed', error: e?.message || String(e) });
+    }
+  } finally {
+    // A retry may already have started a new run of this job with its own controller
+    if (controllers.get(job.id) === controller) controllers.delete(job.id);
+    pump();
+  }
+};
+
+// Starts queued jobs, oldest first, until the concurrency limit is reached
+const pump = () => {
+  let running = jobs.filter(job => job.status === 'running').length;
+  for (const job of jobs) {
+    if (running >= concurrency) break;
+    if (job.status !== 'queued') continue;
+    running++;
+    runJob(job);
+  }
+};
+
+export const enqueueJob = (
+  job: Pick<Job, 'kind' | 'label' | 'ideaId' | 'imageId'>,
+  run: JobRunner
+): string => {
+  const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  runners.set(id, run);
+  jobs = [...jobs, { ...job, id, status: 'queued', progress: 0, createdAt: new Date().toISOString() }];
+  emit();
+  pump();
+  return id;
+};
+
+/**
+ * Cancels a queued or running job. Requests already sent to the model are aborted client-side;
+ * whatever they return afterwards is discarded by the runner.
+ */
+export const cancelJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job || !isActiveJob(job)) return;
+
+  controllers.get(id)?.abort();
+  patchJob(id, { status: 'cancelled' });
+  pump();
+};
+
+export const cancelAllJobs = (filter: (job: Job) => boolean = () => true) => {
+  jobs.filter(job => isActiveJob(job) && filter(job)).forEach(job => cancelJob(job.id));
+};
+
+export const retryJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job || isActiveJob(job) || !runners.has(id)) return;
+
+  patchJob(id, { status: 'queued', progress: 0, error: undefined });
+  pump();
+};
+
+// Drops finished, failed and cancelled jobs (and their runners) from the list
+export const clearFinishedJobs = (filter: (job: Job) => boolean = () => true) => {
+  const removed = jobs.filter(job => !isActiveJob(job) && filter(job));
+  removed.forEach(job => runners.delete(job.id));
+  jobs = jobs.filter(job => !removed.includes(job));
+  emit();
+};
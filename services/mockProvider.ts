@@ -0,0 +1,455 @@
+import { Persona, VoiceProfile, GeneratedIdea, RefinementRequirement, GeneratedImage, CaptionVariant, CaptionOptions, OutputFormat, CarouselSlide, IdentityScore, Brand, Product, TieredHashtag, PromptTemplate } from "../types";
+import { getFormat } from "../lib/formats";
+import { MAX_CAPTION_VARIANTS } from "../lib/captions";
+import { orderByTier } from "../lib/hashtags";
+import { createProvenance } from "../lib/provenance";
+import { describePersonaStyle } from "../lib/personaStyle";
+import { getBuiltInTemplate } from "../lib/promptTemplates";
+import { AIProvider } from "./aiProvider";
+import { reportUsage } from "./usageService";
+
+// Offline stand-in for the Gemini provider: canned JSON and canvas-drawn placeholder images.
+// Output only depends on the inputs, so the same campaign always produces the same results.
+// Prompt templates are accepted but ignored (apart from whether the caption writer asks for a voice rating): there is
+// no prompt to render, so provenance records a description instead.
+// Usage reports only count images; the mock model is priced at zero.
+
+const MODEL = 'mock';
+const TEXT_LATENCY_MS = 400;
+const IMAGE_LATENCY_MS = 1200;
+const PLACEHOLDER_WIDTH = 720;
+
+const PALETTES = [
+  ['#18181b', '#52525b'],
+  ['#7c2d12', '#f97316'],
+  ['#1e3a8a', '#60a5fa'],
+  ['#14532d', '#4ade80'],
+  ['#581c87', '#c084fc'],
+  ['#831843', '#f472b6'],
+];
+
+// Simulated network latency that still honours cancellation
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+const hash = (text: string): number => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+const pick = <T>(items: T[], seed: string): T => items[hash(seed) % items.length];
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+const getCanvasSize = (aspectRatio: string) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return { width: PLACEHOLDER_WIDTH, height: Math.round((PLACEHOLDER_WIDTH * h) / w) };
+};
+
+// Draws a gradient card with a title and subtitle, returned as a PNG data URI
+const drawPlaceholder = (title: string, subtitle: string, aspectRatio: string, seed: string): string => {
+  const { width, height } = getCanvasSize(aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const [from, to] = pick(PALETTES, seed);
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, from);
+  gradient.addColorStop(1, to);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.font = 'bold 40px sans-serif';
+  const lines = wrapText(ctx, title, width - 96);
+  lines.forEach((line, i) => ctx.fillText(line, 48, height / 2 - (lines.length - 1) * 24 + i * 48));
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = '24px sans-serif';
+  ctx.fillText(subtitle, 48, height - 48);
+  ctx.fillText('MOCK', width - 48 - ctx.measureText('MOCK').width, 72);
+
+  return canvas.toDataURL('image/png');
+};
+
+// ------------------------------------------------------------------
+// TEXT
+// ------------------------------------------------------------------
+
+const enhancePersonaProfile = async (currentProfile: Partial<Persona>): Promise<Partial<Persona>> => {
+  await delay(TEXT_LATENCY_MS);
+  const seed = currentProfile.name || currentProfile.bio || 'persona';
+  return {
+    name: currentProfile.name || pick(['Mila Novak', 'Leo Marin', 'Ana Kovač', 'Noah Berg'], seed),
+    location: currentProfile.location || pick(['Zagreb', 'Lisbon', 'Berlin', 'Copenhagen'], seed),
+    country: currentProfile.country || pick(['Croatia', 'Portugal', 'Germany', 'Denmark'], seed),
+    niche: currentProfile.niche?.length ? currentProfile.niche : ['Lifestyle', 'Travel', 'Coffee'],
+    bio: currentProfile.bio || 'Chasing golden hour and good espresso. Sharing the city one corner at a time.',
+    style: {
+      ageRange: pick(['22-26', '27-32', '33-38'], seed),
+      bodyType: pick(['Slim', 'Athletic', 'Average'], seed),
+      hair: pick(['Long dark waves', 'Short blonde bob', 'Curly chestnut', 'Buzz cut'], seed),
+      wardrobe: ['Oversized linen shirt', 'Gold hoops', 'White sneakers'],
+      colorPalette: pick([['Sand', 'Olive', 'Terracotta'], ['Navy', 'White', 'Red'], ['Black', 'Grey', 'Cream']], seed),
+      photographyStyle: 'Candid, warm natural light',
+      cameraLook: 'Phone back camera, slight wide angle',
+      forbidden: ['Visible logos', 'Heavy filters'],
+    },
+  };
+};
+
+// Counts the samples' emoji, sentence lengths and most frequent words instead of asking a model
+const analyzePersonaVoice = async (persona: Persona, samples: string[], template?: PromptTemplate, signal?: AbortSignal): Promise<VoiceProfile> => {
+  await delay(TEXT_LATENCY_MS, signal);
+  const text = samples.join(' ');
+  const emoji = text.match(/\p{Extended_Pictographic}/gu) || [];
+  const sentences = text.split(/[.!?\n]+/).map(s => s.trim()).filter(Boolean);
+  const wordsPerSentence = sentences.length ? Math.round(text.split(/\s+/).length / sentences.length) : 0;
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/\p{L}{4,}/gu) || []) counts.set(word, (counts.get(word) || 0) + 1);
+  const vocabulary = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 6).map(([word]) => word);
+
+  return {
+    summary: `Mock voice of ${persona.name || 'this persona'}, based on ${samples.length} samples.`,
+    vocabulary,
+    emojiUsage: emoji.length ? `About ${Math.round(emoji.length / samples.length)} per post, e.g. ${[...new Set(emoji)].slice(0, 3).join(' ')}` : 'No emoji',
+    sentenceLength: `About ${wordsPerSentence} words per sentence`,
+    languageMix: 'Not analysed by the mock',
+    recurringPhrases: [],
+    sampleCount: samples.length,
+    learnedAt: new Date().toISOString(),
+  };
+};
+
+// " with <product>" for brand campaigns, so brand context is visible in mock output
+const brandMention = (brand?: Brand | null, productId?: string) => {
+  if (!brand) return '';
+  const product = brand.products.find(p => p.id === productId) || brand.products[0];
+  return ` with ${product?.name || brand.name}`;
+};
+
+const generateManualVariants = async (
+  persona: Persona,
+  activity: string,
+  feedback?: string,
+  brand?: Brand | null,
+  product?: Product | null
+): Promise<GeneratedIdea[]> => {
+  await delay(TEXT_LATENCY_MS);
+  const angles = feedback
+    ? ['Rooftop view', 'Side street', 'Riverside']
+    : ['Morning light', 'Golden hour', 'Late night'];
+
+  const provenance = createProvenance('mock', MODEL, `Mock ideas for "${activity}"`, {
+    parameters: { mode: 'manual', activity, feedback, brandId: brand?.id, productId: product?.id },
+  });
+
+  return angles.map((angle, i) => ({
+    id: `${persona.id}-idea-${Date.now()}-${i}`,
+    personaId: persona.id,
+    title: `${activity || 'City walk'} · ${angle}`,
+    description: `${persona.name} doing "${activity || 'a city walk'}"${brandMention(brand, product?.id)} in central ${persona.location}, ${persona.country}, shot during ${angle.toLowerCase()}.`,
+    selected: false,
+    productId: product?.id,
+    provenance,
+  }));
+};
+
+const generateAutoTrends = async (persona: Persona, brand?: Brand | null, product?: Product | null): Promise<GeneratedIdea[]> => {
+  await delay(TEXT_LATENCY_MS);
+  const niches = persona.niche.length ? persona.niche : ['Lifestyle'];
+  const provenance = createProvenance('mock', MODEL, `Mock trends for ${niches.join(', ')}`, {
+    parameters: { mode: 'auto', brandId: brand?.id, productId: product?.id },
+  });
+
+  return [0, 1, 2].map(i => {
+    const niche = niches[i % niches.length];
+    return {
+      id: `${persona.id}-trend-${Date.now()}-${i}`,
+      personaId: persona.id,
+      title: `${niche} ${['day in the life', 'before & after', 'hidden gem'][i]}`,
+      description: `A trending ${niche.toLowerCase()} format${brandMention(brand, product?.id)} set in ${persona.location}, ${persona.country}.`,
+      selected: false,
+      productId: product?.id,
+      provenance,
+    };
+  });
+};
+
+const analyzeIdeaRequirements = async (idea: GeneratedIdea, persona: Persona): Promise<RefinementRequirement[]> => {
+  await delay(TEXT_LATENCY_MS);
+  return [
+    { question: `Which spot in ${persona.location} should this be shot at?`, suggestion: `A busy square in central ${persona.location}` },
+    { question: 'What should the outfit look like?', suggestion: 'Relaxed casual: light jacket, white sneakers' },
+  ].map((r, i) => ({
+    id: `${idea.id}-req-${i}`,
+    ...r,
+    userResponse: "",
+    provenance: createProvenance('mock', MODEL, `Mock requirements for "${idea.title}"`, { parameters: { ideaId: idea.id } }),
+  }));
+};
+
+const planCarouselSlides = async (idea: GeneratedIdea, persona: Persona, slideCount: number = 5): Promise<CarouselSlide[]> => {
+  await delay(TEXT_LATENCY_MS);
+  const beats = ['Arrival', 'Detail', 'Outfit', 'Moment', 'Payoff', 'Behind the scenes', 'Wide shot', 'Close-up'];
+  return Array.from({ length: slideCount }, (_, i) => ({
+    id: `${idea.id}-slide-${i}`,
+    title: beats[i % beats.length],
+    shot: `${persona.name}, ${beats[i % beats.length].toLowerCase()} shot for "${idea.title}".`,
+  }));
+};
+
+const generateCaptionStrategy = async (
+  persona: Persona,
+  idea: GeneratedIdea,
+  brand: Brand | null,
+  options: CaptionOptions,
+  platforms: string[],
+  avoidHashtags: string[],
+  template?: PromptTemplate,
+  signal?: AbortSignal
+): Promise<CaptionVariant[]> => {
+  await delay(TEXT_LATENCY_MS, signal);
+  const swipe = idea.slides?.length ? ' Swipe to see how it went.' : '';
+  const emoji = options.emojiDensity === 'none' ? '' : options.emojiDensity === 'heavy' ? ' ✨🔥🙌' : ' ✨';
+  const cta = options.callToAction.trim() ? ` ${options.callToAction.trim()}` : '';
+  const hooks = [
+    `${idea.title}${emoji} ${persona.location} never gets old.`,
+    `Nobody talks about this side of ${persona.location}.`,
+    `POV: ${idea.title.toLowerCase()}.`,
+    `Saving this one for later${emoji}`,
+    `Tell me you've been here without telling me.`,
+  ];
+  const details = options.length === 'short' ? '' : ` (${options.tone} take, ${options.length} version for ${platforms.join('/') || 'Instagram'}.)`;
+
+  const avoid = new Set(avoidHashtags.map(tag => tag.toLowerCase()));
+  const provenance = createProvenance('mock', MODEL, `Mock captions for "${idea.title}"`, {
+    parameters: {
+      variants: options.variantCount,
+      tone: options.tone,
+      length: options.length,
+      emoji: options.emojiDensity,
+      callToAction: options.callToAction.trim(),
+      platforms: platforms.join(', '),
+    },
+  });
+  const slug = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+  // Like the real writer, only rate voice when the template in effect has a voice section to rate against
+  const ratesVoice = !!persona.voiceProfile && (template || getBuiltInTemplate('caption-writer')).body.includes('{{persona.voice}}');
+
+  return hooks.slice(0, Math.min(Math.max(1, options.variantCount), MAX_CAPTION_VARIANTS)).map((hook, index) => {
+    const candidates: TieredHashtag[] = [
+      { tag: `${slug(persona.location)}${slug(idea.title).slice(0, 12)}`, tier: 'low', rationale: 'Local and specific to this post.' },
+      ...persona.niche.map((n): TieredHashtag => ({ tag: `${slug(n)}${slug(persona.location)}`, tier: 'mid', rationale: `${n} community around ${persona.location}.` })),
+      ...persona.niche.map((n): TieredHashtag => ({ tag: slug(n), tier: 'high', rationale: `Broad ${n} reach.` })),
+      { tag: index % 2 ? 'ugc' : 'ugccreator', tier: 'high', rationale: 'Discoverable by brands looking for creators.' },
+    ];
+    const tieredHashtags = candidates.filter(t => t.tag && !avoid.has(t.tag));
+
+    return {
+      caption: `${hook}${details}${swipe}${cta}`,
+      hashtags: [...orderByTier(tieredHashtags), ...(brand?.requiredHashtags || [])],
+      tieredHashtags,
+      voiceMatch: ratesVoice ? { score: 55 + (hash(hook) % 45), note: 'Mock rating: no voice model was consulted' } : undefined,
+      provenance,
+    };
+  });
+};
+
+// ------------------------------------------------------------------
+// IMAGES
+// ------------------------------------------------------------------
+
+const reportImages = (operation: string, images: number, ideaId: string, personaId?: string) =>
+  reportUsage({
+    operation,
+    provider: 'mock',
+    usage: [{ model: MODEL, inputTokens: 0, outputTokens: 0, imageTokens: 0, images }],
+    personaId,
+    ideaId,
+  });
+
+const generateUGCImage = async (
+  persona: Persona,
+  idea: GeneratedIdea,
+  requirements: RefinementRequirement[],
+  brand: Brand | null,
+  quality: '1K' | '2K' | '4K',
+  format: OutputFormat = getFormat(),
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  await delay(IMAGE_LATENCY_MS, signal);
+  reportImages('generateUGCImage', 1, idea.id, persona.id);
+  const prompt = `Mock photo of ${persona.name}${brandMention(brand, idea.productId)}: ${idea.description} ${describePersonaStyle(persona.style)} Format: ${format.framing}`;
+  return {
+    id: `${idea.id}-${format.id}-img-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    ideaId: idea.id,
+    imageUrl: drawPlaceholder(idea.title, `${persona.name} · ${format.platform} ${format.label}`, format.aspectRatio, idea.id),
+    prompt,
+    formatId: format.id,
+    aspectRatio: format.aspectRatio,
+    provenance: createProvenance('mock', MODEL, prompt, { parameters: { quality, aspectRatio: format.aspectRatio, formatId: format.id } }),
+  };
+};
+
+const generateCarouselImages = async (
+  persona: Persona,
+  idea: GeneratedIdea,
+  requirements: RefinementRequirement[],
+  brand: Brand | null,
+  quality: '1K' | '2K' | '4K',
+  format: OutputFormat = getFormat(),
+  signal?: AbortSignal,
+  onSlide?: (done: number, total: number) => void
+): Promise<GeneratedImage[]> => {
+  const slides = idea.slides || [];
+  const results: GeneratedImage[] = [];
+
+  for (let i = 0; i < slides.length; i++) {
+    await delay(IMAGE_LATENCY_MS, signal);
+    const prompt = `Mock slide ${i + 1}: ${slides[i].shot}`;
+    results.push({
+      id: `${idea.id}-${format.id}-slide-${Date.now()}-${i}`,
+      ideaId: idea.id,
+      imageUrl: drawPlaceholder(slides[i].title, `Slide ${i + 1}/${slides.length} · ${persona.name}`, format.aspectRatio, idea.id),
+      prompt,
+      formatId: format.id,
+      aspectRatio: format.aspectRatio,
+      slideId: slides[i].id,
+      provenance: createProvenance('mock', MODEL, prompt, {
+        parameters: { quality, aspectRatio: format.aspectRatio, formatId: format.id, slide: `${i + 1}/${slides.length}` },
+      }),
+    });
+    onSlide?.(i + 1, slides.length);
+  }
+
+  reportImages('generateCarouselImages', results.length, idea.id, persona.id);
+  return results;
+};
+
+const regenerateImage = async (
+  persona: Persona,
+  idea: GeneratedIdea,
+  requirements: RefinementRequirement[],
+  brand: Brand | null,
+  image: GeneratedImage,
+  quality: '1K' | '2K' | '4K',
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  await delay(IMAGE_LATENCY_MS, signal);
+  reportImages('regenerateImage', 1, idea.id, persona.id);
+  const take = (image.versions?.length || 0) + 1;
+  const aspectRatio = image.aspectRatio || getFormat(image.formatId).aspectRatio;
+  return {
+    ...image,
+    imageUrl: drawPlaceholder(idea.title, `${persona.name} · take ${take}`, aspectRatio, `${image.id}-${take}`),
+    provenance: createProvenance('mock', MODEL, image.prompt, { parameters: { quality, aspectRatio, formatId: image.formatId } }),
+  };
+};
+
+// Draws the instruction as a banner over the current image so edits are visible in the version tree
+const editImageWithChat = async (
+  image: GeneratedImage,
+  instruction: string,
+  referenceImage?: string,
+  mask?: string,
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  await delay(IMAGE_LATENCY_MS, signal);
+  const source = await loadImage(image.imageUrl);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = source.naturalWidth;
+  canvas.height = source.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(source, 0, 0);
+
+  ctx.font = 'bold 28px sans-serif';
+  const lines = wrapText(ctx, `✎ ${instruction}${mask ? ' (masked)' : ''}${referenceImage ? ' + reference' : ''}`, canvas.width - 96);
+  const bannerHeight = 40 + lines.length * 36;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, canvas.height - bannerHeight - 96, canvas.width, bannerHeight);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => ctx.fillText(line, 48, canvas.height - bannerHeight - 96 + 48 + i * 36));
+  reportImages('editImageWithChat', 1, image.ideaId);
+
+  return {
+    ...image,
+    imageUrl: canvas.toDataURL('image/png'),
+    provenance: createProvenance('mock', MODEL, `Mock edit: ${instruction}`, {
+      referenceImages: [`image:${image.currentVersionId || image.id}`],
+      parameters: { masked: !!mask, reference: !!referenceImage },
+    }),
+  };
+};
+
+const scoreIdentityConsistency = async (
+  persona: Persona,
+  image: GeneratedImage,
+  signal?: AbortSignal
+): Promise<IdentityScore | null> => {
+  if (!persona.avatarUrl && !persona.refImages?.length) return null;
+  await delay(TEXT_LATENCY_MS, signal);
+  return {
+    score: 60 + (hash(image.imageUrl.slice(-64)) % 40),
+    reasons: ['Mock score: no identity model was consulted'],
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+// ------------------------------------------------------------------
+// PROVIDER
+// ------------------------------------------------------------------
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock AI (offline)',
+  models: { text: MODEL, image: MODEL },
+  enhancePersonaProfile,
+  analyzePersonaVoice,
+  generateManualVariants,
+  generateAutoTrends,
+  analyzeIdeaRequirements,
+  planCarouselSlides,
+  generateUGCImage,
+  generateCarouselImages,
+  regenerateImage,
+  editImageWithChat,
+  scoreIdentityConsistency,
+  generateCaptionStrategy,
+};
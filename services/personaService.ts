@@ -0,0 +1,114 @@
+import { Persona } from "../types";
+import { supabase, mapPersonaFromDb, mapPersonaToDb } from "../lib/supabase";
+import { localGetAll, localPut, localDelete } from "../lib/localStore";
+import * as SyncService from "./syncService";
+import * as WorkspaceService from "./workspaceService";
+
+const byUpdatedDesc = (a: Persona, b: Persona) => (SyncService.isNewer(b.updatedAt, a.updatedAt) ? 1 : -1);
+
+// ------------------------------------------------------------------
+// LOAD
+// ------------------------------------------------------------------
+
+// Personas stored locally before workspaces existed join the first workspace that loads them
+const loadLocalPersonas = async (workspaceId: string): Promise<Persona[]> => {
+  const personas: Persona[] = [];
+  for (const p of await localGetAll<Persona>('personas')) {
+    if (!p.workspaceId) {
+      const adopted = { ...p, workspaceId };
+      await localPut('personas', adopted);
+      personas.push(adopted);
+    } else if (p.workspaceId === workspaceId) {
+      personas.push(p);
+    }
+  }
+  return personas;
+};
+
+/**
+ * Loads the active workspace's personas from the local store and, when reachable, merges in the Supabase copy.
+ * `connected` reports whether the remote fetch succeeded.
+ */
+export const loadPersonas = async (): Promise<{ personas: Persona[]; connected: boolean }> => {
+  const workspace = WorkspaceService.requireActiveWorkspace();
+
+  let local: Persona[] = [];
+  try {
+    local = await loadLocalPersonas(workspace.id);
+  } catch (e) {
+    console.error("Local store unavailable", e);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('personas')
+      .select('*')
+      .eq('workspace_id', workspace.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const remote: Persona[] = (data || []).map(mapPersonaFromDb);
+    const remoteIds = new Set(remote.map(p => p.id));
+    const localById = new Map(local.map(p => [p.id, p]));
+    const merged: Persona[] = [];
+
+    // Local-only personas are either unsynced creations (keep) or were deleted remotely (drop)
+    for (const p of local.filter(p => !remoteIds.has(p.id)).sort(byUpdatedDesc)) {
+      if (await SyncService.hasPendingOperation('personas', p.id)) merged.push(p);
+      else await localDelete('personas', p.id);
+    }
+
+    for (const remotePersona of remote) {
+      const localPersona = localById.get(remotePersona.id);
+      if (await SyncService.hasPendingOperation('personas', remotePersona.id)) {
+        // A queued local delete hides the remote copy until it has been replayed
+        if (!localPersona) continue;
+        if (SyncService.isNewer(localPersona.updatedAt, remotePersona.updatedAt)) {
+          merged.push(localPersona);
+          continue;
+        }
+      }
+      merged.push(remotePersona);
+      await localPut('personas', remotePersona);
+    }
+
+    return { personas: merged, connected: true };
+  } catch (err) {
+    console.error("Supabase connection error:", err);
+    return { personas: local.sort(byUpdatedDesc), connected: false };
+  }
+};
+
+// ------------------------------------------------------------------
+// WRITE
+// ------------------------------------------------------------------
+
+export const savePersona = async (persona: Persona): Promise<Persona> => {
+  const stamped = {
+    ...persona,
+    workspaceId: persona.workspaceId || WorkspaceService.requireActiveWorkspace().id,
+    updatedAt: new Date().toISOString()
+  };
+
+  await localPut('personas', stamped);
+  await SyncService.enqueueSync({
+    table: 'personas',
+    action: 'upsert',
+    recordId: stamped.id,
+    payload: mapPersonaToDb(stamped),
+    updatedAt: stamped.updatedAt,
+  });
+
+  return stamped;
+};
+
+export const deletePersona = async (id: string): Promise<void> => {
+  await localDelete('personas', id);
+  await SyncService.enqueueSync({
+    table: 'personas',
+    action: 'delete',
+    recordId: id,
+    updatedAt: new Date().toISOString(),
+  });
+};
@@ -0,0 +1,102 @@
+import { PromptTemplate, PromptTemplateKey, PromptTemplatePin } from "../types";
+import {
+  supabase, mapPromptTemplateFromDb, mapPromptTemplateToDb, mapPromptTemplatePinFromDb, mapPromptTemplatePinToDb
+} from "../lib/supabase";
+import { localGet, localPut, localDelete } from "../lib/localStore";
+import { getBuiltInTemplate } from "../lib/promptTemplates";
+import * as SyncService from "./syncService";
+import * as WorkspaceService from "./workspaceService";
+
+// Teammates can save the same next version while offline. The one that syncs later moves up to the next free
+// number, here and in the local store; the unique (workspace_id, key, version) constraint catches the rest.
+SyncService.registerUpsertPreparer('prompt_templates', async (row) => {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('id, version')
+    .eq('workspace_id', row.workspace_id)
+    .eq('key', row.key);
+  if (error) throw error;
+
+  const others = (data || []).filter(t => t.id !== row.id);
+  if (!others.some(t => t.version === row.version)) return row;
+
+  const version = Math.max(...others.map(t => t.version)) + 1;
+  const local = await localGet<PromptTemplate>('prompt_templates', row.id);
+  if (local) await localPut('prompt_templates', { ...local, version });
+  return { ...row, version };
+});
+
+// ------------------------------------------------------------------
+// LOAD
+// ------------------------------------------------------------------
+
+// The workspace's own template versions; built-in versions come from lib/promptTemplates
+export const loadPromptTemplates = (): Promise<PromptTemplate[]> =>
+  SyncService.loadWorkspaceRecords('prompt_templates', WorkspaceService.requireActiveWorkspace().id, mapPromptTemplateFromDb);
+
+export const loadPromptPins = (): Promise<PromptTemplatePin[]> =>
+  SyncService.loadWorkspaceRecords('prompt_template_pins', WorkspaceService.requireActiveWorkspace().id, mapPromptTemplatePinFromDb);
+
+// ------------------------------------------------------------------
+// WRITE
+// ------------------------------------------------------------------
+
+/**
+ * Saves `body` as the next version of `key`. `existing` are the workspace's versions loaded so far.
+ */
+export const savePromptTemplateVersion = async (
+  key: PromptTemplateKey,
+  body: string,
+  note: string,
+  existing: PromptTemplate[]
+): Promise<PromptTemplate> => {
+  const now = new Date().toISOString();
+  const latest = Math.max(getBuiltInTemplate(key).version, ...existing.filter(t => t.key === key).map(t => t.version));
+  const template: PromptTemplate = {
+    id: `pt-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+    key,
+    version: latest + 1,
+    body,
+    note: note.trim(),
+    createdAt: now,
+    updatedAt: now,
+    workspaceId: WorkspaceService.requireActiveWorkspace().id,
+  };
+
+  await localPut('prompt_templates', template);
+  await SyncService.enqueueSync({
+    table: 'prompt_templates',
+    action: 'upsert',
+    recordId: template.id,
+    payload: mapPromptTemplateToDb(template),
+    updatedAt: now,
+  });
+
+  return template;
+};
+
+/**
+ * Pins `version` of `key` for the active workspace, or unpins it when `version` is null.
+ */
+export const pinPromptTemplate = async (key: PromptTemplateKey, version: number | null): Promise<PromptTemplatePin | null> => {
+  const workspaceId = WorkspaceService.requireActiveWorkspace().id;
+  const id = `${workspaceId}:${key}`;
+  const updatedAt = new Date().toISOString();
+
+  if (version === null) {
+    await localDelete('prompt_template_pins', id);
+    await SyncService.enqueueSync({ table: 'prompt_template_pins', action: 'delete', recordId: id, updatedAt });
+    return null;
+  }
+
+  const pin: PromptTemplatePin = { id, key, version, updatedAt, workspaceId };
+  await localPut('prompt_template_pins', pin);
+  await SyncService.enqueueSync({
+    table: 'prompt_template_pins',
+    action: 'upsert',
+    recordId: id,
+    payload: mapPromptTemplatePinToDb(pin),
+    updatedAt,
+  });
+  return pin;
+};
@@ -0,0 +1,116 @@
+import { AIProvider } from "./aiProvider";
+import { AIError, isAbortError } from "./aiErrors";
+import { getApiHeaders } from "./authService";
+import { getUsageCharge, reportUsage } from "./usageService";
+import { mapUsageEventFromDb } from "../lib/supabase";
+import { GeneratedImage, ModelUsage } from "../types";
+import { GEMINI_IMAGE_MODEL, GEMINI_TEXT_MODEL } from "../lib/pricing";
+
+// Browser side of the API proxy (see server/aiRoutes.ts): every operation is a POST to /api/ai/<operation>.
+// The server answers with newline-delimited JSON events so long jobs can report progress.
+// The final event carries the tokens and images the operation used, which are reported to the usage service.
+
+const API_BASE = '/api/ai';
+
+// The server only works on the version on screen, which `imageUrl` mirrors. The rest of the edit tree can be
+// megabytes of data URIs that would push the request over the server's body limit.
+const toRequestImage = ({ versions, ...image }: GeneratedImage): GeneratedImage => image;
+
+type ProxyEvent =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; result: any; usage?: ModelUsage[]; usageEvent?: any }
+  | { type: 'error'; error: { kind: AIError['kind']; message: string }; usage?: ModelUsage[]; usageEvent?: any };
+
+interface CallOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+  // What the usage is charged to
+  personaId?: string;
+  ideaId?: string;
+}
+
+const callApi = async <T>(operation: string, args: any[], options: CallOptions = {}): Promise<T> => {
+  const { signal, onProgress, personaId, ideaId } = options;
+  const headers = await getApiHeaders();
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/${operation}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ args, charge: getUsageCharge(personaId, ideaId) }),
+      signal,
+    });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new AIError('network', "Could not reach the AI server. Check your connection and that the API server is running.", { cause: err });
+  }
+
+  // Requests rejected before any work started (rate limit, bad request) come back as plain JSON
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new AIError(body?.error?.kind || 'unknown', body?.error?.message || `AI server error (${response.status})`, { status: response.status });
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+
+      const event: ProxyEvent = JSON.parse(line);
+      if (event.type === 'progress') {
+        onProgress?.(event.done, event.total);
+        continue;
+      }
+      if (event.usage) {
+        const stored = event.usageEvent ? mapUsageEventFromDb(event.usageEvent) : undefined;
+        reportUsage({ operation, provider: 'gemini', usage: event.usage, personaId, ideaId, event: stored });
+      }
+      if (event.type === 'result') return event.result as T;
+      throw new AIError(event.error.kind, event.error.message);
+    }
+
+    if (done) break;
+  }
+
+  throw new AIError('network', "The AI server closed the connection before answering. Please try again.");
+};
+
+export const proxyProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini 3 Pro',
+  models: { text: GEMINI_TEXT_MODEL, image: GEMINI_IMAGE_MODEL },
+  enhancePersonaProfile: (currentProfile, template) =>
+    callApi('enhancePersonaProfile', [currentProfile, template], { personaId: currentProfile.id }),
+  analyzePersonaVoice: (persona, samples, template, signal) =>
+    callApi('analyzePersonaVoice', [persona, samples, template], { signal, personaId: persona.id }),
+  generateManualVariants: (persona, activity, feedback, brand, product, template) =>
+    callApi('generateManualVariants', [persona, activity, feedback, brand, product, template], { personaId: persona.id }),
+  generateAutoTrends: (persona, brand, product, template) =>
+    callApi('generateAutoTrends', [persona, brand, product, template], { personaId: persona.id }),
+  analyzeIdeaRequirements: (idea, persona, template) =>
+    callApi('analyzeIdeaRequirements', [idea, persona, template], { personaId: persona.id, ideaId: idea.id }),
+  planCarouselSlides: (idea, persona, slideCount) =>
+    callApi('planCarouselSlides', [idea, persona, slideCount], { personaId: persona.id, ideaId: idea.id }),
+  generateUGCImage: (persona, idea, requirements, brand, quality, format, signal) =>
+    callApi('generateUGCImage', [persona, idea, requirements, brand, quality, format], { signal, personaId: persona.id, ideaId: idea.id }),
+  generateCarouselImages: (persona, idea, requirements, brand, quality, format, signal, onSlide) =>
+    callApi('generateCarouselImages', [persona, idea, requirements, brand, quality, format], { signal, onProgress: onSlide, personaId: persona.id, ideaId: idea.id }),
+  regenerateImage: (persona, idea, requirements, brand, image, quality, signal) =>
+    callApi('regenerateImage', [persona, idea, requirements, brand, toRequestImage(image), quality], { signal, personaId: persona.id, ideaId: idea.id }),
+  editImageWithChat: (image, instruction, referenceImage, mask, signal) =>
+    callApi('editImageWithChat', [toRequestImage(image), instruction, referenceImage, mask], { signal, ideaId: image.ideaId }),
+  scoreIdentityConsistency: (persona, image, signal) =>
+    callApi('scoreIdentityConsistency', [persona, toRequestImage(image)], { signal, personaId: persona.id, ideaId: image.ideaId }),
+  generateCaptionStrategy: (persona, idea, brand, options, platforms, avoidHashtags, template, signal) =>
+    callApi('generateCaptionStrategy', [persona, idea, brand, options, platforms, avoidHashtags, template], { signal, personaId: persona.id, ideaId: idea.id }),
+};
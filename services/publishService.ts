@@ -0,0 +1,143 @@
+import { PublishAccount, PublishPlatform, Publication, ScheduledPost } from "../types";
+import { PublishError, PublishResult, PublishablePost } from "./publisher";
+import { getApiHeaders } from "./authService";
+import { requireActiveWorkspace } from "./workspaceService";
+import { CAMPAIGN_BUCKET } from "./campaignService";
+import { uploadImage } from "../lib/supabase";
+import { imageUrlToJpegBlob, isJpegUrl } from "../lib/imageFiles";
+
+// Browser side of publishing (see server/publishRoutes.ts): the server keeps the accounts and talks to the platforms,
+// the browser sends the post and records the outcome on it. Credentials only travel one way, when connecting.
+
+const API_BASE = '/api/publish';
+
+const callApi = async <T = PublishResult>(path: string, body: any): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/${path}`, {
+      method: 'POST',
+      headers: await getApiHeaders(),
+      body: JSON.stringify(body),
+    });
+  } catch (err) {
+    throw new PublishError('network', "Could not reach the publishing server. Check your connection.", { cause: err });
+  }
+
+  const json = await response.json().catch(() => null);
+  if (!response.ok || !json || json.error) {
+    throw new PublishError(json?.error?.kind || 'unknown', json?.error?.message || `Publishing server error (${response.status})`);
+  }
+  return json as T;
+};
+
+const toPublication = (platform: PublishPlatform, result: PublishResult): Publication => ({
+  platform,
+  status: result.status,
+  remoteId: result.remoteId,
+  remoteUrl: result.remoteUrl,
+  updatedAt: new Date().toISOString(),
+});
+
+const toFailedPublication = (platform: PublishPlatform, err: unknown, previous?: Publication): Publication => ({
+  ...previous,
+  platform,
+  status: 'failed',
+  error: err instanceof PublishError ? err.message : "Publishing failed unexpectedly.",
+  updatedAt: new Date().toISOString(),
+});
+
+// Persona id -> platforms it has an account connected on
+export type ConnectedAccounts = Record<string, PublishPlatform[]>;
+
+export const isConnected = (connected: ConnectedAccounts, personaId: string | undefined, platform: PublishPlatform): boolean =>
+  !!personaId && !!connected[personaId]?.includes(platform);
+
+export const loadConnectedAccounts = async (personaIds: string[]): Promise<ConnectedAccounts> => {
+  const { connected } = await callApi<{ connected: ConnectedAccounts }>('accounts', { personaIds });
+  return connected;
+};
+
+/**
+ * Hands the credentials of `account` to the server for `personaId`, or disconnects `platform` when `account` is null.
+ * Returns the persona's connected platforms.
+ */
+export const connectAccount = async (
+  personaId: string,
+  platform: PublishPlatform,
+  account: PublishAccount | null
+): Promise<PublishPlatform[]> => {
+  const { connected } = await callApi<{ connected: PublishPlatform[] }>(`${platform}/account`, { personaId, account });
+  return connected;
+};
+
+export const getPublication = (post: ScheduledPost | undefined, platform: PublishPlatform): Publication | undefined =>
+  post?.publications?.find(p => p.platform === platform);
+
+// `post` with `publication` replacing the previous attempt on the same platform
+export const withPublication = (post: ScheduledPost, publication: Publication): ScheduledPost => ({
+  ...post,
+  publications: [...(post.publications || []).filter(p => p.platform !== publication.platform), publication],
+});
+
+// Instagram only takes JPEG: other images are re-encoded and stored next to the campaign's images
+const toPlatformImages = async (post: ScheduledPost, platform: PublishPlatform): Promise<string[]> => {
+  if (platform !== 'instagram') return post.imageUrls;
+
+  const workspaceId = post.workspaceId || requireActiveWorkspace().id;
+  const urls: string[] = [];
+  for (const [index, url] of post.imageUrls.entries()) {
+    if (isJpegUrl(url)) {
+      urls.push(url);
+      continue;
+    }
+    try {
+      const path = `${post.campaignId}/instagram-${post.ideaId}-${index}.jpg`;
+      urls.push(await uploadImage(await imageUrlToJpegBlob(url), workspaceId, path, CAMPAIGN_BUCKET));
+    } catch (err) {
+      throw new PublishError('network', "Could not convert the images to JPEG for Instagram. Please try again.", { cause: err });
+    }
+  }
+  return urls;
+};
+
+/**
+ * Publishes `post` with its persona's account on `platform`. Never throws: failures come back as a `failed`
+ * publication carrying the message to show.
+ */
+export const publishPost = async (post: ScheduledPost, platform: PublishPlatform): Promise<Publication> => {
+  if (post.imageUrls.some(url => url.startsWith('data:'))) {
+    return toFailedPublication(platform, new PublishError('config', "The images haven't been uploaded yet. Publish again once you are online."));
+  }
+
+  try {
+    const publishable: PublishablePost = {
+      id: post.id,
+      personaId: post.personaId,
+      title: post.title,
+      imageUrls: await toPlatformImages(post, platform),
+      caption: post.caption,
+      hashtags: post.hashtags,
+    };
+    return toPublication(platform, await callApi(platform, { post: publishable }));
+  } catch (err) {
+    console.error(`Publishing to ${platform} failed`, err);
+    return toFailedPublication(platform, err);
+  }
+};
+
+/**
+ * Asks the platform how a `processing` publication ended up. Never throws, like publishPost.
+ */
+export const refreshPublication = async (publication: Publication, personaId: string): Promise<Publication> => {
+  if (publication.status !== 'processing' || !publication.remoteId) return publication;
+
+  try {
+    const result = await callApi(`${publication.platform}/status`, { remoteId: publication.remoteId, personaId });
+    return toPublication(publication.platform, result);
+  } catch (err) {
+    console.error(`Checking ${publication.platform} status failed`, err);
+    // Only the platform saying no ends the attempt; otherwise it may still be processing
+    if (err instanceof PublishError && err.kind === 'rejected') return toFailedPublication(publication.platform, err, publication);
+    return { ...publication, error: err instanceof PublishError ? err.message : "Could not check the status.", updatedAt: new Date().toISOString() };
+  }
+};
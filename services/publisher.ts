@@ -0,0 +1,62 @@
+import { PublishAccount, PublishPlatform, ScheduledPost } from "../types";
+
+// Publishing contract shared by the server-side publishers (server/publishers) and the browser (publishService)
+
+export type PublishErrorKind = 'auth' | 'config' | 'rejected' | 'network' | 'unknown';
+
+/**
+ * Error thrown by every publisher. `message` is written for the end user;
+ * the platform's own error is kept in `cause` for logging.
+ */
+export class PublishError extends Error {
+  kind: PublishErrorKind;
+  cause?: unknown;
+
+  constructor(kind: PublishErrorKind, message: string, options: { cause?: unknown } = {}) {
+    super(message);
+    this.name = 'PublishError';
+    this.kind = kind;
+    this.cause = options.cause;
+  }
+}
+
+// What a publisher receives: the finished post, with images at publicly reachable URLs
+export type PublishablePost = Pick<ScheduledPost, 'id' | 'personaId' | 'title' | 'imageUrls' | 'caption' | 'hashtags'>;
+
+export interface PublishResult {
+  status: 'processing' | 'published';
+  remoteId: string;
+  remoteUrl?: string;
+}
+
+export interface Publisher {
+  platform: PublishPlatform;
+  publish(post: PublishablePost, account: PublishAccount, signal?: AbortSignal): Promise<PublishResult>;
+  // Platforms that finish asynchronously (TikTok) report `processing` first; this polls the outcome
+  checkStatus?(remoteId: string, account: PublishAccount, signal?: AbortSignal): Promise<PublishResult>;
+}
+
+export const PUBLISH_PLATFORMS: { id: PublishPlatform; label: string }[] = [
+  { id: 'instagram', label: 'Instagram' },
+  { id: 'tiktok', label: 'TikTok' },
+  { id: 'local', label: 'Local / Webhook' },
+];
+
+export const getPlatformLabel = (platform: PublishPlatform) =>
+  PUBLISH_PLATFORMS.find(p => p.id === platform)?.label || platform;
+
+/**
+ * What is missing from `account` before it can publish, or null when it is complete.
+ */
+export const getMissingCredentials = (account: PublishAccount): string | null => {
+  switch (account.platform) {
+    case 'instagram':
+      if (!account.accountId?.trim()) return "Instagram account id is missing.";
+      if (!account.accessToken?.trim()) return "Instagram access token is missing.";
+      return null;
+    case 'tiktok':
+      return account.accessToken?.trim() ? null : "TikTok access token is missing.";
+    case 'local':
+      return null;
+  }
+};
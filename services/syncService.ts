@@ -0,0 +1,229 @@
+import { SyncOperation, SyncStatus } from "../types";
+import {
+  supabase, isSupabaseConfigured, mapPersonaFromDb, mapBrandFromDb, mapScheduledPostFromDb, mapCampaignSummaryFromDb,
+  mapPromptTemplateFromDb, mapPromptTemplatePinFromDb
+} from "../lib/supabase";
+import { localGetAll, localGet, localPut, localDelete } from "../lib/localStore";
+
+// Optional per-table hook that runs right before a queued upsert is sent
+// (e.g. campaigns upload any images that are still data URIs).
+type PrepareUpsert = (payload: any) => Promise<any>;
+
+// How a remote row is kept in the local store, for tables whose records can be edited after creation
+const localRecordFromDb: Partial<Record<SyncOperation['table'], (row: any) => any>> = {
+  personas: mapPersonaFromDb,
+  campaigns: (row) => ({ ...mapCampaignSummaryFromDb(row), state: row.state }),
+  brands: mapBrandFromDb,
+  scheduled_posts: mapScheduledPostFromDb,
+  prompt_templates: mapPromptTemplateFromDb,
+  prompt_template_pins: mapPromptTemplatePinFromDb,
+};
+
+// Rows that are never changed after they are written: replaying one that already arrived is a no-op
+const APPEND_ONLY_TABLES = new Set<SyncOperation['table']>(['prompt_templates', 'audit_log', 'usage_events']);
+
+const preparers: Partial<Record<SyncOperation['table'], PrepareUpsert>> = {};
+const listeners = new Set<(status: SyncStatus) => void>();
+let syncing = false;
+let flushRequested = false;
+
+const toTime = (timestamp?: string | null) => (timestamp ? Date.parse(timestamp) : 0) || 0;
+
+// Compares DB (`+00:00`, microseconds) and client (`Z`) timestamps safely
+export const isNewer = (a?: string | null, b?: string | null): boolean => toTime(a) > toTime(b);
+
+export const registerUpsertPreparer = (table: SyncOperation['table'], prepare: PrepareUpsert) => {
+  preparers[table] = prepare;
+};
+
+// ------------------------------------------------------------------
+// STATUS
+// ------------------------------------------------------------------
+
+export const getSyncStatus = async (): Promise<SyncStatus> => {
+  const ops = await localGetAll<SyncOperation>('syncQueue');
+  return {
+    pending: ops.filter(op => !op.lastError).length,
+    failed: ops.filter(op => !!op.lastError).length,
+    syncing,
+  };
+};
+
+const emitStatus = async () => {
+  try {
+    const status = await getSyncStatus();
+    listeners.forEach(listener => listener(status));
+  } catch (e) {
+    console.error("Failed to read sync queue", e);
+  }
+};
+
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  listeners.add(listener);
+  emitStatus();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const hasPendingOperation = async (table: SyncOperation['table'], recordId: string): Promise<boolean> => {
+  return !!(await localGet<SyncOperation>('syncQueue', `${table}:${recordId}`));
+};
+
+// ------------------------------------------------------------------
+// LOAD
+// ------------------------------------------------------------------
+
+/**
+ * Loads a workspace's records of `table` from the local store and, when reachable, merges in the Supabase copy
+ * (same rules as personas: unsynced local changes win, records deleted remotely are dropped).
+ */
+export const loadWorkspaceRecords = async <T extends { id: string; workspaceId?: string; updatedAt?: string }>(
+  table: SyncOperation['table'],
+  workspaceId: string,
+  mapFromDb: (row: any) => T
+): Promise<T[]> => {
+  let local: T[] = [];
+  try {
+    local = (await localGetAll<T>(table)).filter(r => r.workspaceId === workspaceId);
+  } catch (e) {
+    console.error("Local store unavailable", e);
+  }
+  if (!isSupabaseConfigured) return local;
+
+  try {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('workspace_id', workspaceId);
+
+    if (error) throw error;
+
+    const remote: T[] = (data || []).map(mapFromDb);
+    const remoteIds = new Set(remote.map(r => r.id));
+    const localById = new Map(local.map(r => [r.id, r]));
+    const merged: T[] = [];
+
+    for (const r of local.filter(r => !remoteIds.has(r.id))) {
+      if (await hasPendingOperation(table, r.id)) merged.push(r);
+      else await localDelete(table, r.id);
+    }
+
+    for (const remoteRecord of remote) {
+      const localRecord = localById.get(remoteRecord.id);
+      if (await hasPendingOperation(table, remoteRecord.id)) {
+        if (!localRecord) continue;
+        if (isNewer(localRecord.updatedAt, remoteRecord.updatedAt)) {
+          merged.push(localRecord);
+          continue;
+        }
+      }
+      merged.push(remoteRecord);
+      await localPut(table, remoteRecord);
+    }
+
+    return merged;
+  } catch (err) {
+    console.error(`Failed to load remote ${table}, showing local copies:`, err);
+    return local;
+  }
+};
+
+// ------------------------------------------------------------------
+// QUEUE
+// ------------------------------------------------------------------
+
+export const enqueueSync = async (
+  op: Pick<SyncOperation, 'table' | 'action' | 'recordId' | 'payload' | 'updatedAt'>
+): Promise<void> => {
+  // In local mode the local store is the only copy; there is nothing to sync to
+  if (!isSupabaseConfigured) return;
+
+  await localPut<SyncOperation>('syncQueue', {
+    ...op,
+    id: `${op.table}:${op.recordId}`,
+    attempts: 0,
+  });
+  await emitStatus();
+  flushSyncQueue();
+};
+
+const applyOperation = async (op: SyncOperation) => {
+  if (op.action === 'delete') {
+    const { error } = await supabase.from(op.table).delete().eq('id', op.recordId);
+    if (error) throw error;
+    return;
+  }
+
+  // Conflict resolution: last write wins by updated_at
+  const { data: remote, error: readError } = await supabase
+    .from(op.table)
+    .select('*')
+    .eq('id', op.recordId)
+    .maybeSingle();
+
+  if (readError) throw readError;
+
+  if (isNewer(remote?.updated_at, op.updatedAt)) {
+    // The local change lost: replace the local record with the remote copy, unless it was edited again meanwhile
+    const toLocal = localRecordFromDb[op.table];
+    const current = await localGet<SyncOperation>('syncQueue', op.id);
+    if (toLocal && current?.updatedAt === op.updatedAt) {
+      await localPut(op.table, toLocal(remote));
+    }
+    return;
+  }
+
+  const prepare = preparers[op.table];
+  const payload = prepare ? await prepare(op.payload) : op.payload;
+
+  const { error } = await supabase.from(op.table).upsert(payload, { ignoreDuplicates: APPEND_ONLY_TABLES.has(op.table) });
+  if (error) throw error;
+};
+
+/**
+ * Replays queued upserts/deletes to Supabase in the order they were made.
+ * Failed operations stay in the queue (flagged with `lastError`) and are retried on the next flush.
+ */
+export const flushSyncQueue = async (): Promise<void> => {
+  if (!isSupabaseConfigured || !navigator.onLine) return;
+  if (syncing) {
+    // Picked up once the running flush finishes
+    flushRequested = true;
+    return;
+  }
+
+  syncing = true;
+  flushRequested = false;
+  await emitStatus();
+
+  try {
+    const ops = await localGetAll<SyncOperation>('syncQueue');
+    ops.sort((a, b) => toTime(a.updatedAt) - toTime(b.updatedAt));
+
+    for (const op of ops) {
+      let failure: string | null = null;
+      try {
+        await applyOperation(op);
+      } catch (e: any) {
+        console.error("Sync operation failed", op.id, e);
+        failure = e?.message || String(e);
+      }
+
+      // Leave the entry alone if it was replaced by a newer change while we were sending it
+      const current = await localGet<SyncOperation>('syncQueue', op.id);
+      if (!current || current.updatedAt !== op.updatedAt) continue;
+
+      if (failure) {
+        await localPut<SyncOperation>('syncQueue', { ...op, attempts: op.attempts + 1, lastError: failure });
+      } else {
+        await localDelete('syncQueue', op.id);
+      }
+    }
+  } finally {
+    syncing = false;
+    await emitStatus();
+  }
+
+  if (flushRequested) await flushSyncQueue();
+};
@@ -0,0 +1,171 @@
+import { ModelUsage, UsageCharge, UsageEvent } from "../types";
+import { supabase, mapUsageEventFromDb, mapUsageEventToDb } from "../lib/supabase";
+import { localGetAll, localPut, localDelete } from "../lib/localStore";
+import { getUsageCost } from "../lib/pricing";
+import * as SyncService from "./syncService";
+import * as WorkspaceService from "./workspaceService";
+
+// ------------------------------------------------------------------
+// REPORTS
+// ------------------------------------------------------------------
+
+/**
+ * What one AI operation used, as reported by the provider. `personaId` and `ideaId` tell the app
+ * which persona and campaign to charge it to.
+ */
+export interface UsageReport {
+  operation: string;
+  provider: string;
+  usage: ModelUsage[];
+  personaId?: string;
+  ideaId?: string;
+  event?: UsageEvent; // already stored by the AI server (with Supabase sign-in)
+}
+
+// Set by the app so charges follow the open campaign. The AI server records usage against the charge and
+// checks the workspace budget.
+let resolveCharge: (personaId?: string, ideaId?: string) => UsageCharge = (personaId) =>
+  ({ workspaceId: WorkspaceService.getActiveWorkspace()?.id, personaId });
+
+export const setChargeResolver = (resolver: (personaId?: string, ideaId?: string) => UsageCharge) => {
+  resolveCharge = resolver;
+};
+
+export const getUsageCharge = (personaId?: string, ideaId?: string): UsageCharge => resolveCharge(personaId, ideaId);
+
+const listeners = new Set<(report: UsageReport) => void>();
+
+export const subscribeUsage = (listener: (report: UsageReport) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Called by the providers after every operation, including failed ones that were still billed
+export const reportUsage = (report: UsageReport) => {
+  if (report.usage.length === 0) return;
+  listeners.forEach(listener => listener(report));
+};
+
+// ------------------------------------------------------------------
+// LOAD
+// ------------------------------------------------------------------
+
+const startOfMonth = (): string => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+};
+
+/**
+ * The active workspace's usage events of the current calendar month. Like the audit log, events written
+ * on this device are merged in from the local store until they are synced.
+ */
+export const loadMonthUsage = async (): Promise<UsageEvent[]> => {
+  const workspace = WorkspaceService.requireActiveWorkspace();
+  const since = startOfMonth();
+
+  let local: UsageEvent[] = [];
+  try {
+    local = (await localGetAll<UsageEvent>('usage_events'))
+      .filter(e => e.workspaceId === workspace.id && e.createdAt >= since);
+  } catch (e) {
+    console.error("Local store unavailable", e);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('usage_events')
+      .select('*')
+      .eq('workspace_id', workspace.id)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+
+    const remote: UsageEvent[] = (data || []).map(mapUsageEventFromDb);
+    const unsynced: UsageEvent[] = [];
+    for (const event of local) {
+      if (await SyncService.hasPendingOperation('usage_events', event.id)) unsynced.push(event);
+      else await localDelete('usage_events', event.id);
+    }
+
+    const remoteIds = new Set(remote.map(e => e.id));
+    return [...unsynced.filter(e => !remoteIds.has(e.id)), ...remote];
+  } catch (err) {
+    console.error("Failed to load remote usage, using local events:", err);
+    return local;
+  }
+};
+
+// ------------------------------------------------------------------
+// WRITE
+// ------------------------------------------------------------------
+
+/**
+ * Prices `report` and appends it to the active workspace's usage. Events are never changed afterwards.
+ * Only used without Supabase sign-in; otherwise the AI server stores the event.
+ */
+export const recordUsageEvent = async (
+  report: UsageReport,
+  details: { personaId?: string; campaignId?: string | null; userEmail?: string }
+): Promise<UsageEvent> => {
+  const now = new Date().toISOString();
+  const event: UsageEvent = {
+    id: `usage-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    operation: report.operation,
+    provider: report.provider,
+    usage: report.usage,
+    cost: getUsageCost(report.usage),
+    personaId: details.personaId,
+    campaignId: details.campaignId,
+    userEmail: details.userEmail,
+    createdAt: now,
+    updatedAt: now,
+    workspaceId: WorkspaceService.requireActiveWorkspace().id,
+  };
+
+  await localPut('usage_events', event);
+  await SyncService.enqueueSync({
+    table: 'usage_events',
+    action: 'upsert',
+    recordId: event.id,
+    payload: mapUsageEventToDb(event),
+    updatedAt: now,
+  });
+
+  return event;
+};
+
+// ------------------------------------------------------------------
+// SUMMARIES
+// ------------------------------------------------------------------
+
+export interface UsageTotals {
+  cost: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+  operations: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ cost: 0, images: 0, inputTokens: 0, outputTokens: 0, operations: 0 });
+
+const addEvent = (totals: UsageTotals, event: UsageEvent): UsageTotals => ({
+  cost: totals.cost + event.cost,
+  images: totals.images + event.usage.reduce((sum, u) => sum + u.images, 0),
+  inputTokens: totals.inputTokens + event.usage.reduce((sum, u) => sum + u.inputTokens, 0),
+  outputTokens: totals.outputTokens + event.usage.reduce((sum, u) => sum + u.outputTokens + u.imageTokens, 0),
+  operations: totals.operations + 1,
+});
+
+export const sumUsage = (events: UsageEvent[]): UsageTotals => events.reduce(addEvent, emptyTotals());
+
+// Totals per key, most expensive first; events without a key are grouped under ''
+export const groupUsage = (events: UsageEvent[], keyOf: (event: UsageEvent) => string | undefined | null): [string, UsageTotals][] => {
+  const groups = new Map<string, UsageTotals>();
+  for (const event of events) {
+    const key = keyOf(event) || '';
+    groups.set(key, addEvent(groups.get(key) || emptyTotals(), event));
+  }
+  return [...groups.entries()].sort((a, b) => b[1].cost - a[1].cost);
+};
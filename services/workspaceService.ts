@@ -0,0 +1,177 @@
+import { AppUser, Workspace } from "../types";
+import { supabase, mapWorkspaceFromDb } from "../lib/supabase";
+import { authEnabled } from "./authService";
+
+const ACTIVE_WORKSPACE_KEY = 'ugc-flow-active-workspace';
+const WORKSPACE_CACHE_KEY = 'ugc-flow-workspaces';
+
+export const LOCAL_WORKSPACE: Workspace = { id: 'local', name: 'Local workspace', role: 'owner' };
+
+export interface WorkspaceState {
+  user: AppUser | null;
+  workspaces: Workspace[];
+  activeWorkspaceId: string | null;
+}
+
+let current: WorkspaceState = { user: null, workspaces: [], activeWorkspaceId: null };
+const listeners = new Set<(state: WorkspaceState) => void>();
+
+const setCurrent = (next: WorkspaceState) => {
+  current = next;
+  listeners.forEach(listener => listener(current));
+};
+
+export const getWorkspaceState = (): WorkspaceState => current;
+
+export const subscribeWorkspaces = (listener: (state: WorkspaceState) => void): (() => void) => {
+  listeners.add(listener);
+  listener(current);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getActiveWorkspace = (): Workspace | null =>
+  current.workspaces.find(w => w.id === current.activeWorkspaceId) || null;
+
+/**
+ * The workspace every read and write is scoped to. Persona and campaign services call this,
+ * so nothing can be loaded or saved before a user is signed in and a workspace is picked.
+ */
+export const requireActiveWorkspace = (): Workspace => {
+  const workspace = getActiveWorkspace();
+  if (!workspace) throw new Error("No workspace selected");
+  return workspace;
+};
+
+// ------------------------------------------------------------------
+// LOAD
+// ------------------------------------------------------------------
+
+// The last known list per user, so a signed-in user can keep working offline
+const cacheKey = (userId: string) => `${WORKSPACE_CACHE_KEY}:${userId}`;
+
+const readCache = (userId: string): Workspace[] => {
+  try {
+    return JSON.parse(localStorage.getItem(cacheKey(userId)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeCache = (userId: string, workspaces: Workspace[]) => {
+  localStorage.setItem(cacheKey(userId), JSON.stringify(workspaces));
+};
+
+// Without accounts there is no workspaces table, so the local workspace keeps its budget here
+const LOCAL_BUDGET_KEY = 'ugc-flow-local-budget';
+
+const readLocalBudget = (): number | null => {
+  const stored = Number(localStorage.getItem(LOCAL_BUDGET_KEY));
+  return stored > 0 ? stored : null;
+};
+
+const pickActive = (workspaces: Workspace[]): string | null => {
+  const stored = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  return workspaces.find(w => w.id === stored)?.id || workspaces[0]?.id || null;
+};
+
+const fetchRemoteWorkspaces = async (userId: string): Promise<Workspace[]> => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces (id, name, monthly_budget)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapWorkspaceFromDb);
+};
+
+/**
+ * Loads the workspaces `user` belongs to and restores the last active one.
+ * A user without any workspace (first sign-in) gets a personal one.
+ */
+export const loadWorkspaces = async (user: AppUser): Promise<void> => {
+  if (!authEnabled) {
+    setCurrent({ user, workspaces: [{ ...LOCAL_WORKSPACE, monthlyBudget: readLocalBudget() }], activeWorkspaceId: LOCAL_WORKSPACE.id });
+    return;
+  }
+
+  let workspaces: Workspace[];
+  try {
+    workspaces = await fetchRemoteWorkspaces(user.id);
+    if (workspaces.length === 0) {
+      workspaces = [await insertWorkspace(`${user.email.split('@')[0] || 'My'}'s workspace`)];
+    }
+    writeCache(user.id, workspaces);
+  } catch (err) {
+    console.error("Failed to load workspaces, using cached list:", err);
+    workspaces = readCache(user.id);
+    if (workspaces.length === 0) throw err;
+  }
+
+  setCurrent({ user, workspaces, activeWorkspaceId: pickActive(workspaces) });
+};
+
+// Forgets the signed-out user's workspaces; the cached list stays for their next offline sign-in
+export const clearWorkspaces = () => {
+  setCurrent({ user: null, workspaces: [], activeWorkspaceId: null });
+};
+
+// ------------------------------------------------------------------
+// WRITE
+// ------------------------------------------------------------------
+
+export const setActiveWorkspace = (id: string) => {
+  if (!current.workspaces.some(w => w.id === id)) return;
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  setCurrent({ ...current, activeWorkspaceId: id });
+};
+
+const insertWorkspace = async (name: string): Promise<Workspace> => {
+  const { data, error } = await supabase.rpc('create_workspace', { workspace_name: name });
+  if (error) throw error;
+  return { id: data.id, name: data.name, role: 'owner', monthlyBudget: data.monthly_budget ?? null };
+};
+
+// Creates a workspace owned by the signed-in user and switches to it
+export const createWorkspace = async (name: string): Promise<Workspace> => {
+  if (!current.user) throw new Error("Sign in to create a workspace");
+
+  const workspace = await insertWorkspace(name);
+  const workspaces = [...current.workspaces, workspace];
+  writeCache(current.user.id, workspaces);
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspace.id);
+  setCurrent({ ...current, workspaces, activeWorkspaceId: workspace.id });
+  return workspace;
+};
+
+// Adds an existing account to the active workspace (owners only, enforced by the database)
+export const addMember = async (email: string): Promise<void> => {
+  const workspace = requireActiveWorkspace();
+  const { error } = await supabase.rpc('add_workspace_member', {
+    target_workspace: workspace.id,
+    member_email: email,
+  });
+  if (error) throw error;
+};
+
+// Sets the active workspace's monthly AI budget in USD, or removes it with null (owners only, enforced by the database)
+export const setMonthlyBudget = async (amount: number | null): Promise<void> => {
+  const workspace = requireActiveWorkspace();
+
+  if (!authEnabled) {
+    if (amount) localStorage.setItem(LOCAL_BUDGET_KEY, String(amount));
+    else localStorage.removeItem(LOCAL_BUDGET_KEY);
+  } else {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ monthly_budget: amount })
+      .eq('id', workspace.id);
+    if (error) throw error;
+  }
+
+  const workspaces = current.workspaces.map(w => w.id === workspace.id ? { ...w, monthlyBudget: amount } : w);
+  if (authEnabled && current.user) writeCache(current.user.id, workspaces);
+  setCurrent({ ...current, workspaces });
+};
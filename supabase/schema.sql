@@ -0,0 +1,428 @@
+-- Tables used by UGC Flow in addition to the existing `personas` table.
+-- Run in the Supabase SQL editor.
+
+-- ------------------------------------------------------------------
+-- PERSONAS
+-- ------------------------------------------------------------------
+
+-- Used by the offline sync queue to resolve conflicts (last write wins)
+alter table personas add column if not exists updated_at timestamptz not null default now();
+
+-- ------------------------------------------------------------------
+-- CAMPAIGNS
+-- ------------------------------------------------------------------
+
+create table if not exists campaigns (
+  id text primary key,
+  title text not null default '',
+  step text not null,
+  persona_ids text[] not null default '{}',
+  state jsonb not null,               -- full WorkflowState snapshot
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists campaigns_updated_at_idx on campaigns (updated_at desc);
+
+-- Public bucket for generated campaign images (same policy setup as `personas`)
+insert into storage.buckets (id, name, public)
+values ('campaigns', 'campaigns', true)
+on conflict (id) do nothing;
+
+-- ------------------------------------------------------------------
+-- WORKSPACES
+-- ------------------------------------------------------------------
+
+-- Every persona and campaign belongs to a workspace; members of a workspace share its data.
+-- Sign-in uses Supabase Auth (email + password), so enable the Email provider in the dashboard.
+
+create table if not exists workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid not null default auth.uid() references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists workspace_members (
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_idx on workspace_members (user_id);
+
+-- Security definer so the policies below can check membership without recursing into workspace_members' own policy
+create or replace function is_workspace_member(target_workspace uuid, required_role text default null)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (
+    select 1 from workspace_members
+    where workspace_id = target_workspace
+      and user_id = auth.uid()
+      and (required_role is null or role = required_role)
+  );
+$$;
+
+-- Creates a workspace with the caller as its owner
+create or replace function create_workspace(workspace_name text)
+returns workspaces
+language plpgsql security definer set search_path = public
+as $$
+declare
+  created workspaces;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to create a workspace';
+  end if;
+
+  insert into workspaces (name, created_by) values (workspace_name, auth.uid()) returning * into created;
+  insert into workspace_members (workspace_id, user_id, role) values (created.id, auth.uid(), 'owner');
+  return created;
+end;
+$$;
+
+-- Lets a workspace owner add an existing user by email
+create or replace function add_workspace_member(target_workspace uuid, member_email text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+declare
+  member_id uuid;
+begin
+  if not is_workspace_member(target_workspace, 'owner') then
+    raise exception 'Only workspace owners can add members';
+  end if;
+
+  select id into member_id from auth.users where lower(email) = lower(member_email);
+  if member_id is null then
+    raise exception 'No account found for %', member_email;
+  end if;
+
+  insert into workspace_members (workspace_id, user_id, role)
+  values (target_workspace, member_id, 'member')
+  on conflict (workspace_id, user_id) do nothing;
+end;
+$$;
+
+alter table workspaces enable row level security;
+alter table workspace_members enable row level security;
+
+drop policy if exists "Members read their workspaces" on workspaces;
+create policy "Members read their workspaces" on workspaces
+  for select using (is_workspace_member(id));
+
+drop policy if exists "Owners rename their workspaces" on workspaces;
+create policy "Owners rename their workspaces" on workspaces
+  for update using (is_workspace_member(id, 'owner'));
+
+drop policy if exists "Members see each other" on workspace_members;
+create policy "Members see each other" on workspace_members
+  for select using (is_workspace_member(workspace_id));
+
+drop policy if exists "Owners remove members, members leave" on workspace_members;
+create policy "Owners remove members, members leave" on workspace_members
+  for delete using (user_id = auth.uid() or is_workspace_member(workspace_id, 'owner'));
+
+-- ------------------------------------------------------------------
+-- OWNERSHIP
+-- ------------------------------------------------------------------
+
+-- owner_id is filled in by the database from the signed-in user and never sent by the app,
+-- so updating someone else's persona or campaign keeps its original owner.
+-- Rows created before workspaces existed have no workspace_id and are hidden until assigned, e.g.
+--   update personas set workspace_id = '<workspace id>' where workspace_id is null;
+
+alter table personas add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+alter table personas add column if not exists owner_id uuid default auth.uid() references auth.users (id);
+create index if not exists personas_workspace_idx on personas (workspace_id);
+
+alter table campaigns add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+alter table campaigns add column if not exists owner_id uuid default auth.uid() references auth.users (id);
+create index if not exists campaigns_workspace_idx on campaigns (workspace_id, updated_at desc);
+
+alter table personas enable row level security;
+alter table campaigns enable row level security;
+
+drop policy if exists "Workspace members manage personas" on personas;
+create policy "Workspace members manage personas" on personas
+  for all using (is_workspace_member(workspace_id)) with check (is_workspace_member(workspace_id));
+
+drop policy if exists "Workspace members manage campaigns" on campaigns;
+create policy "Workspace members manage campaigns" on campaigns
+  for all using (is_workspace_member(workspace_id)) with check (is_workspace_member(workspace_id));
+
+-- Uploads go into a folder named after the workspace (`<workspace id>/...`) and require membership of it;
+-- the buckets stay public so image URLs keep working in <img> tags
+drop policy if exists "Signed-in users upload images" on storage.objects;
+create policy "Signed-in users upload images" on storage.objects
+  for insert to authenticated with check (
+    bucket_id in ('personas', 'campaigns') and is_workspace_member((storage.foldername(name))[1]::uuid)
+  );
+
+drop policy if exists "Signed-in users replace images" on storage.objects;
+create policy "Signed-in users replace images" on storage.objects
+  for update to authenticated
+  using (bucket_id in ('personas', 'campaigns') and is_workspace_member((storage.foldername(name))[1]::uuid))
+  with check (bucket_id in ('personas', 'campaigns') and is_workspace_member((storage.foldername(name))[1]::uuid));
+
+-- ------------------------------------------------------------------
+-- BRANDS
+-- ------------------------------------------------------------------
+
+create table if not exists brands (
+  id text primary key,
+  name text not null,
+  tone_of_voice text not null default '',
+  banned_words text[] not null default '{}',
+  required_hashtags text[] not null default '{}',  -- without the leading '#'
+  visual_guidelines text not null default '',
+  products jsonb not null default '[]',            -- [{ id, name, description, imageUrls }]
+  workspace_id uuid references workspaces (id) on delete cascade,
+  owner_id uuid default auth.uid() references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists brands_workspace_idx on brands (workspace_id);
+
+alter table brands enable row level security;
+
+drop policy if exists "Workspace members manage brands" on brands;
+create policy "Workspace members manage brands" on brands
+  for all using (is_workspace_member(workspace_id)) with check (is_workspace_member(workspace_id));
+
+-- Product photos
+insert into storage.buckets (id, name, public)
+values ('brands', 'brands', true)
+on conflict (id) do nothing;
+
+drop policy if exists "Signed-in users upload images" on storage.objects;
+create policy "Signed-in users upload images" on storage.objects
+  for insert to authenticated with check (
+    bucket_id in ('personas', 'campaigns', 'brands') and is_workspace_member((storage.foldername(name))[1]::uuid)
+  );
+
+drop policy if exists "Signed-in users replace images" on storage.objects;
+create policy "Signed-in users replace images" on storage.objects
+  for update to authenticated
+  using (bucket_id in ('personas', 'campaigns', 'brands') and is_workspace_member((storage.foldername(name))[1]::uuid))
+  with check (bucket_id in ('personas', 'campaigns', 'brands') and is_workspace_member((storage.foldername(name))[1]::uuid));
+
+-- ------------------------------------------------------------------
+-- CONTENT CALENDAR
+-- ------------------------------------------------------------------
+
+create table if not exists scheduled_posts (
+  id text primary key,                 -- `${campaign_id}:${idea_id}`
+  campaign_id text not null,
+  idea_id text not null,
+  persona_id text not null,
+  title text not null default '',
+  image_urls text[] not null default '{}',
+  caption text not null default '',
+  hashtags text[] not null default '{}',
+  format_id text,
+  scheduled_at timestamptz,            -- null while unscheduled
+  workspace_id uuid references workspaces (id) on delete cascade,
+  owner_id uuid default auth.uid() references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists scheduled_posts_workspace_idx on scheduled_posts (workspace_id, scheduled_at);
+
+alter table scheduled_posts enable row level security;
+
+drop policy if exists "Workspace members manage scheduled posts" on scheduled_posts;
+create policy "Workspace members manage scheduled posts" on scheduled_posts
+  for all using (is_workspace_member(workspace_id)) with check (is_workspace_member(workspace_id));
+
+-- ------------------------------------------------------------------
+-- PUBLISHING
+-- ------------------------------------------------------------------
+
+-- Platform credentials, one account per persona and platform. Row level security is on with no policies, so
+-- clients can't read or write them: the publishing server uses the service role key after checking that the
+-- caller is a member of the persona's workspace, and the app only ever learns which platforms are connected.
+create table if not exists publish_accounts (
+  persona_id text not null references personas (id) on delete cascade,
+  platform text not null check (platform in ('instagram', 'tiktok', 'local')),
+  account_id text,
+  access_token text,
+  webhook_url text,
+  updated_at timestamptz not null default now(),
+  primary key (persona_id, platform)
+);
+
+alter table publish_accounts enable row level security;
+
+-- Earlier versions kept the credentials on the persona, readable by the whole workspace; move them over
+do $$
+begin
+  if exists (select 1 from information_schema.columns where table_name = 'personas' and column_name = 'publish_accounts') then
+    insert into publish_accounts (persona_id, platform, account_id, access_token, webhook_url)
+    select p.id, a->>'platform', a->>'accountId', a->>'accessToken', a->>'webhookUrl'
+    from personas p, jsonb_array_elements(p.publish_accounts) a
+    where a->>'platform' in ('instagram', 'tiktok', 'local')
+    on conflict (persona_id, platform) do nothing;
+
+    alter table personas drop column publish_accounts;
+  end if;
+end;
+$$;
+
+-- Latest publish attempt per platform ([{ platform, status, remoteId, remoteUrl, error, updatedAt }])
+alter table scheduled_posts add column if not exists publications jsonb not null default '[]';
+
+-- ------------------------------------------------------------------
+-- HASHTAG GROUPS
+-- ------------------------------------------------------------------
+
+-- Saved, reusable hashtag sets ([{ id, name, hashtags }]), hashtags without the leading '#'
+alter table personas add column if not exists hashtag_groups jsonb not null default '[]';
+alter table brands add column if not exists hashtag_groups jsonb not null default '[]';
+
+-- ------------------------------------------------------------------
+-- PROMPT TEMPLATES
+-- ------------------------------------------------------------------
+
+-- Workspace versions of the text prompts. The app ships built-in versions (1, 2, ...) of every template;
+-- versions are never edited, a change is saved as the next version.
+create table if not exists prompt_templates (
+  id text primary key,
+  key text not null,                   -- 'casting-director', 'creative-director', 'trend-scout', 'requirement-analyzer', 'caption-writer', 'voice-analyst'
+  version integer not null,
+  body text not null,                  -- prompt with {{variable}} placeholders
+  note text not null default '',
+  workspace_id uuid references workspaces (id) on delete cascade,
+  owner_id uuid default auth.uid() references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists prompt_templates_workspace_idx on prompt_templates (workspace_id, key, version);
+
+-- Two teammates saving the same next version: the second to sync is renumbered by the app
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'prompt_templates_version_key') then
+    alter table prompt_templates add constraint prompt_templates_version_key unique (workspace_id, key, version);
+  end if;
+end;
+$$;
+
+-- Version a workspace always uses; without a pin the newest version is used
+create table if not exists prompt_template_pins (
+  id text primary key,                 -- `${workspace_id}:${key}`
+  key text not null,
+  version integer not null,
+  workspace_id uuid references workspaces (id) on delete cascade,
+  updated_at timestamptz not null default now()
+);
+
+alter table prompt_templates enable row level security;
+alter table prompt_template_pins enable row level security;
+
+-- Versions are never edited or deleted once saved, so members can only read and add them
+drop policy if exists "Workspace members manage prompt templates" on prompt_templates;
+drop policy if exists "Workspace members read prompt templates" on prompt_templates;
+create policy "Workspace members read prompt templates" on prompt_templates
+  for select using (is_workspace_member(workspace_id));
+
+drop policy if exists "Workspace members add prompt templates" on prompt_templates;
+create policy "Workspace members add prompt templates" on prompt_templates
+  for insert with check (is_workspace_member(workspace_id));
+
+drop policy if exists "Workspace members manage prompt pins" on prompt_template_pins;
+create policy "Workspace members manage prompt pins" on prompt_template_pins
+  for all using (is_workspace_member(workspace_id)) with check (is_workspace_member(workspace_id));
+
+-- Template version of the persona's last AI profile enhancement ({ key, version })
+alter table personas add column if not exists profile_template jsonb;
+
+-- Persona style guide ({ ageRange, bodyType, hair, wardrobe[], colorPalette[], photographyStyle, cameraLook, forbidden[] })
+alter table personas add column if not exists style jsonb;
+
+-- Sample captions in the persona's own words and the voice profile learned from them
+-- ({ summary, vocabulary[], emojiUsage, sentenceLength, languageMix, recurringPhrases[], sampleCount, learnedAt })
+alter table personas add column if not exists voice_samples jsonb not null default '[]';
+alter table personas add column if not exists voice_profile jsonb;
+
+-- ------------------------------------------------------------------
+-- AUDIT LOG
+-- ------------------------------------------------------------------
+
+-- One row per generated idea, requirement, image, image edit and caption, with its provenance
+-- ({ provider, model, template, prompt, referenceImages, parameters, createdAt, userId, userEmail }).
+create table if not exists audit_log (
+  id text primary key,
+  action text not null,                -- 'idea.generated', 'image.edited', ...
+  artifact_id text not null,
+  summary text not null default '',
+  campaign_id text,
+  persona_id text,
+  provenance jsonb not null,
+  user_email text not null default '',
+  workspace_id uuid references workspaces (id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()  -- read by the sync queue's conflict check
+);
+
+create index if not exists audit_log_workspace_idx on audit_log (workspace_id, created_at desc);
+
+alter table audit_log enable row level security;
+
+-- Append-only: there is no update or delete policy. The sync queue retries an entry with an upsert that
+-- ignores rows which already arrived, so it never needs to update one.
+drop policy if exists "Workspace members read the audit log" on audit_log;
+create policy "Workspace members read the audit log" on audit_log
+  for select using (is_workspace_member(workspace_id));
+
+drop policy if exists "Workspace members append to the audit log" on audit_log;
+create policy "Workspace members append to the audit log" on audit_log
+  for insert with check (is_workspace_member(workspace_id) and user_id = auth.uid());
+
+drop policy if exists "Authors retry their audit entries" on audit_log;
+
+-- ------------------------------------------------------------------
+-- USAGE
+-- ------------------------------------------------------------------
+
+-- Estimated AI spend per calendar month (USD) above which AI runs are blocked; null for no limit.
+-- Owners set it through the "Owners rename their workspaces" update policy.
+alter table workspaces add column if not exists monthly_budget numeric;
+
+-- One row per AI operation with the tokens and images billed per model
+-- ([{ model, inputTokens, outputTokens, imageTokens, images }]) and its estimated cost.
+create table if not exists usage_events (
+  id text primary key,
+  operation text not null,             -- AIProvider method, e.g. 'generateUGCImage'
+  provider text not null,
+  usage jsonb not null default '[]'::jsonb,
+  cost numeric not null default 0,
+  persona_id text,
+  campaign_id text,
+  user_email text not null default '',
+  workspace_id uuid references workspaces (id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()  -- read by the sync queue's conflict check
+);
+
+create index if not exists usage_events_workspace_idx on usage_events (workspace_id, created_at desc);
+
+alter table usage_events enable row level security;
+
+-- Members can only read: the AI server inserts the events with the service role after each operation and
+-- checks the month's total against the budget before starting one
+drop policy if exists "Workspace members read usage" on usage_events;
+create policy "Workspace members read usage" on usage_events
+  for select using (is_workspace_member(workspace_id));
+
+drop policy if exists "Workspace members record usage" on usage_events;
+
+drop policy if exists "Authors retry their usage events" on usage_events;
@@ -7,6 +7,94 @@ export interface Persona {
   bio: string;
   avatarUrl: string;
   refImages: string[]; // base64 strings
+  hashtagGroups?: HashtagGroup[];
+  style?: PersonaStyle;
+  voiceSamples?: string[]; // past captions and posts in the persona's own words
+  voiceProfile?: VoiceProfile; // learned from `voiceSamples`
+  profileTemplate?: PromptTemplateRef; // template of the last AI profile enhancement
+  updatedAt?: string;
+  workspaceId?: string;
+  ownerId?: string; // set by the database from the user who created it
+}
+
+// The persona's look, added to every image prompt so it stays the same across campaigns. Empty fields are left out.
+export interface PersonaStyle {
+  ageRange: string; // e.g. '25-30'
+  bodyType: string;
+  hair: string;
+  wardrobe: string[]; // signature items
+  colorPalette: string[];
+  photographyStyle: string;
+  cameraLook: string; // camera and lens, e.g. 'iPhone front camera, slight wide-angle distortion'
+  forbidden: string[]; // never shown in the persona's photos
+}
+
+// How the persona writes, learned from its sample captions and followed by the caption writer
+export interface VoiceProfile {
+  summary: string;
+  vocabulary: string[]; // characteristic words and slang
+  emojiUsage: string;
+  sentenceLength: string;
+  languageMix: string; // languages used and how they are mixed
+  recurringPhrases: string[];
+  sampleCount: number; // samples it was learned from
+  learnedAt: string;
+}
+
+export type PublishPlatform = 'instagram' | 'tiktok' | 'local';
+
+// Credentials of the persona's account on a platform. Sent to the server once when connecting, never read back.
+export interface PublishAccount {
+  platform: PublishPlatform;
+  accountId?: string; // Instagram: professional account (IG user) id
+  accessToken?: string; // Instagram / TikTok
+  webhookUrl?: string; // local: POST the post here instead of writing it to the server's publish folder
+}
+
+// A publish in flight is only tracked by the tab that runs it, never saved
+export type PublicationStatus = 'processing' | 'published' | 'failed';
+
+export interface Publication {
+  platform: PublishPlatform;
+  status: PublicationStatus;
+  remoteId?: string; // platform post id (or TikTok publish id while processing)
+  remoteUrl?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+// A saved, reusable set of hashtags (without '#') kept on a persona or brand
+export interface HashtagGroup {
+  id: string;
+  name: string;
+  hashtags: string[];
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  description: string;
+  imageUrls: string[]; // storage URLs of the product photos
+}
+
+export interface Brand {
+  id: string;
+  name: string;
+  toneOfVoice: string;
+  bannedWords: string[]; // never used in ideas or captions
+  requiredHashtags: string[]; // added to every caption, without '#'
+  visualGuidelines: string; // colours, styling and composition rules for images
+  products: Product[];
+  hashtagGroups?: HashtagGroup[];
+  updatedAt?: string;
+  workspaceId?: string;
+  ownerId?: string;
+}
+
+export interface CarouselSlide {
+  id: string;
+  title: string;
+  shot: string; // framing/subject/action for this slide
 }
 
 export interface GeneratedIdea {
@@ -15,6 +103,9 @@ export interface GeneratedIdea {
   title: string;
   description: string;
   selected: boolean;
+  slides?: CarouselSlide[]; // slide plan when the campaign is in carousel mode
+  productId?: string; // Product (from the campaign brand's catalogue) the idea is built around
+  provenance?: Provenance;
 }
 
 export interface RefinementRequirement {
@@ -23,28 +114,288 @@ export interface RefinementRequirement {
   suggestion: string;
   userResponse: string;
   referenceImage?: string; // base64
+  provenance?: Provenance;
+}
+
+export type AspectRatio = '1:1' | '2:3' | '3:4' | '4:5' | '9:16' | '16:9';
+
+export interface OutputFormat {
+  id: string;
+  platform: string;
+  label: string;
+  aspectRatio: AspectRatio;
+  framing: string; // composition hint added to the image prompt
+}
+
+export interface IdentityScore {
+  score: number; // 0-100, how closely the person matches the persona's reference photos
+  reasons: string[];
+  checkedAt: string;
+}
+
+export interface ImageVersion {
+  id: string;
+  parentId: string | null; // null for the original render
+  instruction: string | null; // edit instruction that produced this version
+  imageUrl: string;
+  createdAt: string;
+  identity?: IdentityScore; // persona consistency check of this version
+  provenance?: Provenance; // how this version was rendered or edited
 }
 
 export interface GeneratedImage {
   id: string;
   ideaId: string;
-  imageUrl: string; // base64 data uri
+  imageUrl: string; // base64 data uri or storage URL of the current version
   prompt: string;
+  formatId?: string; // OutputFormat id; missing on images generated before multi-format support
+  aspectRatio?: AspectRatio;
+  slideId?: string; // CarouselSlide id for carousel posts
+  versions?: ImageVersion[]; // edit tree, in creation order
+  currentVersionId?: string;
+  provenance?: Provenance; // of the original render; edits keep theirs on the version
 }
 
-export interface CaptionData {
+// Competition level of a hashtag: how crowded its feed is
+export type HashtagTier = 'low' | 'mid' | 'high';
+
+export interface TieredHashtag {
+  tag: string; // without '#'
+  tier: HashtagTier;
+  rationale: string; // why the tag suits this post
+}
+
+export interface CaptionVariant {
   caption: string;
   hashtags: string[];
+  tieredHashtags?: TieredHashtag[]; // tier and rationale of the generated hashtags; edits only change `hashtags`
+  provenance?: Provenance; // shared by the variants of one generation
+  voiceMatch?: VoiceMatch; // only when the persona has a voice profile
+}
+
+// How closely a caption variant sounds like the persona's voice profile, rated by the caption writer
+export interface VoiceMatch {
+  score: number; // 0-100
+  note: string;
+}
+
+// `caption` / `hashtags` hold the chosen variant, including any edits made in Final Review
+export interface CaptionData extends CaptionVariant {
+  variants?: CaptionVariant[]; // everything generated for the post, as generated
+  selectedVariant?: number; // index into `variants` the caption started from
+}
+
+export type CaptionTone = 'playful' | 'luxury' | 'educational' | 'controversial';
+export type CaptionLength = 'short' | 'medium' | 'long';
+export type EmojiDensity = 'none' | 'light' | 'heavy';
+
+export interface CaptionOptions {
+  variantCount: number;
+  tone: CaptionTone;
+  length: CaptionLength;
+  callToAction: string; // empty for no CTA
+  emojiDensity: EmojiDensity;
 }
 
+export type WorkflowStep = 'dashboard' | 'selection' | 'ideation' | 'refinement' | 'generation' | 'editing' | 'captions' | 'complete';
+
 export interface WorkflowState {
-  step: 'dashboard' | 'selection' | 'ideation' | 'refinement' | 'generation' | 'editing' | 'captions' | 'complete';
+  step: WorkflowStep;
+  campaignId: string | null;
+  workspaceId?: string; // set when the campaign is started
+  brandId: string | null; // brand the campaign is made for, if any
+  featuredProductId: string | null; // product placement mode: every post features this product of the brand
   selectedPersonaIds: string[];
   mode: 'manual' | 'auto' | null;
   manualActivityInput: string;
+  postType: 'single' | 'carousel';
+  targetFormats: string[]; // OutputFormat ids generated for every idea
+  ideaFormats: Record<string, string[]>; // ideaId -> OutputFormat ids (overrides targetFormats)
   generatedIdeas: Record<string, GeneratedIdea[]>; // personaId -> ideas
-  selectedIdeaIds: Record<string, string>; // personaId -> ideaId
+  selectedIdeaIds: Record<string, string[]>; // personaId -> selected ideaIds
   refinementData: Record<string, RefinementRequirement[]>; // ideaId -> requirements
   generatedImages: Record<string, GeneratedImage[]>; // ideaId -> images
+  captionOptions: CaptionOptions;
   captions: Record<string, CaptionData>; // imageId -> caption data
 }
+
+
+export interface CampaignSummary {
+  id: string;
+  title: string;
+  step: WorkflowStep;
+  personaIds: string[];
+  updatedAt: string;
+  workspaceId?: string;
+  ownerId?: string;
+}
+
+export interface ScheduledPost {
+  id: string; // `${campaignId}:${ideaId}`, so re-adding a post updates it
+  campaignId: string;
+  ideaId: string;
+  personaId: string;
+  title: string;
+  imageUrls: string[]; // in posting order (carousel slides)
+  caption: string;
+  hashtags: string[];
+  formatId?: string;
+  scheduledAt: string | null; // null while the post waits in the "unscheduled" tray
+  publications?: Publication[]; // latest attempt per platform
+  updatedAt?: string;
+  workspaceId?: string;
+}
+
+export interface AppUser {
+  id: string;
+  email: string;
+}
+
+export type WorkspaceRole = 'owner' | 'member';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole; // the signed-in user's role
+  monthlyBudget?: number | null; // USD of estimated AI cost per calendar month; null for no limit
+}
+
+// ------------------------------------------------------------------
+// PROMPT TEMPLATES
+// ------------------------------------------------------------------
+
+export type PromptTemplateKey = 'casting-director' | 'creative-director' | 'trend-scout' | 'requirement-analyzer' | 'caption-writer' | 'voice-analyst';
+
+// One immutable version of a text prompt. Version 1 is the built-in default; workspaces add 2, 3, ...
+export interface PromptTemplate {
+  id: string;
+  key: PromptTemplateKey;
+  version: number;
+  body: string; // prompt text with {{variable}} placeholders
+  note?: string; // what changed in this version
+  createdAt?: string;
+  updatedAt?: string;
+  workspaceId?: string; // missing on built-in templates
+  ownerId?: string;
+}
+
+// Version of a template a workspace always uses, instead of the latest one
+export interface PromptTemplatePin {
+  id: string; // `${workspaceId}:${key}`
+  key: PromptTemplateKey;
+  version: number;
+  updatedAt?: string;
+  workspaceId?: string;
+}
+
+// Which template version produced a generated artifact
+export interface PromptTemplateRef {
+  id?: string; // missing on refs recorded before ids were kept
+  key: PromptTemplateKey;
+  version: number;
+}
+
+// ------------------------------------------------------------------
+// PROVENANCE
+// ------------------------------------------------------------------
+
+// How a generated artifact was made. Filled in by the AI provider; the app adds the acting user.
+export interface Provenance {
+  provider: string; // AIProviderId
+  model: string;
+  template?: PromptTemplateRef; // text prompts only
+  prompt: string; // the prompt exactly as sent
+  referenceImages: string[]; // storage URLs, or `kind:id` for images that only exist in the browser
+  parameters: Record<string, string | number | boolean>; // quality, aspect ratio, format, caption options...
+  createdAt: string;
+  userId?: string;
+  userEmail?: string;
+}
+
+export type AuditAction =
+  'idea.generated' | 'requirement.generated' | 'image.generated' | 'image.regenerated' | 'image.edited' | 'caption.generated';
+
+// Append-only record of a generation, kept per workspace
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  artifactId: string; // idea, requirement or image id; the idea id for captions
+  summary: string; // idea title, edit instruction...
+  campaignId?: string | null;
+  personaId?: string;
+  provenance: Provenance;
+  userEmail?: string;
+  createdAt: string;
+  updatedAt?: string;
+  workspaceId?: string;
+  userId?: string; // set by the database from the signed-in user
+}
+
+// ------------------------------------------------------------------
+// USAGE
+// ------------------------------------------------------------------
+
+// Tokens and images billed for the model calls of one AI operation, per model
+export interface ModelUsage {
+  model: string;
+  inputTokens: number; // text, reference images and tool results
+  outputTokens: number; // text and thinking
+  imageTokens: number; // generated images
+  images: number;
+}
+
+// One AI operation (an AIProvider call) and its estimated cost, kept per workspace
+export interface UsageEvent {
+  id: string;
+  operation: string; // AIProvider method, e.g. 'generateUGCImage'
+  provider: string; // AIProviderId
+  usage: ModelUsage[];
+  cost: number; // USD, at the prices of lib/pricing when it was recorded
+  personaId?: string;
+  campaignId?: string | null;
+  userEmail?: string;
+  createdAt: string;
+  updatedAt?: string;
+  workspaceId?: string;
+  userId?: string; // set by the database from the signed-in user
+}
+
+// What an AI operation is charged to; sent with every AI request
+export interface UsageCharge {
+  workspaceId?: string;
+  personaId?: string;
+  campaignId?: string | null;
+}
+
+export interface SyncOperation {
+  id: string; // `${table}:${recordId}` so a newer change to the same record replaces the queued one
+  table: 'personas' | 'campaigns' | 'brands' | 'scheduled_posts' | 'prompt_templates' | 'prompt_template_pins' | 'audit_log' | 'usage_events';
+  action: 'upsert' | 'delete';
+  recordId: string;
+  payload?: any; // DB row (snake_case) for upserts
+  updatedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SyncStatus {
+  pending: number;
+  failed: number;
+  syncing: boolean;
+}
+
+export type JobKind = 'generation' | 'edit' | 'caption';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  ideaId: string;
+  imageId?: string; // edit jobs target an existing image
+  status: JobStatus;
+  progress: number; // 0..1
+  error?: string;
+  createdAt: string;
+}
@@ -1,18 +1,55 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Mounts the API routes (server/aiRoutes.ts, server/publishRoutes.ts) on the dev server so `npm run dev`
+// works without a second process
+const apiRoutes = (): Plugin => ({
+  name: 'ugc-flow-api-routes',
+  configureServer(server) {
+    // Load and handler errors go to `next`, which answers with a 500 instead of leaving the request hanging
+    server.middlewares.use('/api/ai', async (req, res, next) => {
+      try {
+        const { handleAIRequest } = await server.ssrLoadModule('/server/aiRoutes.ts');
+        await handleAIRequest(req, res);
+      } catch (err) {
+        next(err);
+      }
+    });
+    server.middlewares.use('/api/publish', async (req, res, next) => {
+      try {
+        const { handlePublishRequest } = await server.ssrLoadModule('/server/publishRoutes.ts');
+        await handlePublishRequest(req, res);
+      } catch (err) {
+        next(err);
+      }
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+
+    // Settings the API routes read from process.env. The Gemini and service role keys stay server-only and are
+    // never `define`d into the client bundle; the public Supabase settings let them verify who is signed in.
+    for (const key of [
+      'GEMINI_API_KEY', 'AI_RATE_LIMIT_PER_MINUTE', 'SUPABASE_URL', 'SUPABASE_ANON_KEY', 'SUPABASE_SERVICE_ROLE_KEY',
+      'PUBLISH_RATE_LIMIT_PER_MINUTE', 'PUBLISH_ACCOUNTS_FILE', 'ENABLE_LOCAL_PUBLISHER', 'PUBLISH_DIR', 'TIKTOK_PRIVACY_LEVEL'
+    ]) {
+      if (env[key] && !process.env[key]) process.env[key] = env[key];
+    }
+
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), apiRoutes()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'mock')),
+        'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY),
+        'process.env.AI_PRICES': JSON.stringify(env.AI_PRICES || '')
       },
       resolve: {
         alias: {